@@ -4,6 +4,9 @@ import {
   EnvConfig, 
   AppConfig, 
   handleConfigError,
+  parseCliArguments,
+  parseAppOptions,
+  parseDatasets,
   workflowApiKeyMap,
   appConfig,
   validateConfig,
@@ -108,6 +111,282 @@ describe('Config Module', () => {
     });
   });
   
+  describe('Response mode configuration', () => {
+    test('should read response mode from DIFY_RESPONSE_MODE', () => {
+      const config = new EnvConfig({
+        DIFY_BASE_URL: 'https://api.dify.test',
+        DIFY_API_KEYS: 'key1',
+        DIFY_RESPONSE_MODE: 'streaming'
+      }, []);
+      
+      expect(config.getApiRequestConfig().responseMode).toBe('streaming');
+      expect(config.validate()).toBe(true);
+    });
+    
+    test('validate should reject unsupported response modes', () => {
+      const config = new EnvConfig({
+        DIFY_BASE_URL: 'https://api.dify.test',
+        DIFY_API_KEYS: 'key1',
+        DIFY_RESPONSE_MODE: 'async'
+      }, []);
+      
+      expect(config.validate()).toBe(false);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining("Unsupported response mode: 'async'"));
+    });
+  });
+  
+  describe('App options configuration', () => {
+    test('should merge options for all apps with app specific options', () => {
+      const config = new EnvConfig({
+        DIFY_BASE_URL: 'https://api.dify.test',
+        DIFY_API_KEYS: 'key1',
+        DIFY_APP_OPTIONS: JSON.stringify({
+          '*': { conversationTools: true },
+          'Internal Bot': { conversationTools: false }
+        })
+      }, []);
+      
+      expect(config.validate()).toBe(true);
+      expect(config.getAppOptions('Support Bot')).toEqual({ conversationTools: true });
+      expect(config.getAppOptions('Internal Bot')).toEqual({ conversationTools: false });
+    });
+    
+    test('should return empty options when DIFY_APP_OPTIONS is not set', () => {
+      const config = new EnvConfig({}, []);
+      
+      expect(config.getAppOptions('Support Bot')).toEqual({});
+    });
+    
+    test('validate should reject invalid DIFY_APP_OPTIONS', () => {
+      const config = new EnvConfig({
+        DIFY_BASE_URL: 'https://api.dify.test',
+        DIFY_API_KEYS: 'key1',
+        DIFY_APP_OPTIONS: '{"Support Bot": true}'
+      }, []);
+      
+      expect(config.validate()).toBe(false);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining("DIFY_APP_OPTIONS['Support Bot'] must be an object")
+      );
+    });
+    
+    test('parseAppOptions should require outputSchema to be an object JSON Schema', () => {
+      const outputSchema = { type: 'object', properties: { summary: { type: 'string' } } };
+      
+      expect(parseAppOptions(JSON.stringify({ summarize: { outputSchema } }))).toEqual({ summarize: { outputSchema } });
+      expect(() => parseAppOptions('{"summarize": {"outputSchema": {"type": "string"}}}'))
+        .toThrow(`DIFY_APP_OPTIONS['summarize'].outputSchema must be a JSON Schema with "type": "object". Received: {"type":"string"}`);
+    });
+    
+    test('parseAppOptions should validate tool annotations', () => {
+      const annotations = { title: 'Summarize', readOnlyHint: true };
+      
+      expect(parseAppOptions(JSON.stringify({ summarize: { annotations } }))).toEqual({ summarize: { annotations } });
+      expect(() => parseAppOptions('{"summarize": {"annotations": {"readOnlyHint": "yes"}}}'))
+        .toThrow(`DIFY_APP_OPTIONS['summarize'].annotations.readOnlyHint must be a boolean. Received: "yes"`);
+      expect(() => parseAppOptions('{"summarize": {"annotations": {"readOnly": true}}}'))
+        .toThrow("DIFY_APP_OPTIONS['summarize'].annotations has unknown key 'readOnly'");
+    });
+    
+    test('parseAppOptions should report JSON syntax errors', () => {
+      expect(() => parseAppOptions('{invalid')).toThrow(/DIFY_APP_OPTIONS is not valid JSON/);
+      expect(() => parseAppOptions('[]')).toThrow(/must be a JSON object keyed by app name/);
+    });
+  });
+  
+  describe('Dataset configuration', () => {
+    test('should parse dataset API keys and dataset IDs', () => {
+      const config = new EnvConfig({
+        DIFY_BASE_URL: 'https://api.dify.test',
+        DIFY_API_KEYS: 'key1',
+        DIFY_DATASETS: 'dataset-key1:id1, dataset-key2:id2'
+      }, []);
+      
+      expect(config.validate()).toBe(true);
+      expect(config.getDatasets()).toEqual([
+        { apiKey: 'dataset-key1', datasetId: 'id1' },
+        { apiKey: 'dataset-key2', datasetId: 'id2' }
+      ]);
+    });
+    
+    test('should return no datasets when DIFY_DATASETS is not set', () => {
+      expect(new EnvConfig({}, []).getDatasets()).toEqual([]);
+    });
+    
+    test('validate should reject entries without an API key or dataset ID', () => {
+      const config = new EnvConfig({
+        DIFY_BASE_URL: 'https://api.dify.test',
+        DIFY_API_KEYS: 'key1',
+        DIFY_DATASETS: 'dataset-key1:id1,id2'
+      }, []);
+      
+      expect(config.validate()).toBe(false);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining("Invalid datasets:"));
+      expect(() => parseDatasets('dataset-key1:')).toThrow(/Received: 'dataset-key1:'/);
+    });
+    
+    test('should merge dataset options for all datasets with dataset specific options', () => {
+      const config = new EnvConfig({
+        DIFY_BASE_URL: 'https://api.dify.test',
+        DIFY_API_KEYS: 'key1',
+        DIFY_DATASETS: 'dataset-key1:id1,dataset-key1:id2',
+        DIFY_DATASET_OPTIONS: JSON.stringify({ '*': { documentTools: false }, id1: { documentTools: true } })
+      }, []);
+      
+      expect(config.validate()).toBe(true);
+      expect(config.getDatasetOptions('id1')).toEqual({ documentTools: true });
+      expect(config.getDatasetOptions('id2')).toEqual({ documentTools: false });
+    });
+    
+    test('validate should reject invalid DIFY_DATASET_OPTIONS', () => {
+      const config = new EnvConfig({
+        DIFY_BASE_URL: 'https://api.dify.test',
+        DIFY_API_KEYS: 'key1',
+        DIFY_DATASET_OPTIONS: '["id1"]'
+      }, []);
+      
+      expect(config.validate()).toBe(false);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('DIFY_DATASET_OPTIONS must be a JSON object keyed by dataset ID')
+      );
+    });
+  });
+  
+  describe('Transport configuration', () => {
+    const baseEnv = {
+      DIFY_BASE_URL: 'https://api.dify.test',
+      DIFY_API_KEYS: 'key1'
+    };
+    
+    test('should default to stdio transport', () => {
+      const config = new EnvConfig(baseEnv, []);
+      
+      expect(config.getTransportConfig()).toEqual({
+        type: 'stdio',
+        host: '127.0.0.1',
+        port: 3000,
+        path: '/mcp',
+        ssePath: '/sse',
+        messagesPath: '/messages',
+        sessionIdleTimeoutMs: 1800000
+      });
+    });
+    
+    test('should read transport settings from environment variables', () => {
+      const config = new EnvConfig({
+        ...baseEnv,
+        MCP_TRANSPORT: 'http',
+        MCP_HTTP_HOST: '0.0.0.0',
+        MCP_HTTP_PORT: '8080',
+        MCP_HTTP_PATH: '/dify'
+      }, []);
+      
+      expect(config.getTransportConfig()).toEqual({
+        type: 'http',
+        host: '0.0.0.0',
+        port: 8080,
+        path: '/dify',
+        ssePath: '/sse',
+        messagesPath: '/messages',
+        sessionIdleTimeoutMs: 1800000
+      });
+      expect(config.validate()).toBe(true);
+    });
+    
+    test('should read SSE transport paths', () => {
+      const config = new EnvConfig(
+        { ...baseEnv, MCP_TRANSPORT: 'sse', MCP_SSE_PATH: '/events' },
+        ['--messages-path', '/rpc']
+      );
+      
+      const transportConfig = config.getTransportConfig();
+      expect(transportConfig.type).toBe('sse');
+      expect(transportConfig.ssePath).toBe('/events');
+      expect(transportConfig.messagesPath).toBe('/rpc');
+      expect(config.validate()).toBe(true);
+    });
+    
+    test('should prefer command line arguments over environment variables', () => {
+      const config = new EnvConfig(
+        { ...baseEnv, MCP_TRANSPORT: 'stdio', MCP_HTTP_PORT: '8080' },
+        ['--transport', 'http', '--port=9090']
+      );
+      
+      const transportConfig = config.getTransportConfig();
+      expect(transportConfig.type).toBe('http');
+      expect(transportConfig.port).toBe(9090);
+    });
+    
+    test('validate should reject unsupported transports', () => {
+      const config = new EnvConfig({ ...baseEnv, MCP_TRANSPORT: 'websocket' }, []);
+      
+      expect(config.validate()).toBe(false);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining("Unsupported transport: 'websocket'"));
+    });
+    
+    test('validate should reject invalid ports and paths', () => {
+      expect(new EnvConfig({ ...baseEnv, MCP_HTTP_PORT: 'abc' }, []).validate()).toBe(false);
+      expect(new EnvConfig({ ...baseEnv, MCP_HTTP_PORT: '70000' }, []).validate()).toBe(false);
+      expect(new EnvConfig({ ...baseEnv, MCP_HTTP_PATH: 'mcp' }, []).validate()).toBe(false);
+      expect(new EnvConfig({ ...baseEnv, MCP_SSE_MESSAGES_PATH: '/sse' }, []).validate()).toBe(false);
+      expect(new EnvConfig({ ...baseEnv, MCP_HTTP_SESSION_IDLE_TIMEOUT: '0' }, []).validate()).toBe(false);
+    });
+    
+    test('should read the session idle timeout in seconds', () => {
+      const config = new EnvConfig(baseEnv, ['--session-idle-timeout', '60']);
+      
+      expect(config.getTransportConfig().sessionIdleTimeoutMs).toBe(60000);
+    });
+    
+    test('should ignore the process arguments unless they are passed explicitly', () => {
+      const originalArgv = process.argv;
+      process.argv = ['node', 'index.js', '--transport', 'http'];
+      try {
+        expect(new EnvConfig(baseEnv).getTransportConfig().type).toBe('stdio');
+      } finally {
+        process.argv = originalArgv;
+      }
+    });
+  });
+  
+  describe('Local file configuration', () => {
+    const baseEnv = {
+      DIFY_BASE_URL: 'https://api.dify.test',
+      DIFY_API_KEYS: 'key1'
+    };
+    
+    test('should disable local file access by default', () => {
+      expect(new EnvConfig(baseEnv, []).getLocalFileRoot()).toBeUndefined();
+    });
+    
+    test('should enable local file access under the configured root for stdio', () => {
+      const config = new EnvConfig({ ...baseEnv, DIFY_LOCAL_FILE_ROOT: '/srv/files' }, []);
+      
+      expect(config.getLocalFileRoot()).toBe('/srv/files');
+    });
+    
+    test('should disable local file access for remote transports unless explicitly allowed', () => {
+      const env = { ...baseEnv, DIFY_LOCAL_FILE_ROOT: '/srv/files' };
+      
+      expect(new EnvConfig(env, ['--transport', 'http']).getLocalFileRoot()).toBeUndefined();
+      expect(new EnvConfig(env, ['--transport', 'sse']).getLocalFileRoot()).toBeUndefined();
+      expect(new EnvConfig({ ...env, DIFY_LOCAL_FILE_REMOTE_ACCESS: 'true' }, ['--transport', 'http']).getLocalFileRoot())
+        .toBe('/srv/files');
+    });
+  });
+  
+  describe('parseCliArguments', () => {
+    test('should parse both separated and inline option values', () => {
+      expect(parseCliArguments(['positional', '--transport', 'http', '--port=8080', '--verbose']))
+        .toEqual({ transport: 'http', port: '8080', verbose: 'true' });
+    });
+    
+    test('should treat an option followed by another option as a flag', () => {
+      expect(parseCliArguments(['--verbose', '--host', 'localhost']))
+        .toEqual({ verbose: 'true', host: 'localhost' });
+    });
+  });
+  
   describe('handleConfigError', () => {
     test('should throw error in test environment', () => {
       process.env.NODE_ENV = 'test';
@@ -6,9 +6,11 @@ import {
   HttpResponse, 
   RequestOptions, 
   ResponseParser,
-  ApiError 
+  ApiError,
+  normalizeAudioMimeType
 } from '../../dify/client.js';
 import { Config } from '../../config.js';
+import { FormData } from 'node-fetch';
 
 // モック用のレスポンスパーサー
 class MockResponseParser implements ResponseParser {
@@ -265,6 +267,525 @@ describe('DifyApiClient', () => {
     });
   });
   
+  describe('runWorkflow (streaming)', () => {
+    const workflowFinishedEvent = {
+      event: 'workflow_finished',
+      task_id: 'task-1',
+      workflow_run_id: 'run-1',
+      data: { id: 'run-1', status: 'succeeded', outputs: { answer: 'streamed response' } }
+    };
+    
+    beforeEach(() => {
+      mockConfig.getApiRequestConfig.mockReturnValue({
+        responseMode: 'streaming',
+        userId: 'test-user'
+      });
+    });
+    
+    it('ストリーミングイベントを通知し、workflow_finishedから結果を組み立てること', async () => {
+      // ストリーミングレスポンスを設定
+      const streamText = [
+        { event: 'workflow_started', task_id: 'task-1', workflow_run_id: 'run-1', data: {} },
+        { event: 'ping' },
+        workflowFinishedEvent
+      ].map(event => `data: ${JSON.stringify(event)}\n\n`).join('');
+      const mockHttpResponse = {
+        ...createMockResponse({}),
+        body: [new TextEncoder().encode(streamText)]
+      };
+      mockHttpClient.request.mockResolvedValueOnce(mockHttpResponse);
+      
+      const onEvent = jest.fn();
+      const abortController = new AbortController();
+      
+      // テスト実行
+      const result = await client.runWorkflow('test-api-key', { prompt: 'test' }, { onEvent, signal: abortController.signal });
+      
+      // 検証
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        'https://api.example.com/workflows/run',
+        expect.objectContaining({
+          body: JSON.stringify({
+            inputs: { prompt: 'test' },
+            response_mode: 'streaming',
+            user: 'test-user'
+          }),
+          signal: abortController.signal
+        })
+      );
+      expect(onEvent).toHaveBeenCalledTimes(3);
+      expect(mockResponseParser.parse).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        task_id: 'task-1',
+        workflow_run_id: 'run-1',
+        data: workflowFinishedEvent.data
+      });
+    });
+    
+    it('本文ストリームがない場合はテキストからイベントを解析すること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(
+        createMockResponse({ text: `data: ${JSON.stringify(workflowFinishedEvent)}\n\n` })
+      );
+      
+      const result = await client.runWorkflow('test-api-key', { prompt: 'test' });
+      
+      expect(result.data?.outputs).toEqual({ answer: 'streamed response' });
+    });
+    
+    it('workflow_finishedがない場合にエラーをスローすること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(
+        createMockResponse({ text: `data: ${JSON.stringify({ event: 'workflow_started', task_id: 'task-1' })}\n\n` })
+      );
+      
+      await expect(client.runWorkflow('test-api-key', { prompt: 'test' }))
+        .rejects.toThrow(/without a workflow_finished event/);
+    });
+  });
+  
+  describe('stopWorkflowTask', () => {
+    it('タスク停止エンドポイントにユーザーIDを送信すること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: '{"result":"success"}' }));
+      mockResponseParser.parse.mockReturnValueOnce({ result: 'success' });
+      
+      // テスト実行
+      const result = await client.stopWorkflowTask('test-api-key', 'task-1');
+      
+      // 検証
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        'https://api.example.com/workflows/tasks/task-1/stop',
+        {
+          method: 'POST',
+          headers: {
+            Authorization: 'Bearer test-api-key',
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ user: 'test-user' })
+        }
+      );
+      expect(result).toEqual({ result: 'success' });
+    });
+    
+    it('HTTPエラーの場合に適切なエラーをスローすること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        text: 'Task not found'
+      }));
+      
+      await expect(client.stopWorkflowTask('test-api-key', 'task-1')).rejects.toMatchObject({
+        statusCode: 404,
+        endpoint: '/workflows/tasks/task-1/stop'
+      });
+    });
+  });
+
+  describe('getWorkflowRun', () => {
+    it('実行IDのエンドポイントにGETでリクエストすること', async () => {
+      const runDetail = { id: 'run-1', status: 'succeeded', outputs: { result: 'done' }, elapsed_time: 1.5, total_tokens: 42 };
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: JSON.stringify(runDetail) }));
+      mockResponseParser.parse.mockReturnValueOnce(runDetail);
+
+      const result = await client.getWorkflowRun('test-api-key', 'run-1');
+
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        'https://api.example.com/workflows/run/run-1?user=test-user',
+        expect.objectContaining({ method: 'GET', body: undefined })
+      );
+      expect(result).toEqual(runDetail);
+    });
+  });
+
+  describe('getWorkflowLogs', () => {
+    it('指定された絞り込み条件をクエリとして送信すること', async () => {
+      const logs = { page: 2, limit: 10, total: 11, has_more: false, data: [] };
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: JSON.stringify(logs) }));
+      mockResponseParser.parse.mockReturnValueOnce(logs);
+
+      const result = await client.getWorkflowLogs('test-api-key', { status: 'failed', keyword: 'invoice', page: 2, limit: 10 });
+
+      expect(mockHttpClient.request.mock.calls[0][0]).toBe(
+        'https://api.example.com/workflows/logs?status=failed&keyword=invoice&page=2&limit=10&user=test-user'
+      );
+      expect(result).toEqual(logs);
+    });
+  });
+
+  describe('sendChatMessage', () => {
+    it('queryと入力、会話IDを/chat-messagesに送信すること', async () => {
+      const chatResponse = { message_id: 'message-1', conversation_id: 'conversation-1', answer: 'Hello!' };
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: JSON.stringify(chatResponse) }));
+      mockResponseParser.parse.mockReturnValueOnce(chatResponse);
+      
+      // テスト実行
+      const result = await client.sendChatMessage('test-api-key', {
+        query: 'Hi',
+        inputs: { language: 'ja' },
+        conversation_id: 'conversation-1'
+      });
+      
+      // 検証
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        'https://api.example.com/chat-messages',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({
+            query: 'Hi',
+            inputs: { language: 'ja' },
+            conversation_id: 'conversation-1',
+            response_mode: 'sync',
+            user: 'test-user'
+          })
+        })
+      );
+      expect(result).toEqual(chatResponse);
+    });
+    
+    it('ストリーミングモードでは回答を連結してmessage_endで結果を返すこと', async () => {
+      mockConfig.getApiRequestConfig.mockReturnValue({ responseMode: 'streaming', userId: 'test-user' });
+      const streamText = [
+        { event: 'message', task_id: 'task-1', conversation_id: 'conversation-1', answer: 'Hel' },
+        { event: 'message', task_id: 'task-1', conversation_id: 'conversation-1', answer: 'lo' },
+        { event: 'message_end', task_id: 'task-1', message_id: 'message-1', conversation_id: 'conversation-1' }
+      ].map(event => `data: ${JSON.stringify(event)}\n\n`).join('');
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: streamText }));
+      
+      const onEvent = jest.fn();
+      const result = await client.sendChatMessage('test-api-key', { query: 'Hi', inputs: {} }, { onEvent });
+      
+      expect(JSON.parse(mockHttpClient.request.mock.calls[0][1].body).conversation_id).toBe('');
+      expect(onEvent).toHaveBeenCalledTimes(3);
+      expect(result).toEqual({
+        task_id: 'task-1',
+        message_id: 'message-1',
+        conversation_id: 'conversation-1',
+        answer: 'Hello',
+        metadata: undefined
+      });
+    });
+    
+    it('HTTPエラーの場合に適切なエラーをスローすること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        text: 'Conversation not found'
+      }));
+      
+      await expect(client.sendChatMessage('test-api-key', { query: 'Hi', inputs: {}, conversation_id: 'missing' }))
+        .rejects.toMatchObject({ statusCode: 404, endpoint: '/chat-messages' });
+    });
+  });
+  
+  describe('stopChatMessage', () => {
+    it('チャットの停止エンドポイントにユーザーIDを送信すること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: '{"result":"success"}' }));
+      mockResponseParser.parse.mockReturnValueOnce({ result: 'success' });
+      
+      const result = await client.stopChatMessage('test-api-key', 'task-1');
+      
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        'https://api.example.com/chat-messages/task-1/stop',
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ user: 'test-user' }) })
+      );
+      expect(result).toEqual({ result: 'success' });
+    });
+  });
+  
+  describe('sendCompletionMessage', () => {
+    it('入力を/completion-messagesに送信すること', async () => {
+      const completionResponse = { message_id: 'message-1', mode: 'completion', answer: 'Generated text' };
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: JSON.stringify(completionResponse) }));
+      mockResponseParser.parse.mockReturnValueOnce(completionResponse);
+      
+      const result = await client.sendCompletionMessage('test-api-key', { query: 'Write a haiku' });
+      
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        'https://api.example.com/completion-messages',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({
+            inputs: { query: 'Write a haiku' },
+            response_mode: 'sync',
+            user: 'test-user'
+          })
+        })
+      );
+      expect(result).toEqual(completionResponse);
+    });
+    
+    it('ストリーミングモードでは回答を連結して返すこと', async () => {
+      mockConfig.getApiRequestConfig.mockReturnValue({ responseMode: 'streaming', userId: 'test-user' });
+      const streamText = [
+        { event: 'message', task_id: 'task-1', answer: 'Generated ' },
+        { event: 'message', task_id: 'task-1', answer: 'text' },
+        { event: 'message_end', task_id: 'task-1', message_id: 'message-1' }
+      ].map(event => `data: ${JSON.stringify(event)}\n\n`).join('');
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: streamText }));
+      
+      const result = await client.sendCompletionMessage('test-api-key', {});
+      
+      expect(result.answer).toBe('Generated text');
+      expect(result.message_id).toBe('message-1');
+    });
+    
+    it('HTTPエラーの場合に適切なエラーをスローすること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        text: 'app_unavailable'
+      }));
+      
+      await expect(client.sendCompletionMessage('test-api-key', {}))
+        .rejects.toMatchObject({ statusCode: 400, endpoint: '/completion-messages' });
+    });
+  });
+  
+  describe('stopCompletionMessage', () => {
+    it('テキスト生成の停止エンドポイントにユーザーIDを送信すること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: '{"result":"success"}' }));
+      mockResponseParser.parse.mockReturnValueOnce({ result: 'success' });
+      
+      await client.stopCompletionMessage('test-api-key', 'task-1');
+      
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        'https://api.example.com/completion-messages/task-1/stop',
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ user: 'test-user' }) })
+      );
+    });
+  });
+  
+  describe('会話管理API', () => {
+    it('listConversationsはユーザーIDとページングのクエリを付与してGETすること', async () => {
+      const conversations = { limit: 20, has_more: false, data: [{ id: 'conversation-1', name: 'Hello' }] };
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: JSON.stringify(conversations) }));
+      mockResponseParser.parse.mockReturnValueOnce(conversations);
+      
+      const result = await client.listConversations('test-api-key', { limit: 20, last_id: undefined, sort_by: '-updated_at' });
+      
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        'https://api.example.com/conversations?limit=20&sort_by=-updated_at&user=test-user',
+        {
+          method: 'GET',
+          headers: {
+            Authorization: 'Bearer test-api-key',
+            'Content-Type': 'application/json'
+          },
+          body: undefined
+        }
+      );
+      expect(result).toEqual(conversations);
+    });
+    
+    it('getMessagesは会話IDをクエリに含めること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: '{"data":[]}' }));
+      mockResponseParser.parse.mockReturnValueOnce({ data: [] });
+      
+      await client.getMessages('test-api-key', 'conversation-1', { first_id: 'message-1' });
+      
+      expect(mockHttpClient.request.mock.calls[0][0]).toBe(
+        'https://api.example.com/messages?conversation_id=conversation-1&first_id=message-1&user=test-user'
+      );
+    });
+    
+    it('renameConversationは名前とユーザーIDを送信すること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: '{"id":"conversation-1","name":"Renamed"}' }));
+      mockResponseParser.parse.mockReturnValueOnce({ id: 'conversation-1', name: 'Renamed' });
+      
+      await client.renameConversation('test-api-key', 'conversation-1', { name: 'Renamed' });
+      
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        'https://api.example.com/conversations/conversation-1/name',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ name: 'Renamed', auto_generate: false, user: 'test-user' })
+        })
+      );
+    });
+    
+    it('deleteConversationは本文のない成功レスポンスを処理すること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ status: 204, statusText: 'No Content', text: '' }));
+      
+      const result = await client.deleteConversation('test-api-key', 'conversation-1');
+      
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        'https://api.example.com/conversations/conversation-1',
+        expect.objectContaining({ method: 'DELETE', body: JSON.stringify({ user: 'test-user' }) })
+      );
+      expect(mockResponseParser.parse).not.toHaveBeenCalled();
+      expect(result).toBeUndefined();
+    });
+    
+    it('本文のない成功レスポンスを返すエンドポイントはエラーにすること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ status: 204, statusText: 'No Content', text: '' }));
+      
+      await expect(client.getWorkflowRun('test-api-key', 'run-1')).rejects.toThrow('/workflows/run/run-1 API returned an empty response');
+    });
+    
+    it('sendMessageFeedbackは評価とコメントをユーザーIDとともに送信すること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: '{"result":"success"}' }));
+      mockResponseParser.parse.mockReturnValueOnce({ result: 'success' });
+      
+      const result = await client.sendMessageFeedback('test-api-key', 'message-1', { rating: 'dislike', content: 'Wrong answer' });
+      
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        'https://api.example.com/messages/message-1/feedbacks',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ rating: 'dislike', content: 'Wrong answer', user: 'test-user' })
+        })
+      );
+      expect(result).toEqual({ result: 'success' });
+    });
+    
+    it('HTTPエラーの場合にエンドポイントを含むApiErrorをスローすること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        text: '{"code":"not_found","message":"Conversation Not Exists."}'
+      }));
+      
+      const promise = client.deleteConversation('test-api-key', 'missing');
+      
+      await expect(promise).rejects.toBeInstanceOf(ApiError);
+      await expect(promise).rejects.toMatchObject({ statusCode: 404, endpoint: '/conversations/missing' });
+    });
+  });
+  
+  describe('textToAudio', () => {
+    it('テキストを送信し、音声とMIMEタイプを返すこと', async () => {
+      const audioBytes = Buffer.from('audio bytes');
+      mockHttpClient.request.mockResolvedValueOnce({
+        ...createMockResponse({}),
+        headers: { get: (name: string) => (name === 'content-type' ? 'audio/mp3' : null) },
+        arrayBuffer: async () => audioBytes.buffer.slice(audioBytes.byteOffset, audioBytes.byteOffset + audioBytes.length)
+      });
+      
+      const result = await client.textToAudio('test-api-key', { text: 'Hello' });
+      
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        'https://api.example.com/text-to-audio',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ text: 'Hello', user: 'test-user' })
+        })
+      );
+      expect(result).toEqual({ data: audioBytes, mimeType: 'audio/mpeg' });
+    });
+    
+    it('arrayBufferに対応していないレスポンスの場合は本文のチャンクを結合すること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce({
+        ...createMockResponse({}),
+        headers: { get: () => 'audio/wav' },
+        body: [new Uint8Array([1, 2]), new Uint8Array([3])]
+      });
+      
+      const result = await client.textToAudio('test-api-key', { message_id: 'message-1' });
+      
+      expect(result).toEqual({ data: Buffer.from([1, 2, 3]), mimeType: 'audio/wav' });
+    });
+    
+    it('音声の代わりにJSONが返された場合にエラーをスローすること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce({
+        ...createMockResponse({}),
+        headers: { get: () => 'application/json' },
+        body: ['{"code":"provider_not_initialize"}']
+      });
+      
+      await expect(client.textToAudio('test-api-key', { text: 'Hello' }))
+        .rejects.toThrow('/text-to-audio API did not return audio. Response: {"code":"provider_not_initialize"}');
+    });
+  });
+  
+  describe('audioToText', () => {
+    it('multipart/form-dataで音声ファイルとユーザーIDを送信すること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: '{"text":"Hello"}' }));
+      mockResponseParser.parse.mockReturnValueOnce({ text: 'Hello' });
+      
+      const result = await client.audioToText('test-api-key', {
+        data: Buffer.from('audio bytes'),
+        filename: 'voice.m4a',
+        mimeType: 'audio/mp4'
+      });
+      
+      const [url, options] = mockHttpClient.request.mock.calls[0];
+      expect(url).toBe('https://api.example.com/audio-to-text');
+      expect(options.headers).toEqual({ Authorization: 'Bearer test-api-key' });
+      expect(options.body).toBeInstanceOf(FormData);
+      expect(options.body.get('user')).toBe('test-user');
+      expect(options.body.get('file').name).toBe('voice.m4a');
+      expect(options.body.get('file').type).toBe('audio/mp4');
+      expect(result).toEqual({ text: 'Hello' });
+    });
+    
+    it('HTTPエラーの場合にエンドポイントを含むApiErrorをスローすること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({
+        ok: false,
+        status: 415,
+        statusText: 'Unsupported Media Type',
+        text: '{"code":"unsupported_audio_type"}'
+      }));
+      
+      await expect(client.audioToText('test-api-key', {
+        data: Buffer.from('audio bytes'),
+        filename: 'voice.ogg'
+      })).rejects.toMatchObject({ statusCode: 415, endpoint: '/audio-to-text' });
+    });
+  });
+  
+  describe('normalizeAudioMimeType', () => {
+    it('パラメーターを取り除き、非標準のMIMEタイプを変換すること', () => {
+      expect(normalizeAudioMimeType('audio/wav; charset=binary')).toBe('audio/wav');
+      expect(normalizeAudioMimeType('audio/mp3')).toBe('audio/mpeg');
+      expect(normalizeAudioMimeType(null)).toBe('audio/mpeg');
+    });
+  });
+  
+  describe('uploadFile', () => {
+    it('multipart/form-dataでファイルとユーザーIDを送信すること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: '{"id":"file-1"}' }));
+      mockResponseParser.parse.mockReturnValueOnce({ id: 'file-1', name: 'report.pdf' });
+      
+      // テスト実行
+      const result = await client.uploadFile('test-api-key', {
+        data: Buffer.from('file content'),
+        filename: 'report.pdf',
+        mimeType: 'application/pdf'
+      });
+      
+      // 検証
+      const [url, options] = mockHttpClient.request.mock.calls[0];
+      expect(url).toBe('https://api.example.com/files/upload');
+      expect(options.method).toBe('POST');
+      // Content-Typeはboundary付きで自動設定されるため指定しない
+      expect(options.headers).toEqual({ Authorization: 'Bearer test-api-key' });
+      expect(options.body).toBeInstanceOf(FormData);
+      expect(options.body.get('user')).toBe('test-user');
+      expect(options.body.get('file').name).toBe('report.pdf');
+      expect(options.body.get('file').type).toBe('application/pdf');
+      expect(result).toEqual({ id: 'file-1', name: 'report.pdf' });
+    });
+    
+    it('HTTPエラーの場合に適切なエラーをスローすること', async () => {
+      mockHttpClient.request.mockResolvedValueOnce(createMockResponse({
+        ok: false,
+        status: 413,
+        statusText: 'Payload Too Large',
+        text: 'file_too_large'
+      }));
+      
+      await expect(client.uploadFile('test-api-key', {
+        data: Buffer.from('file content'),
+        filename: 'large.pdf'
+      })).rejects.toMatchObject({
+        statusCode: 413,
+        endpoint: '/files/upload'
+      });
+    });
+  });
+  
   describe('APIキーのマスク処理', () => {
     it('短いAPIキーを正しくマスクすること', async () => {
       // HTTPエラーを設定して、マスク処理をトリガー
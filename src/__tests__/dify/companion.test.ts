@@ -0,0 +1,174 @@
+import { describe, it, expect } from '@jest/globals';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createCompanionTools, createConversationTools, createFeedbackTool, createTextToAudioTool, createSpeechToTextTool, createWorkflowRunTool, createWorkflowLogsTool } from '../../dify/companion.js';
+import { WorkflowData } from '../../dify/service.js';
+
+// テスト用のアプリのツール
+function createAppTool(name: string): Tool {
+  return { name, description: name, inputSchema: { type: 'object', properties: {} } };
+}
+
+describe('createConversationTools', () => {
+  it('会話管理の4つのツールを作成すること', () => {
+    const tools = createConversationTools('support', 'chat-api-key', new Set(['support']));
+
+    expect(tools.map(companion => [companion.tool.name, companion.action])).toEqual([
+      ['support-list-conversations', 'list-conversations'],
+      ['support-get-messages', 'get-messages'],
+      ['support-rename-conversation', 'rename-conversation'],
+      ['support-delete-conversation', 'delete-conversation']
+    ]);
+    expect(tools.every(companion => companion.apiKey === 'chat-api-key' && companion.appToolName === 'support')).toBe(true);
+  });
+
+  it('既存のツール名と重複しないように名前を付けること', () => {
+    const existingNames = new Set(['support', 'support-list-conversations']);
+
+    const tools = createConversationTools('support', 'chat-api-key', existingNames);
+
+    expect(tools[0].tool.name).toBe('support-list-conversations-1');
+    expect(existingNames.has('support-delete-conversation')).toBe(true);
+  });
+
+  it('一覧・取得のツールは読み取り専用、削除のツールは破壊的なツールとして注釈を付けること', () => {
+    const tools = createConversationTools('support', 'chat-api-key', new Set(['support']));
+
+    expect(tools.map(companion => companion.tool.annotations)).toEqual([
+      { title: 'support-list-conversations', readOnlyHint: true, openWorldHint: false },
+      { title: 'support-get-messages', readOnlyHint: true, openWorldHint: false },
+      { title: 'support-rename-conversation', readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+      { title: 'support-delete-conversation', readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false }
+    ]);
+  });
+});
+
+describe('createFeedbackTool', () => {
+  it('メッセージIDと評価を必須とするフィードバックツールを作成すること', () => {
+    const companion = createFeedbackTool('support', 'chat-api-key', new Set(['support']));
+
+    expect(companion.tool.name).toBe('support-send-feedback');
+    expect(companion.action).toBe('send-feedback');
+    expect(companion.tool.inputSchema.required).toEqual(['message_id', 'rating']);
+    expect((companion.tool.inputSchema.properties as any).rating.enum).toEqual(['like', 'dislike']);
+  });
+});
+
+describe('createTextToAudioTool', () => {
+  it('チャットアプリではテキストの代わりにメッセージIDを指定できること', () => {
+    const chatTool = createTextToAudioTool('support', 'chat-api-key', true, new Set());
+    const workflowTool = createTextToAudioTool('summarize', 'workflow-api-key', false, new Set());
+
+    expect(chatTool.tool.name).toBe('support-text-to-audio');
+    expect(Object.keys(chatTool.tool.inputSchema.properties as object)).toEqual(['text', 'message_id']);
+    expect(chatTool.tool.inputSchema.required).toEqual([]);
+    expect(Object.keys(workflowTool.tool.inputSchema.properties as object)).toEqual(['text']);
+    expect(workflowTool.tool.inputSchema.required).toEqual(['text']);
+  });
+});
+
+describe('createSpeechToTextTool', () => {
+  it('音声ファイルを必須とする文字起こしツールを作成すること', () => {
+    const companion = createSpeechToTextTool('support', 'chat-api-key', new Set());
+
+    expect(companion.tool.name).toBe('support-speech-to-text');
+    expect(companion.action).toBe('speech-to-text');
+    expect(companion.tool.inputSchema.required).toEqual(['audio']);
+    expect(Object.keys((companion.tool.inputSchema.properties as any).audio.properties)).toEqual([
+      'content', 'path', 'filename', 'mime_type'
+    ]);
+  });
+});
+
+describe('createWorkflowRunTool', () => {
+  it('実行IDを必須とする実行結果の照会ツールを作成すること', () => {
+    const companion = createWorkflowRunTool('summarize', 'workflow-api-key', new Set(['summarize-get-workflow-run']));
+
+    expect(companion.tool.name).toBe('summarize-get-workflow-run-1');
+    expect(companion.action).toBe('get-workflow-run');
+    expect(companion.tool.inputSchema.required).toEqual(['workflow_run_id']);
+    expect(companion.tool.annotations).toEqual({ title: 'summarize-get-workflow-run-1', readOnlyHint: true, openWorldHint: false });
+  });
+});
+
+describe('createWorkflowLogsTool', () => {
+  it('ステータス・キーワード・ページで絞り込める実行ログのツールを作成すること', () => {
+    const companion = createWorkflowLogsTool('summarize', 'workflow-api-key', new Set());
+
+    expect(companion.tool.name).toBe('summarize-workflow-logs');
+    expect(companion.action).toBe('workflow-logs');
+    expect(Object.keys(companion.tool.inputSchema.properties as object)).toEqual(['status', 'keyword', 'page', 'limit']);
+    expect((companion.tool.inputSchema.properties as any).status.enum).toEqual(['succeeded', 'failed', 'stopped']);
+    expect((companion.tool.inputSchema.properties as any).limit.type).toBe('integer');
+  });
+});
+
+describe('createCompanionTools', () => {
+  const workflowDataList: WorkflowData[] = [
+    {
+      apiKey: 'workflow-api-key',
+      infoData: { name: 'summarize' },
+      paramsData: {},
+      mode: 'workflow',
+      options: { conversationTools: true, workflowRunTool: true, workflowLogsTool: true }
+    },
+    {
+      apiKey: 'chat-api-key',
+      infoData: { name: 'support' },
+      paramsData: {},
+      mode: 'advanced-chat',
+      options: { conversationTools: true }
+    },
+    {
+      apiKey: 'other-chat-api-key',
+      infoData: { name: 'internal' },
+      paramsData: {},
+      mode: 'chat'
+    },
+    {
+      apiKey: 'feedback-chat-api-key',
+      infoData: { name: 'faq' },
+      paramsData: {},
+      mode: 'agent-chat',
+      options: { feedbackTool: true }
+    },
+    {
+      apiKey: 'tts-api-key',
+      infoData: { name: 'narrator' },
+      paramsData: { text_to_speech: { enabled: true, voice: 'alloy' } },
+      mode: 'completion',
+      options: { textToSpeechTool: true }
+    },
+    {
+      apiKey: 'tts-disabled-api-key',
+      infoData: { name: 'reader' },
+      paramsData: { text_to_speech: { enabled: true }, speech_to_text: { enabled: true } },
+      mode: 'workflow',
+      options: { speechToTextTool: true }
+    },
+    {
+      apiKey: 'stt-default-api-key',
+      infoData: { name: 'transcriber' },
+      paramsData: { speech_to_text: { enabled: true } },
+      mode: 'workflow'
+    }
+  ];
+
+  it('アプリの種類とオプションに応じて補助ツールを作成すること', () => {
+    const tools = createCompanionTools(
+      workflowDataList,
+      workflowDataList.map(workflowData => createAppTool(workflowData.infoData.name as string))
+    );
+
+    expect(tools.map(companion => [companion.tool.name, companion.apiKey])).toEqual([
+      ['summarize-get-workflow-run', 'workflow-api-key'],
+      ['summarize-workflow-logs', 'workflow-api-key'],
+      ['support-list-conversations', 'chat-api-key'],
+      ['support-get-messages', 'chat-api-key'],
+      ['support-rename-conversation', 'chat-api-key'],
+      ['support-delete-conversation', 'chat-api-key'],
+      ['faq-send-feedback', 'feedback-chat-api-key'],
+      ['narrator-text-to-audio', 'tts-api-key'],
+      ['reader-speech-to-text', 'tts-disabled-api-key']
+    ]);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from '@jest/globals';
+import { completeArgumentValue, MAX_COMPLETION_VALUES } from '../../dify/completions.js';
+
+describe('completeArgumentValue', () => {
+  it('入力中の値で始まる候補を大文字と小文字を区別せずに返すこと', () => {
+    expect(completeArgumentValue(['Japanese', 'English', 'jp-kansai'], 'j')).toEqual({
+      values: ['Japanese', 'jp-kansai'],
+      total: 2,
+      hasMore: false
+    });
+    expect(completeArgumentValue(['Japanese', 'English'], '').values).toEqual(['Japanese', 'English']);
+  });
+
+  it('上限を超える候補は切り詰めてhasMoreを返すこと', () => {
+    const candidates = Array.from({ length: MAX_COMPLETION_VALUES + 5 }, (_, index) => `option-${index}`);
+    const result = completeArgumentValue(candidates, 'option');
+
+    expect(result.values).toHaveLength(MAX_COMPLETION_VALUES);
+    expect(result.total).toBe(MAX_COMPLETION_VALUES + 5);
+    expect(result.hasMore).toBe(true);
+  });
+});
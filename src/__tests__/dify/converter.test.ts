@@ -4,11 +4,18 @@ import {
   determineParameterType,
   convertParametersObjectToArray,
   extractPropertiesFromUserInputForm,
+  createFileInputProperty,
+  createOptionProperty,
+  createPropertyFromInputField,
+  convertDefaultValue,
+  extractFieldOptions,
+  extractSelectFieldOptions,
   extractPropertiesFromParametersArray,
   extractPropertiesFromParameters,
   getUniqueWorkflowName,
   convertSingleWorkflowToTool,
   convertDifyWorkflowToMCPTools,
+  createWorkflowOutputSchema,
   LogHandler,
   ParameterDefinition,
   ParameterProperty,
@@ -171,6 +178,221 @@ describe('Dify Converter モジュール', () => {
     });
   });
 
+  describe('ファイル入力の変換', () => {
+    it('fileコンポーネントをcontent/path/urlを受け付けるオブジェクトに変換する', () => {
+      const userInputForm = [
+        { 
+          file: { 
+            variable: 'document', 
+            label: 'Document', 
+            required: true,
+            allowed_file_types: ['document']
+          } 
+        }
+      ];
+      
+      const result = extractPropertiesFromUserInputForm(userInputForm, mockLogHandler);
+      
+      expect(result.required).toEqual(['document']);
+      expect(result.properties.document).toEqual(createFileInputProperty('Document', ['document']));
+      expect(result.properties.document.type).toBe('object');
+      expect(Object.keys(result.properties.document.properties)).toEqual(
+        expect.arrayContaining(['content', 'path', 'url', 'filename'])
+      );
+      expect(result.properties.document.description).toContain('Allowed file types: document.');
+    });
+    
+    it('file-listコンポーネントをファイルオブジェクトの配列に変換する', () => {
+      const userInputForm = [
+        { 
+          'file-list': { 
+            variable: 'images', 
+            label: 'Images'
+          } 
+        }
+      ];
+      
+      const result = extractPropertiesFromUserInputForm(userInputForm, mockLogHandler);
+      
+      expect(result.properties.images.type).toBe('array');
+      expect(result.properties.images.items).toEqual(createFileInputProperty('Images', undefined));
+    });
+  });
+
+  describe('選択肢を持つ入力の変換', () => {
+    it('selectコンポーネントのoptionsをenumと説明文に含める', () => {
+      const userInputForm = [
+        { 
+          select: { 
+            variable: 'language', 
+            label: 'Language', 
+            required: true,
+            options: ['Japanese', 'English']
+          } 
+        }
+      ];
+      
+      const result = extractPropertiesFromUserInputForm(userInputForm, mockLogHandler);
+      
+      expect(result).toEqual({
+        properties: {
+          language: {
+            type: 'string',
+            description: 'Language (allowed values: "Japanese", "English")',
+            enum: ['Japanese', 'English']
+          }
+        },
+        required: ['language']
+      });
+    });
+    
+    it('radioコンポーネントも同様にenumに変換する', () => {
+      const result = extractPropertiesFromUserInputForm(
+        [{ radio: { variable: 'tone', label: 'Tone', options: ['formal', 'casual'] } }],
+        mockLogHandler
+      );
+      
+      expect(result.properties.tone).toEqual(createOptionProperty('Tone', ['formal', 'casual']));
+    });
+    
+    it('optionsが空の場合はenumを付与しない', () => {
+      const result = extractPropertiesFromUserInputForm(
+        [{ select: { variable: 'language', label: 'Language', options: [] } }],
+        mockLogHandler
+      );
+      
+      expect(result.properties.language).toEqual({ type: 'string', description: 'Language' });
+    });
+    
+    it('extractFieldOptionsは文字列以外と空文字列の選択肢を除外する', () => {
+      expect(extractFieldOptions({ variable: 'v', options: ['a', '', 1, null, 'b'] })).toEqual(['a', 'b']);
+      expect(extractFieldOptions({ variable: 'v' })).toEqual([]);
+    });
+  });
+
+  describe('createPropertyFromInputField', () => {
+    it('text-inputのmax_lengthとdefaultを反映する', () => {
+      expect(createPropertyFromInputField('text-input', {
+        variable: 'title',
+        label: 'Title',
+        max_length: 48,
+        default: 'Untitled'
+      })).toEqual({
+        type: 'string',
+        description: 'Title',
+        maxLength: 48,
+        default: 'Untitled'
+      });
+    });
+    
+    it('paragraphに複数行入力のヒントとmax_lengthを付与する', () => {
+      expect(createPropertyFromInputField('paragraph', {
+        variable: 'body',
+        label: 'Body',
+        max_length: 1000
+      })).toEqual({
+        type: 'string',
+        description: 'Body (multi-line text, line breaks are allowed)',
+        maxLength: 1000
+      });
+    });
+    
+    it('max_lengthが0の場合は文字数制限を付与しない', () => {
+      expect(createPropertyFromInputField('text-input', { variable: 'title', max_length: 0 }))
+        .toEqual({ type: 'string', description: 'title' });
+    });
+    
+    it('numberの範囲とデフォルト値を数値に変換して反映する', () => {
+      expect(createPropertyFromInputField('number', {
+        variable: 'count',
+        label: 'Count',
+        min: '1',
+        max: 10,
+        default: '3'
+      })).toEqual({
+        type: 'number',
+        description: 'Count',
+        minimum: 1,
+        maximum: 10,
+        default: 3
+      });
+    });
+    
+    it('selectのデフォルト値は選択肢に含まれる場合のみ反映する', () => {
+      expect(createPropertyFromInputField('select', {
+        variable: 'language',
+        label: 'Language',
+        options: ['ja', 'en'],
+        default: 'en',
+        max_length: 48
+      })).toEqual({
+        type: 'string',
+        description: 'Language (allowed values: "ja", "en")',
+        enum: ['ja', 'en'],
+        default: 'en'
+      });
+      
+      expect(createPropertyFromInputField('select', {
+        variable: 'language',
+        options: ['ja', 'en'],
+        default: 'fr'
+      }).default).toBeUndefined();
+    });
+    
+    it('switchのデフォルト値を真偽値に変換する', () => {
+      expect(createPropertyFromInputField('switch', { variable: 'enabled', label: 'Enabled', default: 'true' }))
+        .toEqual({ type: 'boolean', description: 'Enabled', default: true });
+    });
+    
+    it('checkboxは配列として扱う', () => {
+      expect(createPropertyFromInputField('checkbox', { variable: 'tags', label: 'Tags' }))
+        .toEqual({ type: 'array', description: 'Tags' });
+    });
+    
+    it('fileとfile-listには文字数制限やデフォルト値を付与しない', () => {
+      expect(createPropertyFromInputField('file', { variable: 'doc', label: 'Doc', max_length: 10 }))
+        .toEqual(createFileInputProperty('Doc', undefined));
+      expect(createPropertyFromInputField('file-list', { variable: 'docs', label: 'Docs' }).items)
+        .toEqual(createFileInputProperty('Docs', undefined));
+    });
+    
+    it('file-listのmax_lengthをファイル数の上限としてmaxItemsに反映する', () => {
+      expect(createPropertyFromInputField('file-list', { variable: 'docs', label: 'Docs', max_length: 3 }))
+        .toEqual({
+          type: 'array',
+          description: createFileInputProperty('Docs', undefined).description,
+          items: createFileInputProperty('Docs', undefined),
+          maxItems: 3
+        });
+      expect(createPropertyFromInputField('file-list', { variable: 'docs', label: 'Docs', max_length: 0 }))
+        .not.toHaveProperty('maxItems');
+    });
+  });
+
+  describe('extractSelectFieldOptions', () => {
+    it('選択肢を持つ入力フィールドの選択肢を変数名ごとに返す', () => {
+      const paramsData = {
+        user_input_form: [
+          { select: { variable: 'language', label: 'Language', options: ['ja', 'en'] } },
+          { radio: { variable: 'tone', label: 'Tone', options: ['formal', ''] } },
+          { select: { variable: 'empty', label: 'Empty', options: [] } },
+          { 'text-input': { variable: 'query', label: 'Query' } }
+        ]
+      };
+      
+      expect(extractSelectFieldOptions(paramsData)).toEqual({ language: ['ja', 'en'], tone: ['formal'] });
+      expect(extractSelectFieldOptions({ parameters: [{ name: 'query' }] })).toEqual({});
+    });
+  });
+  
+  describe('convertDefaultValue', () => {
+    it('空のデフォルト値や変換できない値はundefinedを返す', () => {
+      expect(convertDefaultValue({ type: 'string', description: '' }, '')).toBeUndefined();
+      expect(convertDefaultValue({ type: 'number', description: '' }, 'abc')).toBeUndefined();
+      expect(convertDefaultValue({ type: 'boolean', description: '' }, 'yes')).toBeUndefined();
+    });
+  });
+
   describe('extractPropertiesFromParametersArray', () => {
     it('パラメータ配列から正しくプロパティを抽出する', () => {
       const parameters: ParameterDefinition[] = [
@@ -398,10 +620,45 @@ describe('Dify Converter モジュール', () => {
             }
           },
           required: ['query']
+        },
+        outputSchema: createWorkflowOutputSchema(),
+        annotations: {
+          title: 'test-workflow',
+          readOnlyHint: false,
+          destructiveHint: false,
+          idempotentHint: false,
+          openWorldHint: true
         }
       });
     });
     
+    it('アプリのモードごとの既定値に設定されたアノテーションを上書きして付与する', () => {
+      const workflowData: WorkflowData = {
+        apiKey: 'test-api-key',
+        infoData: { name: 'cleanup', mode: 'workflow' },
+        paramsData: { user_input_form: [] },
+        options: { annotations: { title: 'Delete old records', destructiveHint: true } }
+      };
+      const completionData: WorkflowData = {
+        apiKey: 'test-api-key',
+        infoData: { name: 'writer', mode: 'completion' },
+        paramsData: { user_input_form: [] }
+      };
+      
+      expect(convertSingleWorkflowToTool(workflowData, new Set<string>(), mockLogHandler).annotations).toEqual({
+        title: 'Delete old records',
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true
+      });
+      expect(convertSingleWorkflowToTool(completionData, new Set<string>(), mockLogHandler).annotations).toEqual({
+        title: 'writer',
+        readOnlyHint: true,
+        openWorldHint: true
+      });
+    });
+    
     it('ワークフロー名が指定されていない場合はデフォルト名を使用する', () => {
       const workflowData: WorkflowData = {
         apiKey: 'test-api-key',
@@ -418,6 +675,134 @@ describe('Dify Converter モジュール', () => {
       expect(result.name).toBe('dify-workflow');
       expect(result.description).toBe('Execute Dify Workflow');
     });
+    
+    it('チャットアプリの場合は必須のqueryと任意のconversation_idを追加する', () => {
+      const workflowData: WorkflowData = {
+        apiKey: 'test-api-key',
+        infoData: { name: 'chat-app', mode: 'advanced-chat' },
+        paramsData: {
+          user_input_form: [
+            { 'text-input': { variable: 'language', label: 'Language', required: true } }
+          ]
+        }
+      };
+      
+      const result = convertSingleWorkflowToTool(workflowData, new Set<string>(), mockLogHandler);
+      
+      expect(result.description).toBe('Send a message to Dify chat app');
+      expect(result.inputSchema).toEqual({
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Message sent to the chat app' },
+          conversation_id: {
+            type: 'string',
+            description: 'ID of the conversation to continue. Omit to start a new conversation.'
+          },
+          language: { type: 'string', description: 'Language' }
+        },
+        required: ['query', 'language']
+      });
+    });
+    
+    it('テキスト生成アプリの場合はuser_input_formの入力のみでツールを作成する', () => {
+      const workflowData: WorkflowData = {
+        apiKey: 'test-api-key',
+        infoData: { name: 'writer', mode: 'completion' },
+        paramsData: {
+          user_input_form: [
+            { paragraph: { variable: 'query', label: 'Query', required: true } }
+          ]
+        }
+      };
+      
+      const result = convertSingleWorkflowToTool(workflowData, new Set<string>(), mockLogHandler);
+      
+      expect(result.description).toBe('Generate text with Dify text generator app');
+      expect(Object.keys(result.inputSchema.properties)).toEqual(['query']);
+      expect(result.inputSchema.required).toEqual(['query']);
+    });
+    
+    it('チャット用の引数と同名の入力フィールドは警告を出して除外する', () => {
+      const workflowData: WorkflowData = {
+        apiKey: 'test-api-key',
+        infoData: { name: 'chat-app', mode: 'chat' },
+        paramsData: {
+          user_input_form: [
+            { 'text-input': { variable: 'query', label: 'Query', required: true } }
+          ]
+        }
+      };
+      
+      const result = convertSingleWorkflowToTool(workflowData, new Set<string>(), mockLogHandler);
+      
+      expect(result.inputSchema.properties.query.description).toBe('Message sent to the chat app');
+      expect(result.inputSchema.required).toEqual(['query']);
+      expect(mockLogHandler.errors[0].message).toContain("Input field 'query' of chat app 'chat-app'");
+    });
+    
+    it('設定されたoutputSchemaをワークフローアプリのツールに付与する', () => {
+      const outputSchema = { type: 'object', properties: { summary: { type: 'string' } }, required: ['summary'] };
+      const workflowData: WorkflowData = {
+        apiKey: 'test-api-key',
+        infoData: { name: 'summarize', mode: 'workflow' },
+        paramsData: { user_input_form: [] },
+        options: { outputSchema }
+      };
+      
+      const result = convertSingleWorkflowToTool(workflowData, new Set<string>(), mockLogHandler);
+      
+      expect(result.outputSchema).toEqual(createWorkflowOutputSchema(outputSchema));
+    });
+    
+    it('outputSchemaが設定されていないワークフローアプリのツールには既定のoutputSchemaを付与する', () => {
+      const workflowData: WorkflowData = {
+        apiKey: 'test-api-key',
+        infoData: { name: 'summarize', mode: 'workflow' },
+        paramsData: { user_input_form: [] }
+      };
+      
+      const result = convertSingleWorkflowToTool(workflowData, new Set<string>(), mockLogHandler);
+      
+      expect(result.outputSchema).toEqual({
+        type: 'object',
+        properties: {
+          workflow_run_id: { type: 'string', description: expect.any(String) },
+          outputs: { type: 'object' }
+        },
+        required: ['outputs']
+      });
+    });
+    
+    it('チャットアプリに設定されたoutputSchemaは警告を出して無視する', () => {
+      const workflowData: WorkflowData = {
+        apiKey: 'test-api-key',
+        infoData: { name: 'chat-app', mode: 'chat' },
+        paramsData: { user_input_form: [] },
+        options: { outputSchema: { type: 'object', properties: {} } }
+      };
+      
+      const result = convertSingleWorkflowToTool(workflowData, new Set<string>(), mockLogHandler);
+      
+      expect(result.outputSchema).toBeUndefined();
+      expect(mockLogHandler.errors[0].message).toBe(
+        "Warning: outputSchema of 'chat-app' is ignored because 'chat' apps do not return workflow outputs"
+      );
+    });
+  });
+
+  describe('createWorkflowOutputSchema', () => {
+    it('設定されたoutputsのスキーマを実行IDと併せたoutputSchemaに割り当てる', () => {
+      const outputsSchema = { type: 'object', properties: { summary: { type: 'string' } } };
+      
+      expect(createWorkflowOutputSchema(outputsSchema)).toEqual({
+        type: 'object',
+        properties: {
+          workflow_run_id: { type: 'string', description: expect.any(String) },
+          outputs: outputsSchema
+        },
+        required: ['outputs']
+      });
+    });
   });
 
   describe('convertDifyWorkflowToMCPTools', () => {
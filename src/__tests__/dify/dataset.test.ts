@@ -0,0 +1,143 @@
+// @ts-nocheck
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { DifyDatasetApiClient } from '../../dify/dataset.js';
+import { ApiError, HttpResponse } from '../../dify/client.js';
+
+// モック用のレスポンス生成
+function createMockResponse(options: {
+  ok?: boolean;
+  status?: number;
+  statusText?: string;
+  text?: string;
+}): HttpResponse {
+  return {
+    ok: options.ok ?? true,
+    status: options.status ?? 200,
+    statusText: options.statusText ?? 'OK',
+    text: async () => options.text ?? '{}'
+  };
+}
+
+describe('DifyDatasetApiClient', () => {
+  let mockHttpClient;
+  let mockConfig;
+  let client: DifyDatasetApiClient;
+
+  beforeEach(() => {
+    mockHttpClient = { request: jest.fn() };
+    mockConfig = { getBaseUrl: jest.fn().mockReturnValue('https://api.example.com') };
+    client = new DifyDatasetApiClient(mockConfig, mockHttpClient);
+  });
+
+  it('getDatasetはデータセットのAPIキーで詳細を取得すること', async () => {
+    mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: '{"id":"dataset-1","name":"Manuals"}' }));
+
+    const result = await client.getDataset('dataset-api-key', 'dataset-1');
+
+    expect(mockHttpClient.request).toHaveBeenCalledWith('https://api.example.com/datasets/dataset-1', {
+      method: 'GET',
+      headers: {
+        Authorization: 'Bearer dataset-api-key',
+        'Content-Type': 'application/json'
+      },
+      body: undefined
+    });
+    expect(result).toEqual({ id: 'dataset-1', name: 'Manuals' });
+  });
+
+  it('retrieveは検索設定を指定しない場合はクエリのみを送信すること', async () => {
+    mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: '{"query":{"content":"reset"},"records":[]}' }));
+
+    const result = await client.retrieve('dataset-api-key', 'dataset-1', 'reset');
+
+    expect(mockHttpClient.request).toHaveBeenCalledWith(
+      'https://api.example.com/datasets/dataset-1/retrieve',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ query: 'reset' }) })
+    );
+    expect(result).toEqual({ query: { content: 'reset' }, records: [] });
+  });
+
+  it('retrieveは検索設定をretrieval_modelとして送信すること', async () => {
+    mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: '{"records":[]}' }));
+    const retrievalModel = { search_method: 'semantic_search', reranking_enable: false, top_k: 5, score_threshold_enabled: false };
+
+    await client.retrieve('dataset-api-key', 'dataset-1', 'reset', retrievalModel);
+
+    expect(mockHttpClient.request.mock.calls[0][1].body).toBe(
+      JSON.stringify({ query: 'reset', retrieval_model: retrievalModel })
+    );
+  });
+
+  it('createDocumentByTextは自動の分割ルールでドキュメントを作成すること', async () => {
+    mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: '{"document":{"id":"document-1"},"batch":"batch-1"}' }));
+
+    const result = await client.createDocumentByText('dataset-api-key', 'dataset-1', {
+      name: 'notes.txt',
+      text: 'Meeting notes',
+      indexing_technique: 'high_quality'
+    });
+
+    expect(mockHttpClient.request).toHaveBeenCalledWith(
+      'https://api.example.com/datasets/dataset-1/document/create-by-text',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({
+          name: 'notes.txt',
+          text: 'Meeting notes',
+          indexing_technique: 'high_quality',
+          process_rule: { mode: 'automatic' }
+        })
+      })
+    );
+    expect(result).toEqual({ document: { id: 'document-1' }, batch: 'batch-1' });
+  });
+
+  it('updateDocumentByTextとdeleteDocumentはドキュメントのエンドポイントにリクエストすること', async () => {
+    mockHttpClient.request
+      .mockResolvedValueOnce(createMockResponse({ text: '{"document":{"id":"document-1"},"batch":"batch-2"}' }))
+      .mockResolvedValueOnce(createMockResponse({ status: 204, statusText: 'No Content', text: '' }));
+
+    await client.updateDocumentByText('dataset-api-key', 'dataset-1', 'document-1', { text: 'Updated notes' });
+    const deleteResult = await client.deleteDocument('dataset-api-key', 'dataset-1', 'document-1');
+
+    expect(mockHttpClient.request.mock.calls[0][0]).toBe('https://api.example.com/datasets/dataset-1/documents/document-1/update-by-text');
+    expect(mockHttpClient.request.mock.calls[0][1].body).toBe(JSON.stringify({ text: 'Updated notes' }));
+    expect(mockHttpClient.request.mock.calls[1][0]).toBe('https://api.example.com/datasets/dataset-1/documents/document-1');
+    expect(mockHttpClient.request.mock.calls[1][1]).toMatchObject({ method: 'DELETE', body: undefined });
+    expect(deleteResult).toBeUndefined();
+  });
+
+  it('listDocumentsとgetIndexingStatusはGETでリクエストすること', async () => {
+    mockHttpClient.request
+      .mockResolvedValueOnce(createMockResponse({ text: '{"data":[],"has_more":false}' }))
+      .mockResolvedValueOnce(createMockResponse({ text: '{"data":[{"id":"document-1","indexing_status":"completed"}]}' }));
+
+    await client.listDocuments('dataset-api-key', 'dataset-1', { keyword: 'notes', page: 2 });
+    const status = await client.getIndexingStatus('dataset-api-key', 'dataset-1', 'batch-1');
+
+    expect(mockHttpClient.request.mock.calls[0][0]).toBe('https://api.example.com/datasets/dataset-1/documents?keyword=notes&page=2');
+    expect(mockHttpClient.request.mock.calls[1][0]).toBe('https://api.example.com/datasets/dataset-1/documents/batch-1/indexing-status');
+    expect(status.data[0].indexing_status).toBe('completed');
+  });
+
+  it('HTTPエラーの場合にエンドポイントを含むApiErrorをスローすること', async () => {
+    mockHttpClient.request.mockResolvedValueOnce(createMockResponse({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+      text: '{"code":"not_found","message":"Dataset not found."}'
+    }));
+
+    const promise = client.retrieve('dataset-api-key', 'missing', 'reset');
+
+    await expect(promise).rejects.toBeInstanceOf(ApiError);
+    await expect(promise).rejects.toMatchObject({ statusCode: 404, endpoint: '/datasets/missing/retrieve' });
+  });
+
+  it('不正なJSONの場合にエンドポイントを含むエラーをスローすること', async () => {
+    mockHttpClient.request.mockResolvedValueOnce(createMockResponse({ text: 'not json' }));
+
+    await expect(client.getDataset('dataset-api-key', 'dataset-1'))
+      .rejects.toThrow('Failed to parse /datasets/dataset-1 API response');
+  });
+});
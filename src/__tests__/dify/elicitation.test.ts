@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  findMissingRequiredInputs,
+  createElicitationProperty,
+  createElicitationSchema,
+  mergeElicitedInputs
+} from '../../dify/elicitation.js';
+
+// テスト用のツール
+const tool: Tool = {
+  name: 'translate',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      text: { type: 'string', description: 'Text (multi-line text, line breaks are allowed)', maxLength: 1000 },
+      language: { type: 'string', description: 'Language (allowed values: "ja", "en")', enum: ['ja', 'en'], default: 'ja' },
+      count: { type: 'number', description: 'Count', minimum: 1, maximum: 5 },
+      formal: { type: 'boolean', description: 'Formal' },
+      document: { type: 'object', description: 'Document' }
+    },
+    required: ['text', 'language', 'count', 'formal']
+  }
+};
+
+describe('findMissingRequiredInputs', () => {
+  it('値が指定されていない必須の入力を返すこと', () => {
+    expect(findMissingRequiredInputs(tool, { text: '', language: null, count: 0, formal: false })).toEqual(['text', 'language']);
+    expect(findMissingRequiredInputs({ name: 'no-required', inputSchema: { type: 'object' } }, {})).toEqual([]);
+  });
+});
+
+describe('createElicitationProperty', () => {
+  it('入力の型に応じてフォームの項目に変換すること', () => {
+    expect(createElicitationProperty({ type: 'string', description: 'Language', enum: ['ja', 'en'], default: 'ja' })).toEqual({
+      type: 'string',
+      description: 'Language',
+      enum: ['ja', 'en'],
+      default: 'ja'
+    });
+    expect(createElicitationProperty({ type: 'number', description: 'Count', minimum: 1, maximum: 5 })).toEqual({
+      type: 'number',
+      description: 'Count',
+      minimum: 1,
+      maximum: 5
+    });
+    expect(createElicitationProperty({ type: 'boolean', description: '' })).toEqual({ type: 'boolean', description: undefined });
+  });
+
+  it('フォームで入力できないファイルや配列の入力はundefinedを返すこと', () => {
+    expect(createElicitationProperty({ type: 'object', description: 'Document' })).toBeUndefined();
+    expect(createElicitationProperty({ type: 'array', description: 'Tags', items: { type: 'string', description: '' } })).toBeUndefined();
+  });
+});
+
+describe('createElicitationSchema', () => {
+  it('不足している入力だけを項目とするスキーマを作成すること', () => {
+    expect(createElicitationSchema(tool, ['text', 'count'])).toEqual({
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'Text (multi-line text, line breaks are allowed)', maxLength: 1000 },
+        count: { type: 'number', description: 'Count', minimum: 1, maximum: 5 }
+      },
+      required: ['text', 'count']
+    });
+  });
+
+  it('フォームで入力できない項目が含まれる場合はundefinedを返すこと', () => {
+    expect(createElicitationSchema(tool, ['text', 'document'])).toBeUndefined();
+    expect(createElicitationSchema(tool, ['unknown'])).toBeUndefined();
+  });
+});
+
+describe('mergeElicitedInputs', () => {
+  it('空でない入力値を引数にマージすること', () => {
+    expect(mergeElicitedInputs({ text: 'Hello', language: '' }, { language: 'en', count: 2, formal: false, text: '' })).toEqual({
+      text: 'Hello',
+      language: 'en',
+      count: 2,
+      formal: false
+    });
+    expect(mergeElicitedInputs({ text: 'Hello' }, undefined)).toEqual({ text: 'Hello' });
+  });
+});
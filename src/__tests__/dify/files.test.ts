@@ -0,0 +1,201 @@
+// @ts-nocheck
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtemp, mkdir, writeFile, symlink, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  FileInputResolver,
+  FileInputDefinition,
+  extractFileInputDefinitions,
+  detectFileType
+} from '../../dify/files.js';
+import { DifyClient } from '../../dify/client.js';
+
+describe('extractFileInputDefinitions', () => {
+  it('fileとfile-listコンポーネントを抽出すること', () => {
+    const definitions = extractFileInputDefinitions({
+      user_input_form: [
+        { 'text-input': { variable: 'query', label: 'Query' } },
+        { file: { variable: 'document', label: 'Document', allowed_file_types: ['document'] } },
+        { 'file-list': { variable: 'images', label: 'Images', allowed_file_types: ['image'] } }
+      ]
+    });
+
+    expect(definitions).toEqual([
+      { variable: 'document', multiple: false, allowedFileTypes: ['document'] },
+      { variable: 'images', multiple: true, allowedFileTypes: ['image'] }
+    ]);
+  });
+
+  it('user_input_formがない場合は空配列を返すこと', () => {
+    expect(extractFileInputDefinitions({ parameters: [] })).toEqual([]);
+  });
+});
+
+describe('detectFileType', () => {
+  it('拡張子からファイル種別を判定すること', () => {
+    expect(detectFileType('report.PDF')).toBe('document');
+    expect(detectFileType('photo.png')).toBe('image');
+    expect(detectFileType('voice.mp3')).toBe('audio');
+    expect(detectFileType('movie.mp4')).toBe('video');
+  });
+
+  it('不明な拡張子の場合は許可された種別またはcustomを返すこと', () => {
+    expect(detectFileType('data.bin', ['document'])).toBe('document');
+    expect(detectFileType('data.bin', ['document', 'image'])).toBe('custom');
+    expect(detectFileType('data.bin')).toBe('custom');
+  });
+});
+
+describe('FileInputResolver', () => {
+  let mockClient: jest.Mocked<DifyClient>;
+  let mockReadFile: jest.Mock;
+  let resolver: FileInputResolver;
+  let tempDir: string;
+  let localFileRoot: string;
+
+  const documentInput: FileInputDefinition = { variable: 'document', multiple: false, allowedFileTypes: ['document'] };
+  const imagesInput: FileInputDefinition = { variable: 'images', multiple: true, allowedFileTypes: ['image'] };
+
+  beforeEach(async () => {
+    // パスの解決は実際のファイルシステムで行うため、一時ディレクトリにファイルを用意する
+    tempDir = await mkdtemp(join(tmpdir(), 'dify-mcp-files-'));
+    localFileRoot = join(tempDir, 'root');
+    await mkdir(localFileRoot);
+    await writeFile(join(localFileRoot, 'report.pdf'), 'file content');
+    await writeFile(join(tempDir, 'secret.txt'), 'secret');
+
+    mockClient = {
+      uploadFile: jest.fn().mockResolvedValue({ id: 'upload-file-id' })
+    };
+    mockReadFile = jest.fn().mockResolvedValue(Buffer.from('file content'));
+    resolver = new FileInputResolver(mockClient, localFileRoot, mockReadFile);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('URLをremote_urlの入力に変換すること', async () => {
+    const result = await resolver.resolveInputs(
+      'test-api-key',
+      { query: 'hello', document: { url: 'https://example.com/files/report.pdf' } },
+      [documentInput]
+    );
+
+    expect(result).toEqual({
+      query: 'hello',
+      document: { type: 'document', transfer_method: 'remote_url', url: 'https://example.com/files/report.pdf' }
+    });
+    expect(mockClient.uploadFile).not.toHaveBeenCalled();
+  });
+
+  it('ローカルパスのファイルをアップロードしてlocal_fileの入力に変換すること', async () => {
+    const result = await resolver.resolveInputs(
+      'test-api-key',
+      { document: { path: join(localFileRoot, 'report.pdf') } },
+      [documentInput]
+    );
+
+    expect(mockReadFile).toHaveBeenCalledWith(expect.stringMatching(/report\.pdf$/));
+    expect(mockClient.uploadFile).toHaveBeenCalledWith('test-api-key', {
+      data: Buffer.from('file content'),
+      filename: 'report.pdf',
+      mimeType: undefined
+    });
+    expect(result.document).toEqual({
+      type: 'document',
+      transfer_method: 'local_file',
+      upload_file_id: 'upload-file-id'
+    });
+  });
+
+  it('Base64の内容をデコードしてアップロードすること', async () => {
+    const content = Buffer.from('image bytes').toString('base64');
+
+    const result = await resolver.resolveInputs(
+      'test-api-key',
+      { images: [{ content, filename: 'photo.png', mime_type: 'image/png' }] },
+      [imagesInput]
+    );
+
+    expect(mockClient.uploadFile).toHaveBeenCalledWith('test-api-key', {
+      data: Buffer.from('image bytes'),
+      filename: 'photo.png',
+      mimeType: 'image/png'
+    });
+    expect(result.images).toEqual([
+      { type: 'image', transfer_method: 'local_file', upload_file_id: 'upload-file-id' }
+    ]);
+  });
+
+  it('相対パスはルートディレクトリからのパスとして扱うこと', async () => {
+    await resolver.resolveInputs('test-api-key', { document: { path: 'report.pdf' } }, [documentInput]);
+
+    expect(mockReadFile).toHaveBeenCalledWith(expect.stringMatching(/root[\\/]report\.pdf$/));
+  });
+
+  it('ルートディレクトリの外を指すパスを拒否すること', async () => {
+    await symlink(join(tempDir, 'secret.txt'), join(localFileRoot, 'link.txt'));
+
+    for (const path of [join(tempDir, 'secret.txt'), '../secret.txt', 'link.txt']) {
+      await expect(resolver.resolveInputs('test-api-key', { document: { path } }, [documentInput]))
+        .rejects.toThrow(`File argument 'document' path '${path}' is outside the allowed local file root`);
+    }
+    expect(mockReadFile).not.toHaveBeenCalled();
+    expect(mockClient.uploadFile).not.toHaveBeenCalled();
+  });
+
+  it('ルートディレクトリが設定されていない場合はパスを拒否すること', async () => {
+    resolver = new FileInputResolver(mockClient, undefined, mockReadFile);
+
+    await expect(resolver.resolveInputs(
+      'test-api-key',
+      { document: { path: join(localFileRoot, 'report.pdf') } },
+      [documentInput]
+    )).rejects.toThrow("File argument 'document' cannot use 'path' because local file access is disabled on this server");
+    expect(mockReadFile).not.toHaveBeenCalled();
+  });
+
+  it('オブジェクト以外のファイル引数を拒否すること', async () => {
+    await expect(resolver.resolveInputs(
+      'test-api-key',
+      { images: ['https://example.com/a.jpg'] },
+      [imagesInput]
+    )).rejects.toThrow("File argument 'images[0]' must be an object with one of 'content', 'path' or 'url'");
+    expect(mockReadFile).not.toHaveBeenCalled();
+  });
+
+  it('Difyの形式の入力はそのまま渡すこと', async () => {
+    const difyFile = { type: 'document', transfer_method: 'local_file', upload_file_id: 'existing-id' };
+
+    const result = await resolver.resolveInputs('test-api-key', { document: difyFile }, [documentInput]);
+
+    expect(result.document).toEqual(difyFile);
+    expect(mockClient.uploadFile).not.toHaveBeenCalled();
+  });
+
+  it('複数のファイル指定方法が混在する場合にエラーをスローすること', async () => {
+    await expect(resolver.resolveInputs(
+      'test-api-key',
+      { document: { path: 'report.pdf', url: 'https://example.com/a.pdf' } },
+      [documentInput]
+    )).rejects.toThrow("File argument 'document' must specify exactly one of 'content', 'path' or 'url'");
+  });
+
+  it('Base64の内容にファイル名がない場合にエラーをスローすること', async () => {
+    await expect(resolver.resolveInputs(
+      'test-api-key',
+      { document: { content: 'YWJj' } },
+      [documentInput]
+    )).rejects.toThrow("File argument 'document' requires 'filename' when 'content' is specified");
+  });
+
+  it('ローカルファイルの読み込みに失敗した場合にパスを含むエラーをスローすること', async () => {
+    await expect(resolver.resolveInputs(
+      'test-api-key',
+      { document: { path: 'missing.pdf' } },
+      [documentInput]
+    )).rejects.toThrow("Failed to read file for argument 'document' from path 'missing.pdf'");
+  });
+});
@@ -0,0 +1,265 @@
+// @ts-nocheck
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  KnowledgeService,
+  createKnowledgeTool,
+  createKnowledgeTools,
+  buildRetrievalModel,
+  formatRetrieveResponse
+} from '../../dify/knowledge.js';
+
+// テスト用のナレッジベース
+const datasetData = {
+  apiKey: 'dataset-api-key',
+  datasetId: 'dataset-1',
+  dataset: {
+    id: 'dataset-1',
+    name: 'Manuals',
+    description: 'Product manuals',
+    indexing_technique: 'high_quality',
+    retrieval_model_dict: {
+      search_method: 'hybrid_search',
+      reranking_enable: true,
+      top_k: 3,
+      score_threshold_enabled: false,
+      score_threshold: null
+    }
+  }
+};
+
+// テスト用の検索結果
+const retrieveResponse = {
+  query: { content: 'reset password' },
+  records: [
+    {
+      segment: {
+        id: 'segment-1',
+        position: 2,
+        document_id: 'document-1',
+        content: 'Open the settings page to reset your password.',
+        document: { id: 'document-1', name: 'account.md', data_source_type: 'upload_file' }
+      },
+      score: 0.82
+    },
+    {
+      segment: {
+        id: 'segment-2',
+        position: 1,
+        document_id: 'document-2',
+        content: 'How do I reset my password?',
+        answer: 'Use the settings page.',
+        document: { id: 'document-2', name: 'faq.csv' }
+      },
+      score: null
+    }
+  ]
+};
+
+describe('createKnowledgeTool', () => {
+  it('ナレッジベースの名前と説明から検索ツールを作成すること', () => {
+    const existingNames = new Set(['Manuals']);
+
+    const knowledgeTool = createKnowledgeTool(datasetData, existingNames);
+
+    expect(knowledgeTool.tool.name).toBe('knowledge-Manuals');
+    expect(knowledgeTool.tool.description).toBe("Search Dify knowledge base 'Manuals': Product manuals");
+    expect(knowledgeTool.tool.inputSchema.required).toEqual(['query']);
+    expect(Object.keys(knowledgeTool.tool.inputSchema.properties)).toEqual(['query', 'top_k', 'score_threshold']);
+    expect(knowledgeTool).toMatchObject({ apiKey: 'dataset-api-key', datasetId: 'dataset-1' });
+    expect(existingNames.has('knowledge-Manuals')).toBe(true);
+  });
+
+  it('名前を取得できない場合はデータセットIDを名前に使うこと', () => {
+    const knowledgeTool = createKnowledgeTool(
+      { apiKey: 'dataset-api-key', datasetId: 'dataset-2', dataset: { id: 'dataset-2' } },
+      new Set(['knowledge-dataset-2'])
+    );
+
+    expect(knowledgeTool.tool.name).toBe('knowledge-dataset-2-1');
+  });
+});
+
+describe('createKnowledgeTools', () => {
+  it('ドキュメント管理ツールが有効なナレッジベースにのみ管理ツールを作成すること', () => {
+    const tools = createKnowledgeTools([
+      { ...datasetData, options: { documentTools: true } },
+      { apiKey: 'dataset-api-key', datasetId: 'dataset-2', dataset: { id: 'dataset-2', name: 'FAQ' }, options: {} }
+    ], new Set());
+
+    expect(tools.map(knowledgeTool => [knowledgeTool.tool.name, knowledgeTool.action])).toEqual([
+      ['knowledge-Manuals', 'retrieve'],
+      ['knowledge-Manuals-create-document', 'create-document'],
+      ['knowledge-Manuals-update-document', 'update-document'],
+      ['knowledge-Manuals-delete-document', 'delete-document'],
+      ['knowledge-Manuals-list-documents', 'list-documents'],
+      ['knowledge-Manuals-indexing-status', 'indexing-status'],
+      ['knowledge-FAQ', 'retrieve']
+    ]);
+    expect(tools[1].tool.inputSchema.required).toEqual(['name', 'text']);
+    expect(tools.map(knowledgeTool => [knowledgeTool.tool.annotations?.readOnlyHint, knowledgeTool.tool.annotations?.destructiveHint]))
+      .toEqual([
+        [true, undefined],
+        [false, false],
+        [false, true],
+        [false, true],
+        [true, undefined],
+        [true, undefined],
+        [true, undefined]
+      ]);
+    expect(tools[0].tool.annotations?.title).toBe('knowledge-Manuals');
+  });
+});
+
+describe('buildRetrievalModel', () => {
+  const knowledgeTool = createKnowledgeTool(datasetData, new Set());
+
+  it('top_kとscore_thresholdが指定されていない場合はundefinedを返すこと', () => {
+    expect(buildRetrievalModel(knowledgeTool, { query: 'reset' })).toBeUndefined();
+  });
+
+  it('ナレッジベースの検索設定を基準に指定された値を上書きすること', () => {
+    expect(buildRetrievalModel(knowledgeTool, { query: 'reset', top_k: 5, score_threshold: 0.5 })).toEqual({
+      search_method: 'hybrid_search',
+      reranking_enable: true,
+      top_k: 5,
+      score_threshold_enabled: true,
+      score_threshold: 0.5
+    });
+  });
+
+  it('検索設定を取得できない場合はインデックス方式に応じた既定値を使うこと', () => {
+    const economyTool = createKnowledgeTool(
+      { apiKey: 'dataset-api-key', datasetId: 'dataset-2', dataset: { id: 'dataset-2', indexing_technique: 'economy' } },
+      new Set()
+    );
+
+    expect(buildRetrievalModel(economyTool, { query: 'reset', top_k: 10 })).toEqual({
+      search_method: 'keyword_search',
+      reranking_enable: false,
+      top_k: 10,
+      score_threshold_enabled: false,
+      score_threshold: null
+    });
+  });
+});
+
+describe('formatRetrieveResponse', () => {
+  it('検索結果をドキュメント名とスコア付きのセグメントに変換すること', () => {
+    expect(formatRetrieveResponse('reset', retrieveResponse)).toEqual({
+      query: 'reset password',
+      segments: [
+        {
+          content: 'Open the settings page to reset your password.',
+          score: 0.82,
+          document_id: 'document-1',
+          document_name: 'account.md',
+          segment_id: 'segment-1',
+          position: 2
+        },
+        {
+          content: 'How do I reset my password?',
+          answer: 'Use the settings page.',
+          score: null,
+          document_id: 'document-2',
+          document_name: 'faq.csv',
+          segment_id: 'segment-2',
+          position: 1
+        }
+      ]
+    });
+  });
+});
+
+describe('KnowledgeService', () => {
+  let mockClient;
+  let mockConfig;
+  let mockLogger;
+  let service: KnowledgeService;
+
+  beforeEach(() => {
+    mockClient = {
+      getDataset: jest.fn(),
+      retrieve: jest.fn(),
+      createDocumentByText: jest.fn(),
+      updateDocumentByText: jest.fn(),
+      deleteDocument: jest.fn(),
+      listDocuments: jest.fn(),
+      getIndexingStatus: jest.fn()
+    };
+    mockConfig = {
+      getDatasets: jest.fn().mockReturnValue([
+        { apiKey: 'dataset-api-key', datasetId: 'dataset-1' },
+        { apiKey: 'dataset-api-key', datasetId: 'dataset-2' }
+      ]),
+      getDatasetOptions: jest.fn().mockReturnValue({})
+    };
+    mockLogger = { error: jest.fn() };
+    service = new KnowledgeService(mockClient, mockConfig, mockLogger);
+  });
+
+  it('設定されたナレッジベースの詳細を取得し、失敗した場合はIDのみで登録すること', async () => {
+    const testError = new Error('Not Found');
+    mockClient.getDataset
+      .mockResolvedValueOnce(datasetData.dataset)
+      .mockRejectedValueOnce(testError);
+
+    const results = await service.fetchAllDatasets();
+
+    expect(results).toEqual([
+      { ...datasetData, options: {} },
+      { apiKey: 'dataset-api-key', datasetId: 'dataset-2', dataset: { id: 'dataset-2' }, options: {} }
+    ]);
+    expect(mockConfig.getDatasetOptions).toHaveBeenCalledWith('dataset-1');
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      "Failed to fetch knowledge base 'dataset-2'. The tool is registered with the dataset ID as its name:",
+      testError
+    );
+  });
+
+  it('検索設定を組み立てて検索し、結果を変換すること', async () => {
+    mockClient.retrieve.mockResolvedValueOnce(retrieveResponse);
+    const knowledgeTool = createKnowledgeTool(datasetData, new Set());
+
+    const result = await service.retrieve(knowledgeTool, { query: 'reset', top_k: 2 });
+
+    expect(mockClient.retrieve).toHaveBeenCalledWith('dataset-api-key', 'dataset-1', 'reset', expect.objectContaining({ top_k: 2 }));
+    expect(result.segments.map(segment => segment.document_name)).toEqual(['account.md', 'faq.csv']);
+  });
+
+  it('検索に失敗した場合はログを出力してスローすること', async () => {
+    const testError = new Error('Dataset API error');
+    mockClient.retrieve.mockRejectedValueOnce(testError);
+    const knowledgeTool = createKnowledgeTool(datasetData, new Set());
+
+    await expect(service.retrieve(knowledgeTool, { query: 'reset' })).rejects.toThrow(testError);
+    expect(mockLogger.error).toHaveBeenCalledWith("Error while retrieving from knowledge base 'dataset-1':", testError);
+  });
+
+  it('ドキュメントの作成時にナレッジベースのインデックス方式を使うこと', async () => {
+    mockClient.createDocumentByText.mockResolvedValueOnce({ document: { id: 'document-1' }, batch: 'batch-1' });
+    const knowledgeTool = createKnowledgeTool(datasetData, new Set());
+
+    const result = await service.createDocument(knowledgeTool, { name: 'notes.txt', text: 'Meeting notes' });
+
+    expect(mockClient.createDocumentByText).toHaveBeenCalledWith('dataset-api-key', 'dataset-1', {
+      name: 'notes.txt',
+      text: 'Meeting notes',
+      indexing_technique: 'high_quality'
+    });
+    expect(result.batch).toBe('batch-1');
+  });
+
+  it('ドキュメントの操作に失敗した場合は本文を含めずにログを出力してスローすること', async () => {
+    const testError = new Error('Document not found');
+    mockClient.updateDocumentByText.mockRejectedValueOnce(testError);
+    const knowledgeTool = createKnowledgeTool(datasetData, new Set());
+
+    await expect(service.updateDocument(knowledgeTool, 'document-1', { name: 'notes.txt', text: 'Secret text' }))
+      .rejects.toThrow(testError);
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      "Error while updating document 'document-1' in knowledge base 'dataset-1':",
+      testError
+    );
+    expect(mockLogger.error).toHaveBeenCalledWith('Parameters: {"name":"notes.txt"}');
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from '@jest/globals';
+import { detectAppMode, isDifyAppMode, isChatAppMode, isCompletionAppMode } from '../../dify/mode.js';
+
+describe('detectAppMode', () => {
+  it('/infoのmodeを優先すること', () => {
+    expect(detectAppMode({ mode: 'advanced-chat' }, { more_like_this: { enabled: true } })).toBe('advanced-chat');
+    expect(detectAppMode({ mode: 'agent-chat' }, {})).toBe('agent-chat');
+  });
+
+  it('/infoにmodeがない場合は/parametersの機能から推定すること', () => {
+    expect(detectAppMode({}, { suggested_questions_after_answer: { enabled: true } })).toBe('chat');
+    expect(detectAppMode({}, { more_like_this: { enabled: true } })).toBe('completion');
+  });
+
+  it('判定できない場合やサポートしていないmodeの場合はworkflowを返すこと', () => {
+    expect(detectAppMode({}, { user_input_form: [] })).toBe('workflow');
+    expect(detectAppMode({ mode: 'unknown-mode' }, {})).toBe('workflow');
+  });
+});
+
+describe('モードの判定関数', () => {
+  it('サポートするモードを判定すること', () => {
+    expect(isDifyAppMode('completion')).toBe(true);
+    expect(isDifyAppMode('unknown-mode')).toBe(false);
+    expect(isDifyAppMode(undefined)).toBe(false);
+  });
+
+  it('チャットアプリとテキスト生成アプリを判定すること', () => {
+    expect(isChatAppMode('chat')).toBe(true);
+    expect(isChatAppMode('workflow')).toBe(false);
+    expect(isChatAppMode(undefined)).toBe(false);
+    expect(isCompletionAppMode('completion')).toBe(true);
+    expect(isCompletionAppMode('chat')).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from '@jest/globals';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  extractPromptArguments,
+  createAppPrompts,
+  createAllAppPrompts,
+  buildPromptMessages
+} from '../../dify/prompts.js';
+import { WorkflowData } from '../../dify/service.js';
+
+// テスト用のチャットアプリ
+const chatWorkflowData: WorkflowData = {
+  apiKey: 'chat-api-key',
+  infoData: { name: 'support', description: 'Customer support bot' },
+  paramsData: {
+    opening_statement: 'Hi! I can answer questions about your orders.',
+    suggested_questions: ['Where is my order?', '', 'How do I return an item?']
+  },
+  mode: 'advanced-chat'
+};
+
+// テスト用のチャットアプリのツール
+const chatTool: Tool = {
+  name: 'support',
+  description: 'Customer support bot',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Message sent to the chat app' },
+      conversation_id: { type: 'string', description: 'ID of the conversation to continue' },
+      language: { type: 'string', description: 'Answer language', enum: ['ja', 'en'] },
+      order_id: { type: 'string', description: '' },
+      receipt: { type: 'object', description: 'Receipt image' }
+    },
+    required: ['query', 'language']
+  }
+};
+
+describe('extractPromptArguments', () => {
+  it('チャットのメッセージ引数とファイル入力を除いた入力フィールドを引数にすること', () => {
+    expect(extractPromptArguments(chatTool)).toEqual([
+      { name: 'language', description: 'Answer language', required: true },
+      { name: 'order_id', description: undefined, required: false }
+    ]);
+  });
+});
+
+describe('createAppPrompts', () => {
+  it('紹介文のプロンプトと空でない質問候補ごとのプロンプトを作成すること', () => {
+    const appPrompts = createAppPrompts(chatWorkflowData, chatTool, new Set());
+
+    expect(appPrompts.map(appPrompt => [appPrompt.prompt.name, appPrompt.kind, appPrompt.text])).toEqual([
+      ['support-introduction', 'introduction', 'Hi! I can answer questions about your orders.'],
+      ['support-question-1', 'suggested-question', 'Where is my order?'],
+      ['support-question-2', 'suggested-question', 'How do I return an item?']
+    ]);
+    expect(appPrompts[0].prompt.arguments).toBeUndefined();
+    expect(appPrompts[1].prompt.arguments?.map(argument => argument.name)).toEqual(['language', 'order_id']);
+  });
+
+  it('紹介文が設定されていない場合はアプリの説明を使うこと', () => {
+    const appPrompts = createAppPrompts(
+      { apiKey: 'workflow-api-key', infoData: { name: 'summarize', description: 'Summarize text' }, paramsData: {} },
+      { name: 'summarize', inputSchema: { type: 'object', properties: {} } },
+      new Set()
+    );
+
+    expect(appPrompts).toHaveLength(1);
+    expect(appPrompts[0].text).toBe('Summarize text');
+    expect(appPrompts[0].isChatApp).toBe(false);
+  });
+});
+
+describe('createAllAppPrompts', () => {
+  it('プロンプト名が重複しないように名前を付けること', () => {
+    const appPrompts = createAllAppPrompts(
+      [chatWorkflowData, { ...chatWorkflowData, paramsData: {} }],
+      [chatTool, { ...chatTool, name: 'support-question-1' }]
+    );
+
+    expect(appPrompts.map(appPrompt => appPrompt.prompt.name)).toEqual([
+      'support-introduction',
+      'support-question-1',
+      'support-question-2',
+      'support-question-1-introduction'
+    ]);
+  });
+});
+
+describe('buildPromptMessages', () => {
+  const [introduction, question] = createAppPrompts(chatWorkflowData, chatTool, new Set());
+
+  it('紹介文のプロンプトはアシスタントの発言として紹介文を返すこと', () => {
+    const result = buildPromptMessages(introduction);
+
+    expect(result.messages).toEqual([
+      {
+        role: 'user',
+        content: { type: 'text', text: "I want to use the Dify app 'support' through the 'support' tool. Introduce the app to me." }
+      },
+      {
+        role: 'assistant',
+        content: { type: 'text', text: 'Hi! I can answer questions about your orders.' }
+      }
+    ]);
+  });
+
+  it('質問候補のプロンプトはツールの呼び出しと指定された入力を指示すること', () => {
+    const result = buildPromptMessages(question, { language: 'ja', order_id: '', unknown: 'ignored' });
+
+    expect(result.description).toBe("Ask Dify app 'support': Where is my order?");
+    expect(result.messages).toEqual([
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: "Where is my order?\n\nAnswer this by calling the 'support' tool with the question above as 'query'.\n" +
+            'Pass these inputs to the tool: {"language":"ja"}'
+        }
+      }
+    ]);
+  });
+});
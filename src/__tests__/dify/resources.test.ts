@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildWorkflowResourceUri,
+  createWorkflowResource,
+  parseWorkflowResourceUri,
+  parseWorkflowLogListOptions
+} from '../../dify/resources.js';
+
+describe('buildWorkflowResourceUri', () => {
+  it('ツール名をエンコードしてリソースURIを生成すること', () => {
+    expect(buildWorkflowResourceUri('Invoice Parser', 'logs')).toBe('dify://workflows/Invoice%20Parser/logs');
+  });
+});
+
+describe('createWorkflowResource', () => {
+  it('リソースの種類に応じたアプリのリソースを作成すること', () => {
+    expect(createWorkflowResource('summarize', 'logs')).toEqual({
+      uri: 'dify://workflows/summarize/logs',
+      name: 'summarize-logs',
+      description: "Latest execution logs of Dify workflow 'summarize'",
+      mimeType: 'application/json'
+    });
+    expect(createWorkflowResource('summarize', 'parameters')).toMatchObject({
+      uri: 'dify://workflows/summarize/parameters',
+      name: 'summarize-parameters'
+    });
+  });
+});
+
+describe('parseWorkflowResourceUri', () => {
+  it('ツール名・リソースの種類・クエリに分解すること', () => {
+    const location = parseWorkflowResourceUri('dify://workflows/Invoice%20Parser/logs?status=failed&page=2');
+
+    expect(location?.toolName).toBe('Invoice Parser');
+    expect(location?.kind).toBe('logs');
+    expect(location?.searchParams.get('status')).toBe('failed');
+    expect(location?.searchParams.get('page')).toBe('2');
+  });
+
+  it('ワークフローのリソースURIでない場合はundefinedを返すこと', () => {
+    expect(parseWorkflowResourceUri('file:///tmp/logs')).toBeUndefined();
+    expect(parseWorkflowResourceUri('dify://workflows/summarize')).toBeUndefined();
+    expect(parseWorkflowResourceUri('dify://workflows/summarize/logs/extra')).toBeUndefined();
+    expect(parseWorkflowResourceUri('dify://workflows/%E0%A4%A/logs')).toBeUndefined();
+  });
+});
+
+describe('parseWorkflowLogListOptions', () => {
+  const uri = 'dify://workflows/summarize/logs';
+
+  it('クエリを実行ログの取得オプションに変換すること', () => {
+    const searchParams = new URLSearchParams('status=succeeded&keyword=invoice&page=3&limit=50');
+
+    expect(parseWorkflowLogListOptions(uri, searchParams)).toEqual({
+      status: 'succeeded',
+      keyword: 'invoice',
+      page: 3,
+      limit: 50
+    });
+    expect(parseWorkflowLogListOptions(uri, new URLSearchParams())).toEqual({});
+  });
+
+  it('不正なステータスやページ番号の場合はエラーをスローすること', () => {
+    expect(() => parseWorkflowLogListOptions(uri, new URLSearchParams('status=running')))
+      .toThrow("Invalid status 'running' in resource URI 'dify://workflows/summarize/logs'. Allowed values: succeeded, failed, stopped");
+    expect(() => parseWorkflowLogListOptions(uri, new URLSearchParams('page=0')))
+      .toThrow("Invalid page '0' in resource URI 'dify://workflows/summarize/logs'. Expected a positive integer.");
+  });
+});
@@ -1,5 +1,6 @@
 // @ts-nocheck
 import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { tmpdir } from 'node:os';
 import { 
   DifyService, 
   Logger, 
@@ -59,7 +60,22 @@ describe('DifyService', () => {
     mockClient = {
       fetchInfo: jest.fn(),
       fetchParameters: jest.fn(),
-      runWorkflow: jest.fn()
+      runWorkflow: jest.fn(),
+      stopWorkflowTask: jest.fn(),
+      getWorkflowRun: jest.fn(),
+      getWorkflowLogs: jest.fn(),
+      uploadFile: jest.fn(),
+      sendChatMessage: jest.fn(),
+      stopChatMessage: jest.fn(),
+      sendCompletionMessage: jest.fn(),
+      stopCompletionMessage: jest.fn(),
+      listConversations: jest.fn(),
+      getMessages: jest.fn(),
+      renameConversation: jest.fn(),
+      deleteConversation: jest.fn(),
+      sendMessageFeedback: jest.fn(),
+      textToAudio: jest.fn(),
+      audioToText: jest.fn()
     };
     
     mockConfig = {
@@ -74,6 +90,8 @@ describe('DifyService', () => {
         name: 'test-server',
         version: '1.0.0'
       }),
+      getAppOptions: jest.fn().mockReturnValue({}),
+      getLocalFileRoot: jest.fn().mockReturnValue(undefined),
       validate: jest.fn().mockReturnValue(true)
     };
     
@@ -148,7 +166,9 @@ describe('DifyService', () => {
       expect(results[0]).toEqual({
         apiKey: testApiKeys[0],
         infoData: mockInfoResponse1,
-        paramsData: mockParametersResponse
+        paramsData: mockParametersResponse,
+        mode: 'workflow',
+        options: {}
       });
       
       // ワークフローマップの検証 - キーと名前のマッピングを確認
@@ -204,7 +224,7 @@ describe('DifyService', () => {
       const result = await service.runWorkflowWithKey(testApiKey, testParams);
       
       // 検証
-      expect(mockClient.runWorkflow).toHaveBeenCalledWith(testApiKey, testParams);
+      expect(mockClient.runWorkflow).toHaveBeenCalledWith(testApiKey, testParams, undefined);
       expect(result).toEqual(mockWorkflowResponse);
     });
     
@@ -242,7 +262,7 @@ describe('DifyService', () => {
       const result = await service.runWorkflow(testWorkflowName, testParams);
       
       // 検証
-      expect(mockClient.runWorkflow).toHaveBeenCalledWith(testApiKey, testParams);
+      expect(mockClient.runWorkflow).toHaveBeenCalledWith(testApiKey, testParams, undefined);
       expect(result).toEqual(mockWorkflowResponse);
     });
     
@@ -275,7 +295,7 @@ describe('DifyService', () => {
       
       // 検証
       expect(service['getApiKeyForWorkflow']).toHaveBeenCalledWith(indexedWorkflowName);
-      expect(mockClient.runWorkflow).toHaveBeenCalledWith(testApiKey, testParams);
+      expect(mockClient.runWorkflow).toHaveBeenCalledWith(testApiKey, testParams, undefined);
       expect(result).toEqual(mockWorkflowResponse);
       
       // スパイをリストア
@@ -297,6 +317,413 @@ describe('DifyService', () => {
     });
   });
   
+  describe('ファイル入力を持つワークフローの実行', () => {
+    beforeEach(() => {
+      mockConfig.getApiKeys.mockReturnValue([testApiKey]);
+      mockClient.fetchInfo.mockResolvedValue(mockInfoResponse);
+      mockClient.fetchParameters.mockResolvedValue({
+        user_input_form: [
+          { file: { variable: 'document', label: 'Document', allowed_file_types: ['document'] } }
+        ]
+      });
+    });
+    
+    it('ファイル引数をアップロードしてからワークフローを実行すること', async () => {
+      mockClient.uploadFile.mockResolvedValueOnce({ id: 'upload-file-id' });
+      mockClient.runWorkflow.mockResolvedValueOnce(mockWorkflowResponse);
+      
+      await service.fetchAllWorkflowInfo();
+      await service.runWorkflow(testWorkflowName, {
+        document: { content: Buffer.from('text').toString('base64'), filename: 'note.txt' }
+      });
+      
+      expect(mockClient.uploadFile).toHaveBeenCalledWith(testApiKey, {
+        data: Buffer.from('text'),
+        filename: 'note.txt',
+        mimeType: undefined
+      });
+      expect(mockClient.runWorkflow).toHaveBeenCalledWith(testApiKey, {
+        document: { type: 'document', transfer_method: 'local_file', upload_file_id: 'upload-file-id' }
+      }, undefined);
+    });
+    
+    it('ファイルの準備に失敗した場合はワークフローを実行しないこと', async () => {
+      await service.fetchAllWorkflowInfo();
+      
+      await expect(service.runWorkflow(testWorkflowName, { document: { content: 'dGV4dA==' } }))
+        .rejects.toThrow("requires 'filename'");
+      
+      expect(mockClient.runWorkflow).not.toHaveBeenCalled();
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        `Error while preparing file inputs for workflow '${testWorkflowName}':`,
+        expect.any(Error)
+      );
+    });
+  });
+  
+  describe('チャットアプリの実行', () => {
+    const chatResponse = { message_id: 'message-1', conversation_id: 'conversation-1', answer: 'Hello!' };
+    
+    beforeEach(() => {
+      mockConfig.getApiKeys.mockReturnValue([testApiKey]);
+      mockClient.fetchInfo.mockResolvedValue({ ...mockInfoResponse, mode: 'advanced-chat' });
+      mockClient.fetchParameters.mockResolvedValue({
+        user_input_form: [{ 'text-input': { variable: 'language', label: 'Language' } }]
+      });
+    });
+    
+    it('queryと会話IDを分離して/chat-messagesに送信すること', async () => {
+      mockClient.sendChatMessage.mockResolvedValueOnce(chatResponse);
+      
+      await service.fetchAllWorkflowInfo();
+      const result = await service.runWorkflow(testWorkflowName, {
+        query: 'Hi',
+        conversation_id: 'conversation-1',
+        language: 'ja'
+      });
+      
+      expect(mockClient.sendChatMessage).toHaveBeenCalledWith(testApiKey, {
+        query: 'Hi',
+        inputs: { language: 'ja' },
+        conversation_id: 'conversation-1'
+      }, undefined);
+      expect(mockClient.runWorkflow).not.toHaveBeenCalled();
+      expect(result).toEqual(chatResponse);
+    });
+    
+    it('チャットアプリのタスクは/chat-messagesの停止エンドポイントで停止すること', async () => {
+      mockClient.stopChatMessage.mockResolvedValueOnce({ result: 'success' });
+      
+      await service.fetchAllWorkflowInfo();
+      await service.stopWorkflowTask(testWorkflowName, 'task-1');
+      
+      expect(mockClient.stopChatMessage).toHaveBeenCalledWith(testApiKey, 'task-1');
+      expect(mockClient.stopWorkflowTask).not.toHaveBeenCalled();
+    });
+    
+    it('送信に失敗した場合にエラーをログに出力してスローすること', async () => {
+      const testError = new Error('Chat failed');
+      mockClient.sendChatMessage.mockRejectedValueOnce(testError);
+      
+      await service.fetchAllWorkflowInfo();
+      
+      await expect(service.runWorkflow(testWorkflowName, { query: 'Hi' })).rejects.toThrow(testError);
+      expect(mockLogger.error).toHaveBeenCalledWith('Error during chat message execution:', testError);
+    });
+  });
+  
+  describe('テキスト生成アプリの実行', () => {
+    beforeEach(() => {
+      mockConfig.getApiKeys.mockReturnValue([testApiKey]);
+      mockClient.fetchInfo.mockResolvedValue({ ...mockInfoResponse, mode: 'completion' });
+      mockClient.fetchParameters.mockResolvedValue({
+        user_input_form: [{ paragraph: { variable: 'query', label: 'Query' } }]
+      });
+    });
+    
+    it('入力をそのまま/completion-messagesに送信すること', async () => {
+      mockClient.sendCompletionMessage.mockResolvedValueOnce({ answer: 'Generated text' });
+      
+      await service.fetchAllWorkflowInfo();
+      const result = await service.runWorkflow(testWorkflowName, { query: 'Write a haiku' });
+      
+      expect(mockClient.sendCompletionMessage).toHaveBeenCalledWith(testApiKey, { query: 'Write a haiku' }, undefined);
+      expect(mockClient.runWorkflow).not.toHaveBeenCalled();
+      expect(mockClient.sendChatMessage).not.toHaveBeenCalled();
+      expect(result).toEqual({ answer: 'Generated text' });
+    });
+    
+    it('テキスト生成アプリのタスクは/completion-messagesの停止エンドポイントで停止すること', async () => {
+      mockClient.stopCompletionMessage.mockResolvedValueOnce({ result: 'success' });
+      
+      await service.fetchAllWorkflowInfo();
+      await service.stopWorkflowTask(testWorkflowName, 'task-1');
+      
+      expect(mockClient.stopCompletionMessage).toHaveBeenCalledWith(testApiKey, 'task-1');
+    });
+    
+    it('実行に失敗した場合にエラーをログに出力してスローすること', async () => {
+      const testError = new Error('Completion failed');
+      mockClient.sendCompletionMessage.mockRejectedValueOnce(testError);
+      
+      await service.fetchAllWorkflowInfo();
+      
+      await expect(service.runWorkflow(testWorkflowName, {})).rejects.toThrow(testError);
+      expect(mockLogger.error).toHaveBeenCalledWith('Error during completion message execution:', testError);
+    });
+  });
+  
+  describe('アプリのモードの判定と振り分け', () => {
+    beforeEach(() => {
+      mockConfig.getApiKeys.mockReturnValue(['workflow-key', 'chat-key', 'agent-key', 'completion-key']);
+      mockClient.fetchInfo
+        .mockResolvedValueOnce({ name: 'summarize', mode: 'workflow' })
+        .mockResolvedValueOnce({ name: 'support', mode: 'advanced-chat' })
+        .mockResolvedValueOnce({ name: 'agent', mode: 'agent-chat' })
+        .mockResolvedValueOnce({ name: 'writer' });
+      mockClient.fetchParameters
+        .mockResolvedValueOnce({ user_input_form: [] })
+        .mockResolvedValueOnce({ user_input_form: [] })
+        .mockResolvedValueOnce({ user_input_form: [] })
+        .mockResolvedValueOnce({ user_input_form: [], more_like_this: { enabled: true } });
+    });
+    
+    it('混在したAPIキーのモードを判定してWorkflowDataに保存すること', async () => {
+      const results = await service.fetchAllWorkflowInfo();
+      
+      expect(results.map(result => result.mode)).toEqual(['workflow', 'advanced-chat', 'agent-chat', 'completion']);
+      expect(service.getModeForWorkflow('support')).toBe('advanced-chat');
+      expect(service.getModeForWorkflow('unknown')).toBe('workflow');
+    });
+    
+    it('モードに応じたエンドポイントで実行すること', async () => {
+      mockClient.runWorkflow.mockResolvedValue(mockWorkflowResponse);
+      mockClient.sendChatMessage.mockResolvedValue({ answer: 'Hi' });
+      mockClient.sendCompletionMessage.mockResolvedValue({ answer: 'Text' });
+      
+      await service.fetchAllWorkflowInfo();
+      await service.runWorkflow('summarize', { input: 'text' });
+      await service.runWorkflow('support', { query: 'Hello' });
+      await service.runWorkflow('agent', { query: 'Hello' });
+      await service.runWorkflow('writer', { topic: 'spring' });
+      
+      expect(mockClient.runWorkflow).toHaveBeenCalledWith('workflow-key', { input: 'text' }, undefined);
+      expect(mockClient.sendChatMessage).toHaveBeenCalledWith('chat-key', {
+        query: 'Hello',
+        inputs: {},
+        conversation_id: undefined
+      }, undefined);
+      // エージェントアプリは常にストリーミングモードで実行する
+      expect(mockClient.sendChatMessage).toHaveBeenCalledWith('agent-key', {
+        query: 'Hello',
+        inputs: {},
+        conversation_id: undefined,
+        response_mode: 'streaming'
+      }, undefined);
+      expect(mockClient.sendCompletionMessage).toHaveBeenCalledWith('completion-key', { topic: 'spring' }, undefined);
+    });
+  });
+  
+  describe('サポートしていないアプリのモード', () => {
+    it('サポートしていないモードの場合はワークフローとして扱い、ログに出力すること', async () => {
+      mockConfig.getApiKeys.mockReturnValue([testApiKey]);
+      mockClient.fetchInfo.mockResolvedValueOnce({ name: 'legacy', mode: 'unknown-mode' });
+      mockClient.fetchParameters.mockResolvedValueOnce({ user_input_form: [] });
+      
+      const results = await service.fetchAllWorkflowInfo();
+      
+      expect(results[0].mode).toBe('workflow');
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        "Unsupported app mode 'unknown-mode' for 'legacy'. Falling back to 'workflow'."
+      );
+    });
+  });
+  
+  describe('会話管理', () => {
+    it('アプリのオプションをWorkflowDataに含めること', async () => {
+      mockConfig.getApiKeys.mockReturnValue([testApiKey]);
+      mockConfig.getAppOptions.mockReturnValue({ conversationTools: true });
+      mockClient.fetchInfo.mockResolvedValueOnce({ name: 'support', mode: 'chat' });
+      mockClient.fetchParameters.mockResolvedValueOnce({ user_input_form: [] });
+      
+      const results = await service.fetchAllWorkflowInfo();
+      
+      expect(mockConfig.getAppOptions).toHaveBeenCalledWith('support');
+      expect(results[0].options).toEqual({ conversationTools: true });
+    });
+    
+    it('会話一覧・履歴・名前変更・削除をクライアントに委譲すること', async () => {
+      mockClient.listConversations.mockResolvedValueOnce({ data: [], has_more: false });
+      mockClient.getMessages.mockResolvedValueOnce({ data: [], has_more: false });
+      mockClient.renameConversation.mockResolvedValueOnce({ id: 'conversation-1', name: 'Renamed' });
+      mockClient.deleteConversation.mockResolvedValueOnce({ result: 'success' });
+      
+      await service.listConversationsWithKey(testApiKey, { limit: 10 });
+      await service.getMessagesWithKey(testApiKey, 'conversation-1', { first_id: 'message-1' });
+      await service.renameConversationWithKey(testApiKey, 'conversation-1', { name: 'Renamed' });
+      const result = await service.deleteConversationWithKey(testApiKey, 'conversation-1');
+      
+      expect(mockClient.listConversations).toHaveBeenCalledWith(testApiKey, { limit: 10 });
+      expect(mockClient.getMessages).toHaveBeenCalledWith(testApiKey, 'conversation-1', { first_id: 'message-1' });
+      expect(mockClient.renameConversation).toHaveBeenCalledWith(testApiKey, 'conversation-1', { name: 'Renamed' });
+      expect(mockClient.deleteConversation).toHaveBeenCalledWith(testApiKey, 'conversation-1');
+      expect(result).toEqual({ result: 'success' });
+    });
+    
+    it('クライアントのエラーをログに出力してスローすること', async () => {
+      const testError = new Error('Conversation Not Exists.');
+      mockClient.deleteConversation.mockRejectedValueOnce(testError);
+      
+      await expect(service.deleteConversationWithKey(testApiKey, 'missing')).rejects.toThrow(testError);
+      expect(mockLogger.error).toHaveBeenCalledWith("Error while deleting conversation 'missing':", testError);
+    });
+  });
+  
+  describe('メッセージのフィードバック', () => {
+    it('フィードバックをクライアントに委譲すること', async () => {
+      mockClient.sendMessageFeedback.mockResolvedValueOnce({ result: 'success' });
+      
+      const result = await service.sendMessageFeedbackWithKey(testApiKey, 'message-1', { rating: 'like' });
+      
+      expect(mockClient.sendMessageFeedback).toHaveBeenCalledWith(testApiKey, 'message-1', { rating: 'like' });
+      expect(result).toEqual({ result: 'success' });
+    });
+    
+    it('クライアントのエラーをログに出力してスローすること', async () => {
+      const testError = new Error('Message Not Exists.');
+      mockClient.sendMessageFeedback.mockRejectedValueOnce(testError);
+      
+      await expect(service.sendMessageFeedbackWithKey(testApiKey, 'missing', { rating: 'dislike' })).rejects.toThrow(testError);
+      expect(mockLogger.error).toHaveBeenCalledWith("Error while sending feedback for message 'missing':", testError);
+    });
+  });
+  
+  describe('getWorkflowRunWithKey', () => {
+    it('ワークフロー実行の取得をクライアントに委譲し、エラーをログに出力してスローすること', async () => {
+      const runDetail = { id: 'run-1', status: 'running' };
+      const testError = new Error('Workflow run not found');
+      mockClient.getWorkflowRun.mockResolvedValueOnce(runDetail).mockRejectedValueOnce(testError);
+      
+      await expect(service.getWorkflowRunWithKey(testApiKey, 'run-1')).resolves.toBe(runDetail);
+      await expect(service.getWorkflowRunWithKey(testApiKey, 'missing')).rejects.toThrow(testError);
+      
+      expect(mockClient.getWorkflowRun).toHaveBeenCalledWith(testApiKey, 'run-1');
+      expect(mockLogger.error).toHaveBeenCalledWith("Error while fetching workflow run 'missing':", testError);
+    });
+  });
+  
+  describe('音声変換', () => {
+    it('テキストの音声変換をクライアントに委譲すること', async () => {
+      const audio = { data: Buffer.from('audio bytes'), mimeType: 'audio/wav' };
+      mockClient.textToAudio.mockResolvedValueOnce(audio);
+      
+      const result = await service.textToAudioWithKey(testApiKey, { text: 'Hello' });
+      
+      expect(mockClient.textToAudio).toHaveBeenCalledWith(testApiKey, { text: 'Hello' });
+      expect(result).toBe(audio);
+    });
+    
+    it('クライアントのエラーをテキストを含めずにログに出力してスローすること', async () => {
+      const testError = new Error('TTS is not enabled');
+      mockClient.textToAudio.mockRejectedValueOnce(testError);
+      
+      await expect(service.textToAudioWithKey(testApiKey, { text: 'Hello' })).rejects.toThrow(testError);
+      expect(mockLogger.error).toHaveBeenCalledWith('Error while converting text to audio:', testError);
+      expect(mockLogger.error).toHaveBeenCalledWith('Parameters: {"text_length":5}');
+    });
+  });
+  
+  describe('音声の文字起こし', () => {
+    it('Base64の音声をデコードしてクライアントに渡すこと', async () => {
+      mockClient.audioToText.mockResolvedValueOnce({ text: 'Hello' });
+      
+      const result = await service.audioToTextWithKey(testApiKey, {
+        content: Buffer.from('audio bytes').toString('base64'),
+        filename: 'voice.wav',
+        mime_type: 'audio/wav'
+      });
+      
+      expect(mockClient.audioToText).toHaveBeenCalledWith(testApiKey, {
+        data: Buffer.from('audio bytes'),
+        filename: 'voice.wav',
+        mimeType: 'audio/wav'
+      });
+      expect(result).toEqual({ text: 'Hello' });
+    });
+    
+    it('Base64とローカルパスの両方または一方も指定されていない場合にエラーをスローすること', async () => {
+      await expect(service.audioToTextWithKey(testApiKey, { content: 'YWJj', path: '/tmp/voice.wav', filename: 'voice.wav' }))
+        .rejects.toThrow("Audio argument must specify exactly one of 'content' or 'path'. Received keys: content, path, filename");
+      await expect(service.audioToTextWithKey(testApiKey, {}))
+        .rejects.toThrow("Audio argument must specify exactly one of 'content' or 'path'");
+      expect(mockClient.audioToText).not.toHaveBeenCalled();
+    });
+    
+    it('ローカルファイルの読み込みが許可されていない場合はパスを拒否すること', async () => {
+      await expect(service.audioToTextWithKey(testApiKey, { path: '/etc/passwd' }))
+        .rejects.toThrow("File argument 'audio' cannot use 'path' because local file access is disabled on this server");
+      expect(mockClient.audioToText).not.toHaveBeenCalled();
+    });
+    
+    it('ローカルファイルの読み込みが許可されていてもルートディレクトリの外のパスを拒否すること', async () => {
+      mockConfig.getLocalFileRoot.mockReturnValue(tmpdir());
+      service = new DifyService(mockClient as unknown as DifyClient, mockConfig as unknown as Config, mockLogger);
+      
+      await expect(service.audioToTextWithKey(testApiKey, { path: '/etc/passwd' }))
+        .rejects.toThrow("File argument 'audio' path '/etc/passwd' is outside the allowed local file root");
+      expect(mockClient.audioToText).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('stopWorkflowTask', () => {
+    beforeEach(() => {
+      service.setWorkflowApiKeyMap(new Map([[testWorkflowName, testApiKey]]));
+    });
+    
+    it('ワークフロー名に対応するAPIキーでタスクを停止すること', async () => {
+      mockClient.stopWorkflowTask.mockResolvedValueOnce({ result: 'success' });
+      
+      const result = await service.stopWorkflowTask(testWorkflowName, 'task-1');
+      
+      expect(mockClient.stopWorkflowTask).toHaveBeenCalledWith(testApiKey, 'task-1');
+      expect(result).toEqual({ result: 'success' });
+    });
+    
+    it('マップに存在しないワークフロー名の場合にエラーをスローすること', async () => {
+      await expect(service.stopWorkflowTask('non-existent-workflow', 'task-1'))
+        .rejects.toThrow("No API key found for workflow: 'non-existent-workflow'");
+      expect(mockClient.stopWorkflowTask).not.toHaveBeenCalled();
+    });
+    
+    it('停止に失敗した場合にエラーをログに出力してスローすること', async () => {
+      const testError = new Error('Stop failed');
+      mockClient.stopWorkflowTask.mockRejectedValueOnce(testError);
+      
+      await expect(service.stopWorkflowTask(testWorkflowName, 'task-1')).rejects.toThrow(testError);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        `Error while stopping workflow task 'task-1' of '${testWorkflowName}':`,
+        testError
+      );
+    });
+  });
+  
+  describe('getWorkflowLogs', () => {
+    beforeEach(async () => {
+      mockConfig.getApiKeys.mockReturnValue(['workflow-key', 'chat-key']);
+      mockClient.fetchInfo
+        .mockResolvedValueOnce({ name: 'summarize', mode: 'workflow' })
+        .mockResolvedValueOnce({ name: 'support', mode: 'advanced-chat' });
+      mockClient.fetchParameters.mockResolvedValue({ user_input_form: [] });
+      await service.fetchAllWorkflowInfo();
+    });
+    
+    it('ワークフロー名に登録されたAPIキーで実行ログを取得すること', async () => {
+      mockClient.getWorkflowLogs.mockResolvedValueOnce({ page: 1, limit: 20, has_more: false, data: [] });
+      
+      const result = await service.getWorkflowLogs('summarize', { status: 'failed', page: 2 });
+      
+      expect(mockClient.getWorkflowLogs).toHaveBeenCalledWith('workflow-key', { status: 'failed', page: 2 });
+      expect(result.data).toEqual([]);
+    });
+    
+    it('ワークフローアプリ以外や未登録のワークフロー名の場合はエラーをスローすること', async () => {
+      await expect(service.getWorkflowLogs('support'))
+        .rejects.toThrow("Workflow logs are only available for workflow apps. 'support' is a 'advanced-chat' app.");
+      await expect(service.getWorkflowLogs('non-existent-workflow'))
+        .rejects.toThrow("No API key found for workflow: 'non-existent-workflow'");
+      expect(mockClient.getWorkflowLogs).not.toHaveBeenCalled();
+    });
+    
+    it('取得に失敗した場合にエラーをログに出力してスローすること', async () => {
+      const testError = new Error('Logs failed');
+      mockClient.getWorkflowLogs.mockRejectedValueOnce(testError);
+      
+      await expect(service.getWorkflowLogs('summarize', { keyword: 'invoice' })).rejects.toThrow(testError);
+      expect(mockLogger.error).toHaveBeenCalledWith("Error while fetching workflow logs of 'summarize':", testError);
+      expect(mockLogger.error).toHaveBeenCalledWith('Parameters: {"keyword":"invoice"}');
+    });
+  });
+  
   describe('ワークフローマップの管理', () => {
     it('getWorkflowApiKeyMap がマップのコピーを返すこと', () => {
       // 初期マップを設定
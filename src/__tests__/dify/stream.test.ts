@@ -0,0 +1,154 @@
+import { jest, describe, it, expect } from '@jest/globals';
+import {
+  parseSseEventBlock,
+  parseSseStream,
+  collectWorkflowResponse,
+  collectChatMessageResponse,
+  StreamEventHandler
+} from '../../dify/stream.js';
+import { DifyStreamEvent } from '../../types.js';
+
+// テスト用のストリーミングイベント
+const workflowStartedEvent = {
+  event: 'workflow_started',
+  task_id: 'task-1',
+  workflow_run_id: 'run-1',
+  data: { id: 'run-1', workflow_id: 'workflow-1' }
+};
+
+const nodeStartedEvent = {
+  event: 'node_started',
+  task_id: 'task-1',
+  workflow_run_id: 'run-1',
+  data: { node_id: 'node-1', node_type: 'llm', title: 'LLM' }
+};
+
+const workflowFinishedEvent = {
+  event: 'workflow_finished',
+  task_id: 'task-1',
+  workflow_run_id: 'run-1',
+  data: { id: 'run-1', status: 'succeeded', outputs: { answer: 'done' }, total_tokens: 42 }
+};
+
+// イベントをSSE形式の文字列に変換する
+function toSse(event: object): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+// 配列を非同期イテレータに変換する
+async function* toAsyncIterable<T>(items: T[]): AsyncGenerator<T> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+// 非同期イテレータの要素を配列に集める
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('parseSseEventBlock', () => {
+  it('data行のJSONをイベントとして解析すること', () => {
+    expect(parseSseEventBlock(`data: ${JSON.stringify(nodeStartedEvent)}`)).toEqual(nodeStartedEvent);
+  });
+
+  it('data行がない場合はnullを返すこと', () => {
+    expect(parseSseEventBlock(': keep-alive comment')).toBeNull();
+    expect(parseSseEventBlock('event: ping')).toBeNull();
+  });
+
+  it('不正なJSONの場合にイベントデータを含むエラーをスローすること', () => {
+    expect(() => parseSseEventBlock('data: {invalid')).toThrow(/Failed to parse Dify stream event.*\{invalid/);
+  });
+});
+
+describe('parseSseStream', () => {
+  it('チャンクの境界をまたぐイベントを正しく解析すること', async () => {
+    const text = toSse(workflowStartedEvent) + toSse(nodeStartedEvent) + toSse(workflowFinishedEvent);
+    const encoder = new TextEncoder();
+    const chunks = [text.substring(0, 30), text.substring(30, 200), text.substring(200)].map(chunk => encoder.encode(chunk));
+
+    const events = await collect(parseSseStream(toAsyncIterable(chunks)));
+
+    expect(events).toEqual([workflowStartedEvent, nodeStartedEvent, workflowFinishedEvent]);
+  });
+
+  it('CRLF区切りと末尾の区切りがないイベントを処理すること', async () => {
+    const text = `data: ${JSON.stringify(workflowStartedEvent)}\r\n\r\ndata: ${JSON.stringify(workflowFinishedEvent)}`;
+
+    const events = await collect(parseSseStream([text]));
+
+    expect(events).toEqual([workflowStartedEvent, workflowFinishedEvent]);
+  });
+});
+
+describe('collectWorkflowResponse', () => {
+  it('workflow_finishedイベントから最終結果を組み立てること', async () => {
+    const onEvent = jest.fn<StreamEventHandler>();
+
+    const result = await collectWorkflowResponse(
+      toAsyncIterable<DifyStreamEvent>([workflowStartedEvent, { event: 'ping' }, nodeStartedEvent, workflowFinishedEvent]),
+      onEvent
+    );
+
+    expect(result).toEqual({
+      task_id: 'task-1',
+      workflow_run_id: 'run-1',
+      data: workflowFinishedEvent.data
+    });
+    expect(onEvent).toHaveBeenCalledTimes(4);
+    expect(onEvent).toHaveBeenCalledWith(nodeStartedEvent);
+  });
+
+  it('errorイベントを受信した場合にエラーをスローすること', async () => {
+    const errorEvent = { event: 'error', task_id: 'task-1', status: 400, code: 'invalid_param', message: 'Invalid input' };
+
+    await expect(collectWorkflowResponse(toAsyncIterable<DifyStreamEvent>([workflowStartedEvent, errorEvent])))
+      .rejects.toThrow(/Invalid input.*invalid_param.*task-1/);
+  });
+
+  it('workflow_finishedイベントなしでストリームが終了した場合にエラーをスローすること', async () => {
+    await expect(collectWorkflowResponse(toAsyncIterable<DifyStreamEvent>([workflowStartedEvent])))
+      .rejects.toThrow('Dify workflow stream ended without a workflow_finished event (task_id: task-1)');
+  });
+});
+
+describe('collectChatMessageResponse', () => {
+  it('agent_messageの回答も連結し、message_endのメタデータを含めること', async () => {
+    const result = await collectChatMessageResponse(toAsyncIterable<DifyStreamEvent>([
+      { event: 'agent_message', task_id: 'task-1', answer: 'Thinking ' },
+      { event: 'agent_thought', task_id: 'task-1' },
+      { event: 'agent_message', task_id: 'task-1', answer: 'done' },
+      { event: 'message_end', task_id: 'task-1', id: 'message-1', conversation_id: 'conversation-1', metadata: { usage: { total_tokens: 10 } } }
+    ]));
+
+    expect(result).toEqual({
+      task_id: 'task-1',
+      message_id: 'message-1',
+      conversation_id: 'conversation-1',
+      answer: 'Thinking done',
+      metadata: { usage: { total_tokens: 10 } }
+    });
+  });
+
+  it('チャットフローのイベントに含まれるワークフローの実行IDを結果に含めること', async () => {
+    const result = await collectChatMessageResponse(toAsyncIterable<DifyStreamEvent>([
+      workflowStartedEvent,
+      { event: 'message', task_id: 'task-1', answer: 'Hello' },
+      workflowFinishedEvent,
+      { event: 'message_end', task_id: 'task-1', message_id: 'message-1', conversation_id: 'conversation-1' }
+    ]));
+
+    expect(result.workflow_run_id).toBe('run-1');
+    expect(result.answer).toBe('Hello');
+  });
+
+  it('message_endイベントなしでストリームが終了した場合にエラーをスローすること', async () => {
+    await expect(collectChatMessageResponse(toAsyncIterable<DifyStreamEvent>([{ event: 'message', task_id: 'task-1', answer: 'a' }])))
+      .rejects.toThrow('Dify message stream ended without a message_end event (task_id: task-1)');
+  });
+});
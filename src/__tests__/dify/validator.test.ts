@@ -0,0 +1,100 @@
+// @ts-nocheck
+import { describe, it, expect } from '@jest/globals';
+import { validateToolArguments, formatViolations } from '../../dify/validator.js';
+import { createFileInputProperty } from '../../dify/converter.js';
+
+// テスト用のinputSchema
+const inputSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'Title', maxLength: 5 },
+    count: { type: 'number', description: 'Count', minimum: 1, maximum: 10 },
+    language: { type: 'string', description: 'Language', enum: ['ja', 'en'] },
+    enabled: { type: 'boolean', description: 'Enabled' },
+    tags: { type: 'array', description: 'Tags', items: { type: 'string', description: 'Tag' }, maxItems: 2 },
+    document: createFileInputProperty('Document', ['document'])
+  },
+  required: ['title', 'language']
+};
+
+describe('validateToolArguments', () => {
+  it('正しい引数の場合は違反なしでそのまま返すこと', () => {
+    const args = { title: 'Hi', count: 3, language: 'ja', enabled: true, tags: ['a'] };
+
+    const result = validateToolArguments(inputSchema, args);
+
+    expect(result).toEqual({ arguments: args, violations: [], droppedProperties: [] });
+  });
+
+  it('すべての違反を収集すること', () => {
+    const result = validateToolArguments(inputSchema, {
+      title: 'Too long title',
+      count: 11,
+      enabled: 'yes',
+      tags: ['a', 1]
+    });
+
+    expect(result.violations).toEqual([
+      { path: 'language', message: 'is required' },
+      { path: 'title', message: 'must be at most 5 characters long, but has 14' },
+      { path: 'count', message: 'must be less than or equal to 10, but received 11' },
+      { path: 'enabled', message: 'must be of type boolean, but received string' },
+      { path: 'tags[1]', message: 'must be of type string, but received number' }
+    ]);
+  });
+
+  it('enumにない値を違反として報告すること', () => {
+    const result = validateToolArguments(inputSchema, { title: 'Hi', language: 'fr' });
+
+    expect(result.violations).toEqual([
+      { path: 'language', message: 'must be one of "ja", "en", but received "fr"' }
+    ]);
+  });
+
+  it('maxItemsを超える配列を違反として報告すること', () => {
+    const result = validateToolArguments(inputSchema, { title: 'Hi', language: 'en', tags: ['a', 'b', 'c'] });
+
+    expect(result.violations).toEqual([
+      { path: 'tags', message: 'must contain at most 2 items, but has 3' }
+    ]);
+  });
+
+  it('スキーマにないプロパティを取り除くこと', () => {
+    const result = validateToolArguments(inputSchema, { title: 'Hi', language: 'en', extra: 'value' });
+
+    expect(result.arguments).toEqual({ title: 'Hi', language: 'en' });
+    expect(result.droppedProperties).toEqual(['extra']);
+    expect(result.violations).toEqual([]);
+  });
+
+  it('任意項目のnullは未指定として扱い、必須項目のnullは違反とすること', () => {
+    const result = validateToolArguments(inputSchema, { title: null, language: 'en', count: null });
+
+    expect(result.violations).toEqual([{ path: 'title', message: 'is required' }]);
+  });
+
+  it('ファイル入力のネストしたプロパティを検証し、Dify形式のプロパティは許容すること', () => {
+    expect(validateToolArguments(inputSchema, {
+      title: 'Hi',
+      language: 'en',
+      document: { type: 'document', transfer_method: 'local_file', upload_file_id: 'file-id' }
+    }).violations).toEqual([]);
+
+    expect(validateToolArguments(inputSchema, {
+      title: 'Hi',
+      language: 'en',
+      document: { path: 42 }
+    }).violations).toEqual([
+      { path: 'document.path', message: 'must be of type string, but received number' }
+    ]);
+  });
+});
+
+describe('formatViolations', () => {
+  it('違反の一覧を1つの文字列にまとめること', () => {
+    expect(formatViolations([
+      { path: 'title', message: 'is required' },
+      { path: 'count', message: 'must be of type number, but received string' }
+    ])).toBe("'title' is required; 'count' must be of type number, but received string");
+  });
+});
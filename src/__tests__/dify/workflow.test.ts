@@ -6,9 +6,11 @@ import {
   Logger, 
   ConsoleLogger, 
   WorkflowConverter, 
-  DefaultWorkflowConverter 
+  DefaultWorkflowConverter,
+  ToolContentResult
 } from '../../dify/workflow.js';
 import { DifyService, WorkflowData } from '../../dify/service.js';
+import { KnowledgeService } from '../../dify/knowledge.js';
 import { DifyWorkflowResponse } from '../../types.js';
 
 // テスト用のワークフローデータ
@@ -79,6 +81,7 @@ describe('WorkflowManager', () => {
     // デフォルトのモックレスポンスを設定
     difyService.fetchAllWorkflowInfo.mockResolvedValue(mockWorkflowData);
     converter.convert.mockReturnValue(mockTools);
+    difyService.getModeForWorkflow.mockReturnValue('workflow');
     
     // テスト対象のインスタンスを作成
     workflowManager = new WorkflowManager(
@@ -160,7 +163,7 @@ describe('WorkflowManager', () => {
       // ツール一覧を取得
       const tools = workflowManager.getTools();
       
-      // 期待される結果と一致するか確認
+      // 期待される結果と一致するか確認（補助ツールはオプションで有効にした場合のみ追加される）
       expect(tools).toEqual(mockTools);
       expect(tools).not.toBe(mockTools); // 新しい配列インスタンスであることを確認
     });
@@ -171,6 +174,369 @@ describe('WorkflowManager', () => {
     });
   });
 
+  describe('getTool', () => {
+    it('ツール名に対応するツール定義を返す', async () => {
+      await workflowManager.initialize();
+      
+      expect(workflowManager.getTool('test-tool-2')).toEqual(mockTools[1]);
+      expect(workflowManager.getTool('unknown-tool')).toBeUndefined();
+    });
+  });
+
+  describe('補助ツール', () => {
+    const chatWorkflowData: WorkflowData[] = [
+      {
+        apiKey: 'chat-api-key',
+        infoData: { name: 'support' },
+        paramsData: { user_input_form: [], text_to_speech: { enabled: true }, speech_to_text: { enabled: true } },
+        mode: 'chat',
+        options: { conversationTools: true, feedbackTool: true, textToSpeechTool: true, speechToTextTool: true }
+      }
+    ];
+    const chatTools: Tool[] = [
+      { name: 'support', description: 'Support bot', inputSchema: { type: 'object', properties: {} } }
+    ];
+    
+    beforeEach(async () => {
+      difyService.fetchAllWorkflowInfo.mockResolvedValue(chatWorkflowData);
+      converter.convert.mockReturnValue(chatTools);
+      await workflowManager.initialize();
+    });
+    
+    it('有効化された会話管理ツールをツール一覧に含める', () => {
+      expect(workflowManager.getTools().map(tool => tool.name)).toEqual([
+        'support',
+        'support-list-conversations',
+        'support-get-messages',
+        'support-rename-conversation',
+        'support-delete-conversation',
+        'support-send-feedback',
+        'support-text-to-audio',
+        'support-speech-to-text'
+      ]);
+      expect(workflowManager.getTool('support-get-messages')?.inputSchema.required).toEqual(['conversation_id']);
+    });
+    
+    it('補助ツールの実行をAPIキー付きでサービスに委譲する', async () => {
+      difyService.listConversationsWithKey.mockResolvedValue({ data: [], has_more: false });
+      difyService.deleteConversationWithKey.mockResolvedValue({ result: 'success' });
+      
+      const listResult = await workflowManager.executeWorkflow('support-list-conversations', { limit: 5 });
+      const deleteResult = await workflowManager.executeWorkflow('support-delete-conversation', { conversation_id: 'conversation-1' });
+      
+      expect(difyService.listConversationsWithKey).toHaveBeenCalledWith('chat-api-key', {
+        limit: 5,
+        last_id: undefined,
+        sort_by: undefined
+      });
+      expect(difyService.deleteConversationWithKey).toHaveBeenCalledWith('chat-api-key', 'conversation-1');
+      expect(difyService.runWorkflow).not.toHaveBeenCalled();
+      expect(listResult).toEqual({ data: [], has_more: false });
+      expect(deleteResult).toEqual({ result: 'success' });
+    });
+    
+    it('フィードバックの送信をAPIキー付きでサービスに委譲する', async () => {
+      difyService.sendMessageFeedbackWithKey.mockResolvedValue({ result: 'success' });
+      
+      const result = await workflowManager.executeWorkflow('support-send-feedback', {
+        message_id: 'message-1',
+        rating: 'like',
+        content: 'Helpful answer'
+      });
+      
+      expect(difyService.sendMessageFeedbackWithKey).toHaveBeenCalledWith('chat-api-key', 'message-1', {
+        rating: 'like',
+        content: 'Helpful answer'
+      });
+      expect(result).toEqual({ result: 'success' });
+    });
+    
+    it('音声変換の結果をMCPの音声コンテンツとして返す', async () => {
+      difyService.textToAudioWithKey.mockResolvedValue({ data: Buffer.from('audio bytes'), mimeType: 'audio/mpeg' });
+      
+      const result = await workflowManager.executeWorkflow('support-text-to-audio', { message_id: 'message-1' });
+      
+      expect(difyService.textToAudioWithKey).toHaveBeenCalledWith('chat-api-key', { text: undefined, message_id: 'message-1' });
+      expect(result).toBeInstanceOf(ToolContentResult);
+      expect(result.content).toEqual([
+        { type: 'audio', data: Buffer.from('audio bytes').toString('base64'), mimeType: 'audio/mpeg' }
+      ]);
+    });
+    
+    it('文字起こしの結果をテキストとして返す', async () => {
+      difyService.audioToTextWithKey.mockResolvedValue({ text: 'Transcribed text' });
+      const audio = { path: '/tmp/voice.wav' };
+      
+      const result = await workflowManager.executeWorkflow('support-speech-to-text', { audio });
+      
+      expect(difyService.audioToTextWithKey).toHaveBeenCalledWith('chat-api-key', audio);
+      expect(result).toBe('Transcribed text');
+    });
+    
+    it('テキストもメッセージIDも指定されていない音声変換はエラーにする', async () => {
+      await expect(workflowManager.executeWorkflow('support-text-to-audio', {}))
+        .rejects.toThrow("Tool 'support-text-to-audio' requires 'text' or 'message_id'");
+      expect(difyService.textToAudioWithKey).not.toHaveBeenCalled();
+    });
+    
+    it('ワークフローの実行結果を照会して主要な項目を返す', async () => {
+      difyService.fetchAllWorkflowInfo.mockResolvedValue([
+        { ...mockWorkflowData[0], options: { workflowRunTool: true } },
+        mockWorkflowData[1]
+      ]);
+      converter.convert.mockReturnValue(mockTools);
+      await workflowManager.initialize();
+      difyService.getWorkflowRunWithKey.mockResolvedValue({
+        id: 'run-1',
+        workflow_id: 'workflow-1',
+        status: 'failed',
+        inputs: '{"param1":"test"}',
+        outputs: '{"partial":"value"}',
+        error: 'Node timed out',
+        total_steps: 3,
+        total_tokens: 120,
+        elapsed_time: 30.5
+      });
+      
+      const result = await workflowManager.executeWorkflow('test-tool-1-get-workflow-run', { workflow_run_id: 'run-1' });
+      
+      expect(difyService.getWorkflowRunWithKey).toHaveBeenCalledWith('test-api-key-1', 'run-1');
+      expect(result).toEqual({
+        workflow_run_id: 'run-1',
+        status: 'failed',
+        outputs: { partial: 'value' },
+        error: 'Node timed out',
+        elapsed_time: 30.5,
+        total_tokens: 120
+      });
+    });
+    
+    it('名前も自動生成も指定されていない名前変更はエラーにする', async () => {
+      await expect(workflowManager.executeWorkflow('support-rename-conversation', { conversation_id: 'conversation-1' }))
+        .rejects.toThrow("Tool 'support-rename-conversation' requires 'name' unless 'auto_generate' is true");
+      expect(difyService.renameConversationWithKey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('リソース', () => {
+    beforeEach(async () => {
+      difyService.fetchAllWorkflowInfo.mockResolvedValue([
+        { ...mockWorkflowData[0], mode: 'workflow', options: { workflowLogsTool: true } },
+        { ...mockWorkflowData[1], mode: 'advanced-chat' }
+      ]);
+      await workflowManager.initialize();
+    });
+    
+    it('アプリの情報・パラメーターとワークフローアプリの実行ログをリソースとして公開する', () => {
+      expect(workflowManager.getResources().map(resource => resource.uri)).toEqual([
+        'dify://workflows/test-tool-1/info',
+        'dify://workflows/test-tool-1/parameters',
+        'dify://workflows/test-tool-1/logs',
+        'dify://workflows/test-tool-2/info',
+        'dify://workflows/test-tool-2/parameters'
+      ]);
+      expect(workflowManager.getResourceTemplates().map(template => template.uriTemplate)).toEqual([
+        'dify://workflows/{toolName}/info',
+        'dify://workflows/{toolName}/parameters',
+        'dify://workflows/{toolName}/logs{?status,keyword,page,limit}'
+      ]);
+    });
+    
+    it('取得済みの/infoと/parametersのレスポンスをJSONで返す', async () => {
+      const infoContents = await workflowManager.readResource('dify://workflows/test-tool-2/info');
+      const paramsContents = await workflowManager.readResource('dify://workflows/test-tool-2/parameters');
+      
+      expect(infoContents).toEqual([{
+        uri: 'dify://workflows/test-tool-2/info',
+        mimeType: 'application/json',
+        text: JSON.stringify(mockWorkflowData[1].infoData, null, 2)
+      }]);
+      expect(JSON.parse((paramsContents![0] as { text: string }).text)).toEqual(mockWorkflowData[1].paramsData);
+    });
+    
+    it('リソースURIの絞り込み条件で実行ログを取得してJSONで返す', async () => {
+      const logs = { page: 1, limit: 20, has_more: false, data: [] };
+      difyService.getWorkflowLogs.mockResolvedValue(logs);
+      const uri = 'dify://workflows/test-tool-1/logs?status=failed&keyword=invoice';
+      
+      const contents = await workflowManager.readResource(uri);
+      
+      expect(difyService.getWorkflowLogs).toHaveBeenCalledWith('test-tool-1', { status: 'failed', keyword: 'invoice' });
+      expect(contents).toEqual([{ uri, mimeType: 'application/json', text: JSON.stringify(logs, null, 2) }]);
+    });
+    
+    it('存在しないリソースやワークフローアプリ以外の実行ログはundefinedを返す', async () => {
+      await expect(workflowManager.readResource('dify://workflows/unknown/logs')).resolves.toBeUndefined();
+      await expect(workflowManager.readResource('dify://workflows/test-tool-2/logs')).resolves.toBeUndefined();
+      await expect(workflowManager.readResource('dify://workflows/test-tool-1/unknown')).resolves.toBeUndefined();
+      expect(difyService.getWorkflowLogs).not.toHaveBeenCalled();
+    });
+    
+    it('実行ログのツールはワークフロー名で実行ログを取得する', async () => {
+      difyService.getWorkflowLogs.mockResolvedValue({ data: [] });
+      
+      await workflowManager.executeWorkflow('test-tool-1-workflow-logs', { status: 'stopped', page: 2 });
+      
+      expect(difyService.getWorkflowLogs).toHaveBeenCalledWith('test-tool-1', {
+        status: 'stopped',
+        keyword: undefined,
+        page: 2,
+        limit: undefined
+      });
+    });
+  });
+
+  describe('プロンプト', () => {
+    beforeEach(async () => {
+      difyService.fetchAllWorkflowInfo.mockResolvedValue([
+        mockWorkflowData[0],
+        {
+          ...mockWorkflowData[1],
+          paramsData: {
+            ...mockWorkflowData[1].paramsData,
+            user_input_form: [{ select: { variable: 'param2', label: 'Size', options: ['small', 'large', 'Largest'] } }],
+            opening_statement: 'Welcome!',
+            suggested_questions: ['What can you do?']
+          },
+          mode: 'chat'
+        }
+      ]);
+      await workflowManager.initialize();
+    });
+    
+    it('アプリの紹介文と質問候補からプロンプトを公開する', () => {
+      expect(workflowManager.getPrompts().map(prompt => prompt.name)).toEqual([
+        'test-tool-1-introduction',
+        'test-tool-2-introduction',
+        'test-tool-2-question-1'
+      ]);
+    });
+    
+    it('プロンプト名に対応するメッセージを返し、存在しない場合はundefinedを返す', () => {
+      const result = workflowManager.getPrompt('test-tool-2-question-1', { param2: '3' });
+      
+      expect(result?.messages[0].content).toEqual({
+        type: 'text',
+        text: "What can you do?\n\nAnswer this by calling the 'test-tool-2' tool with the question above as 'query'.\n" +
+          'Pass these inputs to the tool: {"param2":"3"}'
+      });
+      expect(workflowManager.getPrompt('unknown-prompt')).toBeUndefined();
+    });
+    
+    it('選択肢を持つ入力フィールドに対応するプロンプトの引数を/parametersの選択肢で補完する', () => {
+      expect(workflowManager.completePromptArgument('test-tool-2-question-1', 'param2', 'LA')).toEqual({
+        values: ['large', 'Largest'],
+        total: 2,
+        hasMore: false
+      });
+      expect(workflowManager.completePromptArgument('test-tool-2-question-1', 'unknown', '')?.values).toEqual([]);
+      expect(workflowManager.completePromptArgument('unknown-prompt', 'param2', '')).toBeUndefined();
+    });
+    
+    it('リソーステンプレートのツール名と実行ログのステータスを補完する', () => {
+      expect(workflowManager.completeResourceTemplateArgument('dify://workflows/{toolName}/info', 'toolName', '')?.values)
+        .toEqual(['test-tool-1', 'test-tool-2']);
+      // 実行ログはワークフローアプリのみ
+      expect(
+        workflowManager.completeResourceTemplateArgument('dify://workflows/{toolName}/logs{?status,keyword,page,limit}', 'toolName', '')?.values
+      ).toEqual(['test-tool-1']);
+      expect(
+        workflowManager.completeResourceTemplateArgument('dify://workflows/{toolName}/logs{?status,keyword,page,limit}', 'status', 'f')?.values
+      ).toEqual(['failed']);
+      expect(workflowManager.completeResourceTemplateArgument('dify://unknown/{id}', 'toolName', '')).toBeUndefined();
+    });
+    
+    it('解決済みのtoolNameのアプリの選択肢でリソーステンプレートの変数を補完する', () => {
+      const logsTemplate = 'dify://workflows/{toolName}/logs{?status,keyword,page,limit}';
+      
+      expect(workflowManager.completeResourceTemplateArgument(logsTemplate, 'keyword', 'la', { toolName: 'test-tool-2' })?.values)
+        .toEqual(['large', 'Largest']);
+      expect(workflowManager.completeResourceTemplateArgument('dify://workflows/{toolName}/info', 'param2', 's', { toolName: 'test-tool-2' })?.values)
+        .toEqual(['small']);
+      // toolNameが解決されていない場合は候補を返さない
+      expect(workflowManager.completeResourceTemplateArgument(logsTemplate, 'keyword', '')?.values).toEqual([]);
+      expect(workflowManager.completeResourceTemplateArgument(logsTemplate, 'keyword', '', { toolName: 'unknown' })?.values).toEqual([]);
+    });
+  });
+
+  describe('ナレッジベースの検索ツール', () => {
+    let knowledgeService: jest.Mocked<KnowledgeService>;
+    
+    beforeEach(async () => {
+      knowledgeService = mock<KnowledgeService>();
+      knowledgeService.fetchAllDatasets.mockResolvedValue([
+        {
+          apiKey: 'dataset-api-key',
+          datasetId: 'dataset-1',
+          dataset: { id: 'dataset-1', name: 'Manuals' },
+          options: { documentTools: true }
+        }
+      ]);
+      workflowManager = new WorkflowManager(difyService, logger, converter, knowledgeService);
+      await workflowManager.initialize();
+    });
+    
+    it('設定されたナレッジベースの検索ツールをツール一覧に含める', () => {
+      expect(workflowManager.getTools().map(tool => tool.name)).toEqual([
+        'test-tool-1',
+        'test-tool-2',
+        'knowledge-Manuals',
+        'knowledge-Manuals-create-document',
+        'knowledge-Manuals-update-document',
+        'knowledge-Manuals-delete-document',
+        'knowledge-Manuals-list-documents',
+        'knowledge-Manuals-indexing-status'
+      ]);
+      expect(workflowManager.getTool('knowledge-Manuals')?.inputSchema.required).toEqual(['query']);
+      expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('6 knowledge tools'));
+    });
+    
+    it('検索ツールの実行をナレッジベースのサービスに委譲する', async () => {
+      const retrievalResult = { query: 'reset', segments: [] };
+      knowledgeService.retrieve.mockResolvedValue(retrievalResult);
+      
+      const result = await workflowManager.executeWorkflow('knowledge-Manuals', { query: 'reset', top_k: 2 });
+      
+      expect(knowledgeService.retrieve).toHaveBeenCalledWith(
+        expect.objectContaining({ apiKey: 'dataset-api-key', datasetId: 'dataset-1' }),
+        { query: 'reset', top_k: 2, score_threshold: undefined }
+      );
+      expect(difyService.runWorkflow).not.toHaveBeenCalled();
+      expect(result).toBe(retrievalResult);
+    });
+    
+    it('ドキュメント管理ツールの実行をナレッジベースのサービスに委譲する', async () => {
+      knowledgeService.createDocument.mockResolvedValue({ document: { id: 'document-1' }, batch: 'batch-1' });
+      knowledgeService.getIndexingStatus.mockResolvedValue({ data: [] });
+      
+      await workflowManager.executeWorkflow('knowledge-Manuals-create-document', { name: 'notes.txt', text: 'Meeting notes' });
+      await workflowManager.executeWorkflow('knowledge-Manuals-indexing-status', { batch: 'batch-1' });
+      
+      expect(knowledgeService.createDocument).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'create-document', datasetId: 'dataset-1' }),
+        { name: 'notes.txt', text: 'Meeting notes' }
+      );
+      expect(knowledgeService.getIndexingStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'indexing-status' }),
+        'batch-1'
+      );
+    });
+    
+    it('ドキュメントの削除で本文のないレスポンスが返された場合は削除したことを伝えるテキストを返す', async () => {
+      knowledgeService.deleteDocument.mockResolvedValueOnce(undefined);
+      
+      const result = await workflowManager.executeWorkflow('knowledge-Manuals-delete-document', { document_id: 'document-1' });
+      
+      expect(result).toBe("Deleted document 'document-1' from knowledge base 'dataset-1'");
+    });
+    
+    it('名前も本文も指定されていないドキュメントの更新はエラーにする', async () => {
+      await expect(workflowManager.executeWorkflow('knowledge-Manuals-update-document', { document_id: 'document-1' }))
+        .rejects.toThrow("Tool 'knowledge-Manuals-update-document' requires 'name' or 'text'");
+      expect(knowledgeService.updateDocument).not.toHaveBeenCalled();
+    });
+  });
+
   describe('executeWorkflow', () => {
     const mockParams = { param1: 'test' };
     const mockResponse: DifyWorkflowResponse = {
@@ -188,10 +554,50 @@ describe('WorkflowManager', () => {
       const result = await workflowManager.executeWorkflow('test-tool', mockParams);
       
       // サービスメソッドが正しく呼び出されたか確認
-      expect(difyService.runWorkflow).toHaveBeenCalledWith('test-tool', mockParams);
+      expect(difyService.runWorkflow).toHaveBeenCalledWith('test-tool', mockParams, undefined);
       
-      // 期待される結果と一致するか確認
-      expect(result).toEqual({ result: 'test result' });
+      // 期待される結果と一致するか確認（outputs は構造化コンテンツとしても返し、テキストにはその内容を入れる）
+      expect(result).toBeInstanceOf(ToolContentResult);
+      expect(result.content).toEqual([{ type: 'text', text: JSON.stringify({ outputs: { result: 'test result' } }) }]);
+      expect(result.structuredContent).toEqual({ outputs: { result: 'test result' } });
+    });
+    
+    it('実行IDがある場合は出力と併せて返す', async () => {
+      difyService.runWorkflow.mockResolvedValue({
+        task_id: 'task123',
+        workflow_run_id: 'run456',
+        data: { id: 'run456', status: 'succeeded', outputs: { result: 'test result' } }
+      });
+      
+      const result = await workflowManager.executeWorkflow('test-tool', mockParams);
+      
+      const expected = { workflow_run_id: 'run456', outputs: { result: 'test result' } };
+      expect(result.content).toEqual([{ type: 'text', text: JSON.stringify(expected) }]);
+      expect(result.structuredContent).toEqual(expected);
+      expect(result.isError).toBeUndefined();
+    });
+    
+    it('失敗した実行はエラーの内容をツールのエラーとして返す', async () => {
+      difyService.runWorkflow.mockResolvedValue({
+        workflow_run_id: 'run456',
+        data: { id: 'run456', status: 'failed', outputs: null, error: 'Node timed out' }
+      });
+      
+      const result = await workflowManager.executeWorkflow('test-tool', mockParams);
+      
+      expect(result).toBeInstanceOf(ToolContentResult);
+      expect(result.isError).toBe(true);
+      expect(result.content).toEqual([{ type: 'text', text: "Workflow run 'run456' failed: Node timed out" }]);
+      expect(result.structuredContent).toBeUndefined();
+    });
+    
+    it('実行結果からoutputSchemaを推定しない', async () => {
+      await workflowManager.initialize();
+      difyService.runWorkflow.mockResolvedValueOnce({ data: { status: 'succeeded', outputs: { summary: 'text' } } });
+      
+      await workflowManager.executeWorkflow('test-tool-1', mockParams);
+      
+      expect(workflowManager.getTool('test-tool-1')?.outputSchema).toBeUndefined();
     });
     
     it('outputsフィールドがない場合はresultフィールドを返す', async () => {
@@ -221,6 +627,49 @@ describe('WorkflowManager', () => {
       expect(result).toEqual(fullResponse);
     });
     
+    it('チャットアプリの場合は回答と会話ID・メッセージIDを返す', async () => {
+      difyService.getModeForWorkflow.mockReturnValue('advanced-chat');
+      difyService.runWorkflow.mockResolvedValue({
+        task_id: 'task123',
+        message_id: 'message-1',
+        conversation_id: 'conversation-1',
+        answer: 'Hello!'
+      });
+      
+      const result = await workflowManager.executeWorkflow('test-tool', { query: 'Hi' });
+      
+      expect(difyService.getModeForWorkflow).toHaveBeenCalledWith('test-tool');
+      expect(result).toEqual({ answer: 'Hello!', conversation_id: 'conversation-1', message_id: 'message-1' });
+    });
+    
+    it('チャットフローの場合はワークフローの実行IDも返す', async () => {
+      difyService.getModeForWorkflow.mockReturnValue('advanced-chat');
+      difyService.runWorkflow.mockResolvedValue({
+        message_id: 'message-1',
+        conversation_id: 'conversation-1',
+        workflow_run_id: 'run-1',
+        answer: 'Hello!'
+      });
+      
+      const result = await workflowManager.executeWorkflow('test-tool', { query: 'Hi' });
+      
+      expect(result).toEqual({
+        answer: 'Hello!',
+        conversation_id: 'conversation-1',
+        message_id: 'message-1',
+        workflow_run_id: 'run-1'
+      });
+    });
+    
+    it('テキスト生成アプリの場合は回答のテキストを返す', async () => {
+      difyService.getModeForWorkflow.mockReturnValue('completion');
+      difyService.runWorkflow.mockResolvedValue({ message_id: 'message-1', mode: 'completion', answer: 'Generated text' });
+      
+      const result = await workflowManager.executeWorkflow('test-tool', {});
+      
+      expect(result).toBe('Generated text');
+    });
+    
     it('サービスがエラーを投げた場合にエラーを適切に処理する', async () => {
       const testError = new Error('Test execution error');
       difyService.runWorkflow.mockRejectedValue(testError);
@@ -255,6 +704,19 @@ describe('WorkflowManager', () => {
       );
     });
   });
+  
+  describe('stopWorkflow', () => {
+    it('サービスを通じて実行中のタスクを停止する', async () => {
+      difyService.stopWorkflowTask.mockResolvedValue({ result: 'success' });
+      
+      await workflowManager.stopWorkflow('test-tool', 'task-1');
+      
+      expect(difyService.stopWorkflowTask).toHaveBeenCalledWith('test-tool', 'task-1');
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.stringContaining("Stopped workflow task 'task-1'")
+      );
+    });
+  });
 });
 
 describe('ConsoleLogger', () => {
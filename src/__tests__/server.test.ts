@@ -1,14 +1,30 @@
 import { 
   ListToolsRequestSchema,
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
+  McpError,
+  ErrorCode,
   Tool
 } from '@modelcontextprotocol/sdk/types.js';
-import { WorkflowManager } from '../dify/workflow.js';
+import { WorkflowManager, ToolContentResult } from '../dify/workflow.js';
 import {
   handleInitializationError,
   initializeWorkflowManager,
   setupRequestHandlers,
   handleCallToolRequest,
+  handleReadResourceRequest,
+  handleGetPromptRequest,
+  handleCompleteRequest,
+  elicitMissingInputs,
+  validateCallToolArguments,
+  trackWorkflowTask,
+  describeStreamEvent,
+  createProgressHandler,
   createServer,
   setupServer
 } from '../server.js';
@@ -39,6 +55,31 @@ const sampleTools: Tool[] = [
   }
 ];
 
+// Tool with constraints for argument validation tests
+const validatedTool: Tool = {
+  name: 'validatedTool',
+  description: 'Tool with validated arguments',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Query' },
+      count: { type: 'number', description: 'Count' },
+      language: { type: 'string', description: 'Language', enum: ['ja', 'en'] }
+    },
+    required: ['query']
+  }
+};
+
+// Sample resource for testing
+const sampleResource = { uri: 'dify://workflows/tool1/logs', name: 'tool1-logs', mimeType: 'application/json' };
+
+// Sample prompt for testing
+const samplePrompt = {
+  name: 'tool1-question-1',
+  description: 'Ask tool1',
+  arguments: [{ name: 'language', required: true }, { name: 'order_id', required: false }]
+};
+
 // Mock server instance
 const mockServerInstance = {
   setRequestHandler: jest.fn()
@@ -48,7 +89,18 @@ const mockServerInstance = {
 const mockWorkflowManager = {
   initialize: jest.fn(() => Promise.resolve()),
   getTools: jest.fn(() => sampleTools),
-  executeWorkflow: jest.fn(() => Promise.resolve('test result'))
+  getTool: jest.fn((toolName: string): Tool | undefined => undefined),
+  executeWorkflow: jest.fn((toolName: string, params: any, options?: any): Promise<any> => Promise.resolve('test result')),
+  stopWorkflow: jest.fn((toolName: string, taskId: string) => Promise.resolve()),
+  getResources: jest.fn(() => [sampleResource]),
+  getResourceTemplates: jest.fn(() => [{ uriTemplate: 'dify://workflows/{toolName}/logs', name: 'workflow-logs' }]),
+  readResource: jest.fn((uri: string): Promise<any> => Promise.resolve(undefined)),
+  getPrompts: jest.fn(() => [samplePrompt]),
+  getPrompt: jest.fn((name: string, args?: Record<string, string>): any => ({
+    messages: [{ role: 'user', content: { type: 'text', text: 'Where is my order?' } }]
+  })),
+  completePromptArgument: jest.fn((promptName: string, argumentName: string, value: string): any => undefined),
+  completeResourceTemplateArgument: jest.fn((uriTemplate: string, argumentName: string, value: string): any => undefined)
 };
 
 const mockConfig = {
@@ -119,7 +171,7 @@ describe('Server module', () => {
     it('should set up request handlers correctly', () => {
       setupRequestHandlers(mockServerInstance as unknown as any, mockWorkflowManager as unknown as WorkflowManager);
       
-      expect(mockServerInstance.setRequestHandler).toHaveBeenCalledTimes(2);
+      expect(mockServerInstance.setRequestHandler).toHaveBeenCalledTimes(8);
       expect(mockServerInstance.setRequestHandler).toHaveBeenCalledWith(
         ListToolsRequestSchema,
         expect.any(Function)
@@ -128,6 +180,42 @@ describe('Server module', () => {
         CallToolRequestSchema,
         expect.any(Function)
       );
+      expect(mockServerInstance.setRequestHandler).toHaveBeenCalledWith(
+        ListResourcesRequestSchema,
+        expect.any(Function)
+      );
+      expect(mockServerInstance.setRequestHandler).toHaveBeenCalledWith(
+        ListResourceTemplatesRequestSchema,
+        expect.any(Function)
+      );
+      expect(mockServerInstance.setRequestHandler).toHaveBeenCalledWith(
+        ReadResourceRequestSchema,
+        expect.any(Function)
+      );
+      expect(mockServerInstance.setRequestHandler).toHaveBeenCalledWith(
+        ListPromptsRequestSchema,
+        expect.any(Function)
+      );
+      expect(mockServerInstance.setRequestHandler).toHaveBeenCalledWith(
+        GetPromptRequestSchema,
+        expect.any(Function)
+      );
+      expect(mockServerInstance.setRequestHandler).toHaveBeenCalledWith(
+        CompleteRequestSchema,
+        expect.any(Function)
+      );
+    });
+    
+    it('should handle list resources and resource templates requests correctly', async () => {
+      setupRequestHandlers(mockServerInstance as unknown as any, mockWorkflowManager as unknown as WorkflowManager);
+      
+      const findHandler = (schema: unknown) =>
+        mockServerInstance.setRequestHandler.mock.calls.find(call => call[0] === schema)![1] as RequestHandler;
+      
+      await expect(findHandler(ListResourcesRequestSchema)({})).resolves.toEqual({ resources: [sampleResource] });
+      await expect(findHandler(ListResourceTemplatesRequestSchema)({})).resolves.toEqual({
+        resourceTemplates: [{ uriTemplate: 'dify://workflows/{toolName}/logs', name: 'workflow-logs' }]
+      });
     });
     
     it('should handle list tools request correctly', async () => {
@@ -155,6 +243,28 @@ describe('Server module', () => {
     });
   });
   
+  describe('validateCallToolArguments', () => {
+    it('should drop arguments that are not defined in the inputSchema', () => {
+      mockWorkflowManager.getTool.mockReturnValueOnce(validatedTool);
+      
+      const result = validateCallToolArguments(
+        mockWorkflowManager as unknown as WorkflowManager,
+        'validatedTool',
+        { query: 'hello', unknown: 'value' }
+      );
+      
+      expect(result).toEqual({ query: 'hello' });
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining("inputSchema of tool 'validatedTool': unknown"));
+    });
+    
+    it('should return the arguments unchanged for unknown tools', () => {
+      const params = { anything: 'value' };
+      
+      expect(validateCallToolArguments(mockWorkflowManager as unknown as WorkflowManager, 'unknownTool', params))
+        .toBe(params);
+    });
+  });
+  
   describe('handleCallToolRequest', () => {
     const mockRequest = {
       params: {
@@ -168,7 +278,8 @@ describe('Server module', () => {
       
       expect(mockWorkflowManager.executeWorkflow).toHaveBeenCalledWith(
         'testTool',
-        { param1: 'value1' }
+        { param1: 'value1' },
+        { onEvent: expect.any(Function), signal: undefined }
       );
       
       expect(result).toEqual({
@@ -195,6 +306,28 @@ describe('Server module', () => {
       expect(mockWorkflowManager.executeWorkflow).not.toHaveBeenCalled();
     });
     
+    it('should reject invalid arguments with InvalidParams before executing the workflow', async () => {
+      mockWorkflowManager.getTool.mockReturnValueOnce(validatedTool);
+      
+      const invalidRequest = {
+        params: {
+          name: 'validatedTool',
+          arguments: { count: 'three', language: 'fr' }
+        }
+      };
+      
+      const promise = handleCallToolRequest(mockWorkflowManager as unknown as WorkflowManager, invalidRequest);
+      
+      await expect(promise).rejects.toBeInstanceOf(McpError);
+      await expect(promise).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: expect.stringContaining("'query' is required")
+      });
+      await expect(promise).rejects.toThrow(/'count' must be of type number, but received string/);
+      await expect(promise).rejects.toThrow(/'language' must be one of "ja", "en"/);
+      expect(mockWorkflowManager.executeWorkflow).not.toHaveBeenCalled();
+    });
+    
     it('should handle errors from executeWorkflow', async () => {
       mockWorkflowManager.executeWorkflow.mockImplementationOnce(() => Promise.reject(mockError));
       
@@ -230,6 +363,373 @@ describe('Server module', () => {
         ]
       });
     });
+    
+    it('should return audio results as MCP content', async () => {
+      const audioResult = new ToolContentResult([{ type: 'audio', data: 'UklGRg==', mimeType: 'audio/wav' }]);
+      const anyMockWorkflowManager = mockWorkflowManager as any;
+      anyMockWorkflowManager.executeWorkflow.mockImplementationOnce(() => Promise.resolve(audioResult));
+      
+      const result = await handleCallToolRequest(anyMockWorkflowManager as WorkflowManager, mockRequest);
+      
+      expect(result).toEqual({
+        content: [{ type: 'audio', data: 'UklGRg==', mimeType: 'audio/wav' }]
+      });
+    });
+    it('should return workflow outputs as structured content', async () => {
+      const workflowResult = new ToolContentResult(
+        [{ type: 'text', text: '{"summary":"ok"}' }],
+        { summary: 'ok' }
+      );
+      const anyMockWorkflowManager = mockWorkflowManager as any;
+      anyMockWorkflowManager.executeWorkflow.mockImplementationOnce(() => Promise.resolve(workflowResult));
+      
+      const result = await handleCallToolRequest(anyMockWorkflowManager as WorkflowManager, mockRequest);
+      
+      expect(result).toEqual({
+        content: [{ type: 'text', text: '{"summary":"ok"}' }],
+        structuredContent: { summary: 'ok' }
+      });
+    });
+    
+    it('should return a failed workflow run as a tool error', async () => {
+      const failedResult = new ToolContentResult(
+        [{ type: 'text', text: "Workflow run 'run-1' failed: Node timed out" }],
+        undefined,
+        true
+      );
+      const anyMockWorkflowManager = mockWorkflowManager as any;
+      anyMockWorkflowManager.executeWorkflow.mockImplementationOnce(() => Promise.resolve(failedResult));
+      
+      const result = await handleCallToolRequest(anyMockWorkflowManager as WorkflowManager, mockRequest);
+      
+      expect(result).toEqual({
+        content: [{ type: 'text', text: "Workflow run 'run-1' failed: Node timed out" }],
+        isError: true
+      });
+    });
+  });
+  
+  describe('elicitMissingInputs', () => {
+    const elicitationCapabilities = { elicitation: { form: {} } };
+    const createExtra = (response: Promise<any>) => ({
+      signal: new AbortController().signal,
+      sendNotification: jest.fn(() => Promise.resolve()),
+      sendRequest: jest.fn(() => response)
+    });
+    
+    it('should ask for the missing required inputs and run the workflow with the answers', async () => {
+      const extra = createExtra(Promise.resolve({ action: 'accept', content: { query: 'Hello' } }));
+      mockWorkflowManager.getTool.mockReturnValueOnce(validatedTool).mockReturnValueOnce(validatedTool);
+      
+      await handleCallToolRequest(
+        mockWorkflowManager as unknown as WorkflowManager,
+        { params: { name: 'validatedTool', arguments: { language: 'ja' } } },
+        extra as any,
+        elicitationCapabilities
+      );
+      
+      expect(extra.sendRequest).toHaveBeenCalledWith(
+        {
+          method: 'elicitation/create',
+          params: {
+            message: "Tool 'validatedTool' needs the following required inputs: query",
+            requestedSchema: {
+              type: 'object',
+              properties: { query: { type: 'string', description: 'Query' } },
+              required: ['query']
+            }
+          }
+        },
+        expect.anything()
+      );
+      expect(mockWorkflowManager.executeWorkflow).toHaveBeenCalledWith(
+        'validatedTool',
+        { language: 'ja', query: 'Hello' },
+        { onEvent: expect.any(Function), signal: extra.signal }
+      );
+    });
+    
+    it('should not ask when the client does not support form elicitation', async () => {
+      const extra = createExtra(Promise.resolve({ action: 'accept', content: { query: 'Hello' } }));
+      mockWorkflowManager.getTool.mockReturnValueOnce(validatedTool);
+      
+      const promise = handleCallToolRequest(
+        mockWorkflowManager as unknown as WorkflowManager,
+        { params: { name: 'validatedTool', arguments: {} } },
+        extra as any,
+        { elicitation: { url: {} } }
+      );
+      
+      await expect(promise).rejects.toThrow(/'query' is required/);
+      expect(extra.sendRequest).not.toHaveBeenCalled();
+    });
+    
+    it('should return the arguments unchanged when the user declines or the request fails', async () => {
+      const declineExtra = createExtra(Promise.resolve({ action: 'decline' }));
+      const failingExtra = createExtra(Promise.reject(mockError));
+      mockWorkflowManager.getTool.mockReturnValueOnce(validatedTool).mockReturnValueOnce(validatedTool);
+      
+      await expect(elicitMissingInputs(
+        mockWorkflowManager as unknown as WorkflowManager, 'validatedTool', { count: 1 }, declineExtra as any, elicitationCapabilities
+      )).resolves.toEqual({ count: 1 });
+      await expect(elicitMissingInputs(
+        mockWorkflowManager as unknown as WorkflowManager, 'validatedTool', { count: 1 }, failingExtra as any, elicitationCapabilities
+      )).resolves.toEqual({ count: 1 });
+      
+      expect(console.error).toHaveBeenCalledWith(
+        "The user chose to decline the request for missing inputs of tool 'validatedTool': query"
+      );
+      expect(console.error).toHaveBeenCalledWith("Failed to ask for missing inputs of tool 'validatedTool': query", mockError);
+    });
+  });
+  
+  describe('handleReadResourceRequest', () => {
+    it('should return the contents of the resource', async () => {
+      const contents = [{ uri: sampleResource.uri, mimeType: 'application/json', text: '{"data":[]}' }];
+      mockWorkflowManager.readResource.mockResolvedValueOnce(contents);
+      
+      const result = await handleReadResourceRequest(
+        mockWorkflowManager as unknown as WorkflowManager,
+        { params: { uri: sampleResource.uri } }
+      );
+      
+      expect(mockWorkflowManager.readResource).toHaveBeenCalledWith(sampleResource.uri);
+      expect(result).toEqual({ contents });
+    });
+    
+    it('should reject unknown resources with InvalidParams', async () => {
+      const promise = handleReadResourceRequest(
+        mockWorkflowManager as unknown as WorkflowManager,
+        { params: { uri: 'dify://workflows/unknown/logs' } }
+      );
+      
+      await expect(promise).rejects.toBeInstanceOf(McpError);
+      await expect(promise).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    });
+    
+    it('should log and rethrow errors while reading a resource', async () => {
+      mockWorkflowManager.readResource.mockRejectedValueOnce(mockError);
+      
+      await expect(handleReadResourceRequest(
+        mockWorkflowManager as unknown as WorkflowManager,
+        { params: { uri: sampleResource.uri } }
+      )).rejects.toThrow(mockError);
+      expect(console.error).toHaveBeenCalledWith(`Error reading resource '${sampleResource.uri}':`, mockError);
+    });
+  });
+  
+  describe('handleGetPromptRequest', () => {
+    it('should return the messages of the prompt', () => {
+      const result = handleGetPromptRequest(
+        mockWorkflowManager as unknown as WorkflowManager,
+        { params: { name: 'tool1-question-1', arguments: { language: 'ja' } } }
+      );
+      
+      expect(mockWorkflowManager.getPrompt).toHaveBeenCalledWith('tool1-question-1', { language: 'ja' });
+      expect(result.messages).toHaveLength(1);
+    });
+    
+    it('should reject unknown prompts and missing required arguments with InvalidParams', () => {
+      const getPrompt = (params: any) => () =>
+        handleGetPromptRequest(mockWorkflowManager as unknown as WorkflowManager, { params });
+      
+      expect(getPrompt({ name: 'unknown' })).toThrow(McpError);
+      expect(getPrompt({ name: 'tool1-question-1', arguments: { order_id: '1' } }))
+        .toThrow("Missing required arguments for prompt 'tool1-question-1': language");
+      expect(mockWorkflowManager.getPrompt).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('handleCompleteRequest', () => {
+    const completion = { values: ['ja'], total: 1, hasMore: false };
+    
+    it('should complete prompt arguments and resource template variables', () => {
+      mockWorkflowManager.completePromptArgument.mockReturnValueOnce(completion);
+      mockWorkflowManager.completeResourceTemplateArgument.mockReturnValueOnce(completion);
+      
+      expect(handleCompleteRequest(mockWorkflowManager as unknown as WorkflowManager, {
+        params: { ref: { type: 'ref/prompt', name: 'tool1-question-1' }, argument: { name: 'language', value: 'j' } }
+      })).toEqual({ completion });
+      expect(handleCompleteRequest(mockWorkflowManager as unknown as WorkflowManager, {
+        params: {
+          ref: { type: 'ref/resource', uri: 'dify://workflows/{toolName}/logs' },
+          argument: { name: 'keyword', value: '' },
+          context: { arguments: { toolName: 'tool1' } }
+        }
+      })).toEqual({ completion });
+      
+      expect(mockWorkflowManager.completePromptArgument).toHaveBeenCalledWith('tool1-question-1', 'language', 'j');
+      expect(mockWorkflowManager.completeResourceTemplateArgument)
+        .toHaveBeenCalledWith('dify://workflows/{toolName}/logs', 'keyword', '', { toolName: 'tool1' });
+    });
+    
+    it('should reject unknown prompts and resource templates with InvalidParams', () => {
+      const complete = (ref: any) => () => handleCompleteRequest(
+        mockWorkflowManager as unknown as WorkflowManager,
+        { params: { ref, argument: { name: 'language', value: '' } } }
+      );
+      
+      expect(complete({ type: 'ref/prompt', name: 'unknown' })).toThrow("Prompt not found: 'unknown'");
+      expect(complete({ type: 'ref/resource', uri: 'file:///{path}' })).toThrow(McpError);
+      expect(complete({ type: 'ref/resource', uri: 'file:///{path}' })).toThrow("Resource template not found: 'file:///{path}'");
+    });
+  });
+  
+  describe('describeStreamEvent', () => {
+    it('should describe workflow and node events', () => {
+      expect(describeStreamEvent({ event: 'workflow_started' })).toBe('Workflow started');
+      expect(describeStreamEvent({ event: 'workflow_started', workflow_run_id: 'run-1' }))
+        .toBe('Workflow started (workflow_run_id: run-1)');
+      expect(describeStreamEvent({
+        event: 'node_started',
+        data: { node_id: 'node-1', node_type: 'llm', title: 'LLM' }
+      })).toBe('Node started: LLM (llm)');
+      expect(describeStreamEvent({
+        event: 'node_finished',
+        data: { node_id: 'node-1', title: 'LLM', status: 'succeeded' }
+      })).toBe('Node finished: LLM (succeeded)');
+      expect(describeStreamEvent({ event: 'text_chunk', data: { text: 'Hello' } })).toBe('Hello');
+      expect(describeStreamEvent({ event: 'workflow_finished', data: { status: 'succeeded' } })).toBe('Workflow finished: succeeded');
+    });
+    
+    it('should describe chat message events', () => {
+      expect(describeStreamEvent({ event: 'message', answer: 'Hel' })).toBe('Hel');
+      expect(describeStreamEvent({ event: 'agent_message', answer: '' })).toBeUndefined();
+      expect(describeStreamEvent({ event: 'message_end' })).toBe('Message finished');
+    });
+    
+    it('should not describe ping events', () => {
+      expect(describeStreamEvent({ event: 'ping' })).toBeUndefined();
+    });
+  });
+  
+  describe('createProgressHandler', () => {
+    const progressRequest = {
+      params: {
+        name: 'testTool',
+        arguments: {},
+        _meta: { progressToken: 'progress-1' }
+      }
+    };
+    
+    it('should send progress notifications with increasing progress', async () => {
+      const extra = { sendNotification: jest.fn(() => Promise.resolve()) };
+      const onEvent = createProgressHandler(progressRequest, extra as any);
+      
+      await onEvent!({ event: 'workflow_started' });
+      await onEvent!({ event: 'ping' });
+      await onEvent!({ event: 'workflow_finished', data: { status: 'succeeded' } });
+      
+      expect(extra.sendNotification).toHaveBeenCalledTimes(2);
+      expect(extra.sendNotification).toHaveBeenNthCalledWith(1, {
+        method: 'notifications/progress',
+        params: { progressToken: 'progress-1', progress: 1, message: 'Workflow started' }
+      });
+      expect(extra.sendNotification).toHaveBeenNthCalledWith(2, {
+        method: 'notifications/progress',
+        params: { progressToken: 'progress-1', progress: 2, message: 'Workflow finished: succeeded' }
+      });
+    });
+    
+    it('should return undefined when no progressToken is supplied', () => {
+      const extra = { sendNotification: jest.fn() };
+      
+      expect(createProgressHandler({ params: { name: 'testTool', arguments: {} } }, extra as any)).toBeUndefined();
+    });
+    
+    it('should not throw when sending a notification fails', async () => {
+      const extra = { sendNotification: jest.fn(() => Promise.reject(new Error('Connection closed'))) };
+      const onEvent = createProgressHandler(progressRequest, extra as any);
+      
+      await expect(onEvent!({ event: 'workflow_started' })).resolves.toBeUndefined();
+      expect(console.error).toHaveBeenCalled();
+    });
+    
+    it('should be passed to executeWorkflow by handleCallToolRequest', async () => {
+      const extra = {
+        signal: new AbortController().signal,
+        sendNotification: jest.fn(() => Promise.resolve())
+      };
+      mockWorkflowManager.executeWorkflow.mockImplementationOnce(async (toolName, params, options) => {
+        await options.onEvent({ event: 'workflow_started', task_id: 'task-1' });
+        return 'test result';
+      });
+      
+      await handleCallToolRequest(mockWorkflowManager as unknown as WorkflowManager, progressRequest, extra as any);
+      
+      expect(mockWorkflowManager.executeWorkflow).toHaveBeenCalledWith(
+        'testTool',
+        {},
+        { onEvent: expect.any(Function), signal: extra.signal }
+      );
+      expect(extra.sendNotification).toHaveBeenCalledWith({
+        method: 'notifications/progress',
+        params: { progressToken: 'progress-1', progress: 1, message: 'Workflow started' }
+      });
+    });
+  });
+  
+  describe('trackWorkflowTask', () => {
+    it('should stop the last received Dify task when the request is aborted', async () => {
+      const abortController = new AbortController();
+      const tracker = trackWorkflowTask(
+        mockWorkflowManager as unknown as WorkflowManager,
+        'testTool',
+        { signal: abortController.signal } as any
+      );
+      
+      tracker.onEvent({ event: 'workflow_started', task_id: 'task-1' });
+      tracker.onEvent({ event: 'ping' });
+      abortController.abort('User cancelled');
+      
+      expect(mockWorkflowManager.stopWorkflow).toHaveBeenCalledWith('testTool', 'task-1');
+    });
+    
+    it('should not stop anything when no task_id has been received', () => {
+      const abortController = new AbortController();
+      trackWorkflowTask(
+        mockWorkflowManager as unknown as WorkflowManager,
+        'testTool',
+        { signal: abortController.signal } as any
+      );
+      
+      abortController.abort();
+      
+      expect(mockWorkflowManager.stopWorkflow).not.toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('before a Dify task_id was received'));
+    });
+    
+    it('should not stop the task after being released', () => {
+      const abortController = new AbortController();
+      const tracker = trackWorkflowTask(
+        mockWorkflowManager as unknown as WorkflowManager,
+        'testTool',
+        { signal: abortController.signal } as any
+      );
+      
+      tracker.onEvent({ event: 'workflow_started', task_id: 'task-1' });
+      tracker.release();
+      abortController.abort();
+      
+      expect(mockWorkflowManager.stopWorkflow).not.toHaveBeenCalled();
+    });
+    
+    it('should end a cancelled tool call with a cancellation error', async () => {
+      const abortController = new AbortController();
+      mockWorkflowManager.executeWorkflow.mockImplementationOnce(async (toolName, params, options) => {
+        await options.onEvent({ event: 'workflow_started', task_id: 'task-1' });
+        abortController.abort('User cancelled');
+        throw new Error('The operation was aborted');
+      });
+      
+      await expect(handleCallToolRequest(
+        mockWorkflowManager as unknown as WorkflowManager,
+        { params: { name: 'testTool', arguments: {} } },
+        { signal: abortController.signal, sendNotification: jest.fn() } as any
+      )).rejects.toThrow("Tool call 'testTool' was cancelled by the client");
+      
+      expect(mockWorkflowManager.stopWorkflow).toHaveBeenCalledWith('testTool', 'task-1');
+    });
   });
   
   describe('createServer', () => {
@@ -0,0 +1,239 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { request as sendHttpRequest } from 'node:http';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { StreamableHttpServer, SESSION_ID_HEADER } from '../../transport/http.js';
+import { Logger, getAllowedHosts } from '../../transport/base.js';
+import { createSessionServer } from '../../server.js';
+import { WorkflowManager } from '../../dify/workflow.js';
+
+// テスト用のツールデータ
+const sampleTools: Tool[] = [
+  {
+    name: 'test-tool',
+    description: 'Test Tool',
+    inputSchema: {
+      type: 'object',
+      properties: {}
+    }
+  }
+];
+
+// モックのワークフローマネージャー
+const mockWorkflowManager = {
+  getTools: jest.fn(() => sampleTools),
+  executeWorkflow: jest.fn(() => Promise.resolve('test result'))
+};
+
+// モックロガー
+class MockLogger implements Logger {
+  error = jest.fn();
+}
+
+// MCPクライアントが送信する初期化リクエスト
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' }
+  }
+};
+
+// Streamable HTTPクライアントが送信する共通ヘッダー
+const defaultHeaders = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream'
+};
+
+describe('StreamableHttpServer', () => {
+  let httpServer: StreamableHttpServer;
+  let serverFactory: jest.Mock<() => ReturnType<typeof createSessionServer>>;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    serverFactory = jest.fn(() => createSessionServer(
+      mockWorkflowManager as unknown as WorkflowManager,
+      { name: 'test-server', version: '1.0.0' }
+    ));
+    httpServer = new StreamableHttpServer(
+      { host: '127.0.0.1', port: 0, path: '/mcp' },
+      serverFactory,
+      new MockLogger()
+    );
+    await httpServer.start();
+    baseUrl = `http://127.0.0.1:${httpServer.getAddress()?.port}`;
+  });
+
+  afterEach(async () => {
+    await httpServer.stop();
+  });
+
+  // 初期化リクエストを送信してセッションIDを取得する
+  async function initializeSession(): Promise<string> {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: defaultHeaders,
+      body: JSON.stringify(initializeRequest)
+    });
+    await response.text();
+
+    expect(response.status).toBe(200);
+    const sessionId = response.headers.get(SESSION_ID_HEADER);
+    expect(sessionId).toBeTruthy();
+    return sessionId as string;
+  }
+
+  it('初期化リクエストごとに新しいセッションとServerを作成すること', async () => {
+    const firstSessionId = await initializeSession();
+    const secondSessionId = await initializeSession();
+
+    expect(firstSessionId).not.toBe(secondSessionId);
+    expect(serverFactory).toHaveBeenCalledTimes(2);
+    expect(httpServer.getSessionCount()).toBe(2);
+  });
+
+  it('セッションIDを使って既存のセッションにリクエストを送れること', async () => {
+    const sessionId = await initializeSession();
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...defaultHeaders, [SESSION_ID_HEADER]: sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} })
+    });
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(body).toContain('test-tool');
+    expect(mockWorkflowManager.getTools).toHaveBeenCalled();
+  });
+
+  it('DELETEリクエストでセッションを破棄すること', async () => {
+    const sessionId = await initializeSession();
+    expect(httpServer.getSessionCount()).toBe(1);
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { [SESSION_ID_HEADER]: sessionId }
+    });
+    await response.text();
+
+    expect(response.status).toBe(200);
+    expect(httpServer.getSessionCount()).toBe(0);
+  });
+
+  it('セッションIDなしの初期化以外のリクエストを400で拒否すること', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: defaultHeaders,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} })
+    });
+    const body = await response.json() as any;
+
+    expect(response.status).toBe(400);
+    expect(body.error.message).toContain('No valid session ID provided');
+    expect(serverFactory).not.toHaveBeenCalled();
+  });
+
+  it('存在しないセッションIDを404で拒否すること', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...defaultHeaders, [SESSION_ID_HEADER]: 'unknown-session' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} })
+    });
+    await response.text();
+
+    expect(response.status).toBe(404);
+  });
+
+  it('不正なJSONを400で拒否すること', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: defaultHeaders,
+      body: 'invalid-json'
+    });
+    const body = await response.json() as any;
+
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe(-32700);
+  });
+
+  it('設定されたパス以外へのリクエストを404で拒否すること', async () => {
+    const response = await fetch(`${baseUrl}/other`, {
+      method: 'POST',
+      headers: defaultHeaders,
+      body: JSON.stringify(initializeRequest)
+    });
+    await response.text();
+
+    expect(response.status).toBe(404);
+    expect(serverFactory).not.toHaveBeenCalled();
+  });
+
+  it('待ち受けアドレス以外のHostヘッダーのリクエストを拒否すること', async () => {
+    // fetch では Host ヘッダーを変更できないため node:http で送信する
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const req = sendHttpRequest(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { ...defaultHeaders, Host: `attacker.example:${httpServer.getAddress()?.port}` }
+      }, (res) => {
+        res.resume();
+        res.on('end', () => resolve(res.statusCode));
+      });
+      req.on('error', reject);
+      req.end(JSON.stringify(initializeRequest));
+    });
+
+    expect(status).toBe(403);
+    expect(httpServer.getSessionCount()).toBe(0);
+    // 初期化されなかったセッションのServerも閉じられていること
+    expect((serverFactory.mock.results[0].value as ReturnType<typeof createSessionServer>).transport).toBeUndefined();
+  });
+
+  it('アイドル時間を超えたセッションを閉じること', async () => {
+    const idleSessionId = await initializeSession();
+    const activeSessionId = await initializeSession();
+
+    // 片方のセッションだけアイドル時間内にリクエストがあったものとして判定する
+    await new Promise(resolve => setTimeout(resolve, 200));
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...defaultHeaders, [SESSION_ID_HEADER]: activeSessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} })
+    });
+    await response.text();
+    await httpServer.closeIdleSessions(Date.now() + 30 * 60 * 1000 - 100);
+
+    expect(httpServer.getSessionCount()).toBe(1);
+    const idleResponse = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...defaultHeaders, [SESSION_ID_HEADER]: idleSessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'tools/list', params: {} })
+    });
+    await idleResponse.text();
+    expect(idleResponse.status).toBe(404);
+  });
+
+  it('停止時にすべてのセッションを閉じること', async () => {
+    await initializeSession();
+    await initializeSession();
+
+    await httpServer.stop();
+
+    expect(httpServer.getSessionCount()).toBe(0);
+    expect(httpServer.getAddress()).toBeNull();
+  });
+});
+
+describe('getAllowedHosts', () => {
+  it('待ち受けるホストとポートから許可するHostヘッダーを作成すること', () => {
+    expect(getAllowedHosts('127.0.0.1', 3000)).toEqual(['127.0.0.1:3000', 'localhost:3000', '[::1]:3000']);
+    expect(getAllowedHosts('mcp.internal', 8080)).toEqual(['mcp.internal:8080']);
+  });
+
+  it('すべてのインターフェースで待ち受ける場合はundefinedを返すこと', () => {
+    expect(getAllowedHosts('0.0.0.0', 3000)).toBeUndefined();
+    expect(getAllowedHosts('::', 3000)).toBeUndefined();
+  });
+});
@@ -0,0 +1,207 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { request as sendHttpRequest } from 'node:http';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { SseHttpServer } from '../../transport/sse.js';
+import { Logger } from '../../transport/base.js';
+import { createSessionServer } from '../../server.js';
+import { WorkflowManager } from '../../dify/workflow.js';
+
+// テスト用のツールデータ
+const sampleTools: Tool[] = [
+  {
+    name: 'test-tool',
+    description: 'Test Tool',
+    inputSchema: {
+      type: 'object',
+      properties: {}
+    }
+  }
+];
+
+// モックのワークフローマネージャー
+const mockWorkflowManager = {
+  getTools: jest.fn(() => sampleTools),
+  executeWorkflow: jest.fn(() => Promise.resolve('test result'))
+};
+
+// モックロガー
+class MockLogger implements Logger {
+  error = jest.fn();
+}
+
+// MCPクライアントが送信する初期化リクエスト
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2024-11-05',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' }
+  }
+};
+
+/**
+ * SSEストリームから指定した文字列を含むイベントを読み込む
+ */
+async function readSseUntil(reader: ReadableStreamDefaultReader<Uint8Array>, expected: string): Promise<string> {
+  const decoder = new TextDecoder();
+  let received = '';
+  while (!received.includes(expected)) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += decoder.decode(value, { stream: true });
+  }
+  return received;
+}
+
+describe('SseHttpServer', () => {
+  let sseServer: SseHttpServer;
+  let serverFactory: jest.Mock<() => ReturnType<typeof createSessionServer>>;
+  let baseUrl: string;
+  let abortControllers: AbortController[];
+
+  beforeEach(async () => {
+    abortControllers = [];
+    serverFactory = jest.fn(() => createSessionServer(
+      mockWorkflowManager as unknown as WorkflowManager,
+      { name: 'test-server', version: '1.0.0' }
+    ));
+    sseServer = new SseHttpServer(
+      { host: '127.0.0.1', port: 0, ssePath: '/sse', messagesPath: '/messages' },
+      serverFactory,
+      new MockLogger()
+    );
+    await sseServer.start();
+    baseUrl = `http://127.0.0.1:${sseServer.getAddress()?.port}`;
+  });
+
+  afterEach(async () => {
+    abortControllers.forEach(controller => controller.abort());
+    await sseServer.stop();
+  });
+
+  // SSE接続を開き、通知されたメッセージエンドポイントを取得する
+  async function openSseSession(): Promise<{ endpoint: string; reader: ReadableStreamDefaultReader<Uint8Array>; controller: AbortController }> {
+    const controller = new AbortController();
+    abortControllers.push(controller);
+
+    const response = await fetch(`${baseUrl}/sse`, { signal: controller.signal });
+    expect(response.status).toBe(200);
+
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+    const received = await readSseUntil(reader, 'sessionId=');
+    const endpointMatch = received.match(/data: (\S+)/);
+    expect(endpointMatch).not.toBeNull();
+
+    return { endpoint: (endpointMatch as RegExpMatchArray)[1], reader, controller };
+  }
+
+  it('SSE接続ごとに新しいセッションとServerを作成すること', async () => {
+    const first = await openSseSession();
+    const second = await openSseSession();
+
+    expect(first.endpoint).toMatch(/^\/messages\?sessionId=/);
+    expect(first.endpoint).not.toBe(second.endpoint);
+    expect(serverFactory).toHaveBeenCalledTimes(2);
+    expect(sseServer.getSessionCount()).toBe(2);
+  });
+
+  it('POSTされたメッセージを対応するセッションへ振り分けること', async () => {
+    const { endpoint, reader } = await openSseSession();
+
+    const response = await fetch(`${baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initializeRequest)
+    });
+    await response.text();
+
+    expect(response.status).toBe(202);
+
+    const received = await readSseUntil(reader, 'test-server');
+    expect(received).toContain('"id":1');
+  });
+
+  it('sessionIdがないPOSTを400で拒否すること', async () => {
+    const response = await fetch(`${baseUrl}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initializeRequest)
+    });
+    const body = await response.json() as any;
+
+    expect(response.status).toBe(400);
+    expect(body.error.message).toContain('sessionId');
+  });
+
+  it('存在しないセッションへのPOSTを404で拒否すること', async () => {
+    const response = await fetch(`${baseUrl}/messages?sessionId=unknown-session`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initializeRequest)
+    });
+    await response.text();
+
+    expect(response.status).toBe(404);
+  });
+
+  it('待ち受けアドレスと異なるHostヘッダーのPOSTを403で拒否すること', async () => {
+    const { endpoint } = await openSseSession();
+
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const req = sendHttpRequest(`${baseUrl}${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Host: `attacker.example:${sseServer.getAddress()?.port}` }
+      }, (res) => {
+        res.resume();
+        res.on('end', () => resolve(res.statusCode));
+      });
+      req.on('error', reject);
+      req.end(JSON.stringify(initializeRequest));
+    });
+
+    expect(status).toBe(403);
+  });
+
+  it('待ち受けアドレスと異なるHostヘッダーのSSE接続を403で拒否すること', async () => {
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const req = sendHttpRequest(`${baseUrl}/sse`, {
+        method: 'GET',
+        headers: { Accept: 'text/event-stream', Host: `attacker.example:${sseServer.getAddress()?.port}` }
+      }, (res) => {
+        res.resume();
+        res.on('end', () => resolve(res.statusCode));
+      });
+      req.on('error', reject);
+      req.end();
+    });
+
+    expect(status).toBe(403);
+    expect(serverFactory).not.toHaveBeenCalled();
+    expect(sseServer.getSessionCount()).toBe(0);
+  });
+
+  it('クライアントが切断したらセッションを破棄すること', async () => {
+    const { reader } = await openSseSession();
+    expect(sseServer.getSessionCount()).toBe(1);
+
+    await reader.cancel();
+
+    // サーバー側で切断が検知されるまで待つ
+    for (let attempt = 0; attempt < 50 && sseServer.getSessionCount() > 0; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(sseServer.getSessionCount()).toBe(0);
+  });
+
+  it('未定義のパスへのリクエストを404で拒否すること', async () => {
+    const response = await fetch(`${baseUrl}/mcp`);
+    await response.text();
+
+    expect(response.status).toBe(404);
+    expect(serverFactory).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,6 @@
 // Configuration management for the application
+import { resolve } from "node:path";
+import { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
 
 /**
  * 設定エラーのハンドリング関数
@@ -14,6 +16,86 @@ export function handleConfigError(message: string): never {
   process.exit(1);
 }
 
+/**
+ * MCPトランスポートの種類
+ */
+export type TransportType = "stdio" | "http" | "sse";
+
+/**
+ * サポートしているトランスポートの一覧
+ */
+export const SUPPORTED_TRANSPORTS: TransportType[] = ["stdio", "http", "sse"];
+
+/**
+ * サポートしているDify APIのレスポンスモード
+ */
+export const SUPPORTED_RESPONSE_MODES = ["blocking", "streaming"];
+
+/**
+ * トランスポート設定
+ */
+export interface TransportConfig {
+  type: TransportType;
+  host: string;
+  port: number;
+  path: string;
+  ssePath: string;
+  messagesPath: string;
+  // Streamable HTTPでリクエストのないセッションを破棄するまでの時間（ミリ秒）
+  sessionIdleTimeoutMs: number;
+}
+
+/**
+ * アプリごとのオプション
+ * DIFY_APP_OPTIONS にアプリ名（/info の name）をキーとするJSONで指定する。"*" はすべてのアプリに適用される
+ */
+export interface AppOptions {
+  // チャットアプリの会話管理ツール（一覧・履歴・名前変更・削除）を公開する
+  conversationTools?: boolean;
+  // チャットアプリのメッセージにフィードバック（高評価・低評価）を送信するツールを公開する
+  feedbackTool?: boolean;
+  // テキスト読み上げが有効なアプリの音声変換ツールを公開する
+  textToSpeechTool?: boolean;
+  // 音声認識が有効なアプリの文字起こしツールを公開する
+  speechToTextTool?: boolean;
+  // ワークフローアプリの実行結果（状態・出力・エラー）を実行IDで照会するツールを公開する
+  workflowRunTool?: boolean;
+  // ワークフローアプリの実行ログをステータス・キーワードで検索するツールを公開する
+  workflowLogsTool?: boolean;
+  // ワークフローアプリの outputs のJSON Schema（"type": "object"）。ツールの outputSchema の outputs プロパティに設定する
+  outputSchema?: { type: "object"; [key: string]: any };
+  // アプリのツールのアノテーション（title と各ヒント）。指定した項目だけアプリのモードごとの既定値を上書きする
+  annotations?: ToolAnnotations;
+}
+
+/**
+ * アノテーションで真偽値を指定するヒントのキー
+ */
+export const TOOL_ANNOTATION_HINT_KEYS = ["readOnlyHint", "destructiveHint", "idempotentHint", "openWorldHint"] as const;
+
+/**
+ * すべてのアプリに適用するオプションのキー
+ */
+export const ALL_APPS_OPTION_KEY = "*";
+
+/**
+ * ナレッジベースごとのオプション
+ * DIFY_DATASET_OPTIONS にデータセットIDをキーとするJSONで指定する。"*" はすべてのナレッジベースに適用される
+ */
+export interface DatasetOptions {
+  // ドキュメントの作成・更新・削除・一覧・インデックス状況のツールを公開する
+  documentTools?: boolean;
+}
+
+/**
+ * ナレッジベース（データセット）の設定
+ * DIFY_DATASETS に「データセットのAPIキー:データセットID」をカンマ区切りで指定する
+ */
+export interface DatasetConfig {
+  apiKey: string;
+  datasetId: string;
+}
+
 /**
  * 設定インターフェース
  */
@@ -22,10 +104,164 @@ export interface Config {
   getApiKeys(): string[];
   getServerConfig(): { name: string; version: string };
   getApiRequestConfig(): { responseMode: string; userId: string };
+  getTransportConfig(): TransportConfig;
+  getAppOptions(appName: string): AppOptions;
+  getDatasets(): DatasetConfig[];
+  getDatasetOptions(datasetId: string): DatasetOptions;
+  getLocalFileRoot(): string | undefined;
   validate(): boolean;
   validateStrict(): void;
 }
 
+/**
+ * コマンドライン引数を解析する関数
+ * `--name value` と `--name=value` の両方の形式をサポートする
+ */
+export function parseCliArguments(argv: string[]): Record<string, string> {
+  const options: Record<string, string> = {};
+  
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    
+    if (!arg.startsWith("--")) {
+      continue;
+    }
+    
+    const separatorIndex = arg.indexOf("=");
+    if (separatorIndex !== -1) {
+      options[arg.substring(2, separatorIndex)] = arg.substring(separatorIndex + 1);
+      continue;
+    }
+    
+    const nextArg = argv[index + 1];
+    if (nextArg !== undefined && !nextArg.startsWith("--")) {
+      options[arg.substring(2)] = nextArg;
+      index++;
+    } else {
+      options[arg.substring(2)] = "true";
+    }
+  }
+  
+  return options;
+}
+
+/**
+ * アプリごとのオプションのJSONを解析する関数
+ * 不正な形式の場合は解析できなかった理由を含むエラーをスローする
+ */
+export function parseAppOptions(json: string | undefined): Record<string, AppOptions> {
+  const appOptions = parseOptionsJson<AppOptions>(json, "DIFY_APP_OPTIONS", "app name");
+  
+  // MCPの outputSchema はオブジェクト型のJSON Schemaでなければならない
+  for (const [appName, options] of Object.entries(appOptions)) {
+    const outputSchema: unknown = options.outputSchema;
+    if (
+      outputSchema !== undefined &&
+      (typeof outputSchema !== "object" || outputSchema === null || (outputSchema as Record<string, unknown>).type !== "object")
+    ) {
+      throw new Error(
+        `DIFY_APP_OPTIONS['${appName}'].outputSchema must be a JSON Schema with "type": "object". Received: ${JSON.stringify(outputSchema)}`
+      );
+    }
+    
+    if (options.annotations !== undefined) {
+      validateToolAnnotations(appName, options.annotations);
+    }
+  }
+  
+  return appOptions;
+}
+
+/**
+ * アプリのツールのアノテーションを検証する
+ * title は文字列、各ヒントは真偽値でなければならない
+ */
+function validateToolAnnotations(appName: string, annotations: unknown): void {
+  const optionName = `DIFY_APP_OPTIONS['${appName}'].annotations`;
+  
+  if (typeof annotations !== "object" || annotations === null || Array.isArray(annotations)) {
+    throw new Error(`${optionName} must be an object. Received: ${JSON.stringify(annotations)}`);
+  }
+  
+  for (const [key, value] of Object.entries(annotations)) {
+    if (key === "title") {
+      if (typeof value !== "string") {
+        throw new Error(`${optionName}.title must be a string. Received: ${JSON.stringify(value)}`);
+      }
+    } else if ((TOOL_ANNOTATION_HINT_KEYS as readonly string[]).includes(key)) {
+      if (typeof value !== "boolean") {
+        throw new Error(`${optionName}.${key} must be a boolean. Received: ${JSON.stringify(value)}`);
+      }
+    } else {
+      throw new Error(
+        `${optionName} has unknown key '${key}'. Allowed keys: title, ${TOOL_ANNOTATION_HINT_KEYS.join(", ")}`
+      );
+    }
+  }
+}
+
+/**
+ * ナレッジベースごとのオプションのJSONを解析する関数
+ * 不正な形式の場合は解析できなかった理由を含むエラーをスローする
+ */
+export function parseDatasetOptions(json: string | undefined): Record<string, DatasetOptions> {
+  return parseOptionsJson<DatasetOptions>(json, "DIFY_DATASET_OPTIONS", "dataset ID");
+}
+
+/**
+ * キーごとのオプションを持つJSONオブジェクトを解析する
+ */
+function parseOptionsJson<T>(json: string | undefined, variableName: string, keyDescription: string): Record<string, T> {
+  if (!json) {
+    return {};
+  }
+  
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`${variableName} is not valid JSON: ${error}`);
+  }
+  
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${variableName} must be a JSON object keyed by ${keyDescription}. Received: ${json}`);
+  }
+  
+  for (const [key, options] of Object.entries(parsed)) {
+    if (typeof options !== "object" || options === null || Array.isArray(options)) {
+      throw new Error(`${variableName}['${key}'] must be an object. Received: ${JSON.stringify(options)}`);
+    }
+  }
+  
+  return parsed as Record<string, T>;
+}
+
+/**
+ * ナレッジベースの設定を解析する関数
+ * 「APIキー:データセットID」の形式でない項目がある場合は項目を含むエラーをスローする
+ */
+export function parseDatasets(value: string | undefined): DatasetConfig[] {
+  if (!value) {
+    return [];
+  }
+  
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const separatorIndex = entry.indexOf(':');
+      const apiKey = separatorIndex === -1 ? '' : entry.substring(0, separatorIndex).trim();
+      const datasetId = separatorIndex === -1 ? '' : entry.substring(separatorIndex + 1).trim();
+      
+      if (!apiKey || !datasetId) {
+        throw new Error(`DIFY_DATASETS entries must be in the form '<dataset API key>:<dataset ID>'. Received: '${entry}'`);
+      }
+      
+      return { apiKey, datasetId };
+    });
+}
+
 /**
  * 環境変数からの設定読み込みクラス
  */
@@ -36,8 +272,26 @@ export class EnvConfig implements Config {
   private readonly serverVersion: string;
   private readonly userId: string;
   private readonly responseMode: string;
+  private readonly transportType: string;
+  private readonly httpHost: string;
+  private readonly httpPort: number;
+  private readonly httpPath: string;
+  private readonly ssePath: string;
+  private readonly sseMessagesPath: string;
+  private readonly sessionIdleTimeout: number;
+  private readonly appOptions: Record<string, AppOptions>;
+  private readonly appOptionsError: string | undefined;
+  private readonly datasets: DatasetConfig[];
+  private readonly datasetsError: string | undefined;
+  private readonly datasetOptions: Record<string, DatasetOptions>;
+  private readonly localFileRoot: string;
+  private readonly localFileRemoteAccess: boolean;
   
-  constructor(env: NodeJS.ProcessEnv = process.env) {
+  /**
+   * @param env - 環境変数
+   * @param argv - コマンドライン引数（環境変数より優先される。起動時に index.ts から渡す）
+   */
+  constructor(env: NodeJS.ProcessEnv = process.env, argv: string[] = []) {
     this.baseUrl = env.DIFY_BASE_URL || '';
     
     // API キーの処理
@@ -54,7 +308,46 @@ export class EnvConfig implements Config {
     this.serverName = env.SERVER_NAME || "dify-workflow-mcp-server";
     this.serverVersion = env.SERVER_VERSION || "1.0.0";
     this.userId = env.DEFAULT_USER_ID || "test-abc";
-    this.responseMode = "blocking";
+    this.responseMode = env.DIFY_RESPONSE_MODE || "blocking";
+    
+    // トランスポートの処理（コマンドライン引数を環境変数より優先する）
+    const cliOptions = parseCliArguments(argv);
+    this.transportType = cliOptions.transport || env.MCP_TRANSPORT || "stdio";
+    this.httpHost = cliOptions.host || env.MCP_HTTP_HOST || "127.0.0.1";
+    this.httpPort = Number(cliOptions.port || env.MCP_HTTP_PORT || 3000);
+    this.httpPath = cliOptions.path || env.MCP_HTTP_PATH || "/mcp";
+    this.ssePath = cliOptions["sse-path"] || env.MCP_SSE_PATH || "/sse";
+    this.sseMessagesPath = cliOptions["messages-path"] || env.MCP_SSE_MESSAGES_PATH || "/messages";
+    this.sessionIdleTimeout = Number(cliOptions["session-idle-timeout"] || env.MCP_HTTP_SESSION_IDLE_TIMEOUT || 1800);
+    
+    // ローカルファイルの読み込み（既定で無効。HTTP/SSEでは明示的に許可した場合のみ有効）
+    this.localFileRoot = env.DIFY_LOCAL_FILE_ROOT || "";
+    this.localFileRemoteAccess = env.DIFY_LOCAL_FILE_REMOTE_ACCESS === "true";
+    
+    // アプリごとのオプションの処理（不正な場合は validate() で報告する）
+    let appOptions: Record<string, AppOptions> = {};
+    let appOptionsError: string | undefined;
+    try {
+      appOptions = parseAppOptions(env.DIFY_APP_OPTIONS);
+    } catch (error) {
+      appOptionsError = error instanceof Error ? error.message : String(error);
+    }
+    this.appOptions = appOptions;
+    this.appOptionsError = appOptionsError;
+    
+    // ナレッジベースの処理（不正な場合は validate() で報告する）
+    let datasets: DatasetConfig[] = [];
+    let datasetOptions: Record<string, DatasetOptions> = {};
+    let datasetsError: string | undefined;
+    try {
+      datasets = parseDatasets(env.DIFY_DATASETS);
+      datasetOptions = parseDatasetOptions(env.DIFY_DATASET_OPTIONS);
+    } catch (error) {
+      datasetsError = error instanceof Error ? error.message : String(error);
+    }
+    this.datasets = datasets;
+    this.datasetOptions = datasetOptions;
+    this.datasetsError = datasetsError;
   }
   
   getBaseUrl(): string {
@@ -79,10 +372,116 @@ export class EnvConfig implements Config {
     };
   }
   
+  getTransportConfig(): TransportConfig {
+    return {
+      type: this.transportType as TransportType,
+      host: this.httpHost,
+      port: this.httpPort,
+      path: this.httpPath,
+      ssePath: this.ssePath,
+      messagesPath: this.sseMessagesPath,
+      sessionIdleTimeoutMs: this.sessionIdleTimeout * 1000
+    };
+  }
+  
+  /**
+   * アプリ名に対応するオプションを取得する
+   * "*" のオプションにアプリ固有のオプションを上書きして返す
+   */
+  getAppOptions(appName: string): AppOptions {
+    return {
+      ...this.appOptions[ALL_APPS_OPTION_KEY],
+      ...this.appOptions[appName]
+    };
+  }
+  
+  /**
+   * ツールとして公開するナレッジベースの一覧を取得する
+   */
+  getDatasets(): DatasetConfig[] {
+    return this.datasets;
+  }
+  
+  /**
+   * データセットIDに対応するオプションを取得する
+   * "*" のオプションにナレッジベース固有のオプションを上書きして返す
+   */
+  getDatasetOptions(datasetId: string): DatasetOptions {
+    return {
+      ...this.datasetOptions[ALL_APPS_OPTION_KEY],
+      ...this.datasetOptions[datasetId]
+    };
+  }
+  
+  /**
+   * ファイル引数の path で読み込みを許可するディレクトリを取得する
+   * 未設定の場合と、HTTP/SSEでリモートからのアクセスを許可していない場合は undefined を返す
+   */
+  getLocalFileRoot(): string | undefined {
+    if (!this.localFileRoot) {
+      return undefined;
+    }
+    
+    if (this.transportType !== "stdio" && !this.localFileRemoteAccess) {
+      return undefined;
+    }
+    
+    return resolve(this.localFileRoot);
+  }
+  
   /**
    * 設定の検証
    */
   validate(): boolean {
+    if (!SUPPORTED_RESPONSE_MODES.includes(this.responseMode)) {
+      console.error(`Unsupported response mode: '${this.responseMode}'. Supported response modes: ${SUPPORTED_RESPONSE_MODES.join(', ')}`);
+      return false;
+    }
+    
+    if (!SUPPORTED_TRANSPORTS.includes(this.transportType as TransportType)) {
+      console.error(`Unsupported transport: '${this.transportType}'. Supported transports: ${SUPPORTED_TRANSPORTS.join(', ')}`);
+      return false;
+    }
+    
+    if (!Number.isInteger(this.httpPort) || this.httpPort < 0 || this.httpPort > 65535) {
+      console.error(`Invalid HTTP port: '${this.httpPort}'. Please set MCP_HTTP_PORT or --port to an integer between 0 and 65535.`);
+      return false;
+    }
+    
+    if (!Number.isInteger(this.sessionIdleTimeout) || this.sessionIdleTimeout <= 0) {
+      console.error(`Invalid session idle timeout: '${this.sessionIdleTimeout}'. Please set MCP_HTTP_SESSION_IDLE_TIMEOUT or --session-idle-timeout to a positive number of seconds.`);
+      return false;
+    }
+    
+    for (const path of [this.httpPath, this.ssePath, this.sseMessagesPath]) {
+      if (!path.startsWith("/")) {
+        console.error(`Invalid HTTP path: '${path}'. The path must start with '/'.`);
+        return false;
+      }
+    }
+    
+    if (this.ssePath === this.sseMessagesPath) {
+      console.error(`SSE path and messages path must be different: '${this.ssePath}'`);
+      return false;
+    }
+    
+    if (this.localFileRoot && this.transportType !== "stdio" && !this.localFileRemoteAccess) {
+      console.error(
+        `Local file access under '${this.localFileRoot}' is disabled for the '${this.transportType}' transport. ` +
+        "Set DIFY_LOCAL_FILE_REMOTE_ACCESS=true to let remote clients read files under DIFY_LOCAL_FILE_ROOT."
+      );
+    }
+    
+    if (this.appOptionsError) {
+      console.error(`Invalid app options: ${this.appOptionsError}`);
+      return false;
+    }
+    
+    if (this.datasetsError) {
+      console.error(`Invalid datasets: ${this.datasetsError}`);
+      return false;
+    }
+    
     if (!this.baseUrl) {
       console.error("Environment variable DIFY_BASE_URL is not set");
       return false;
@@ -2,12 +2,15 @@ import { DifyInfoResponse, DifyParametersResponse, DifyWorkflowResponse } from "
 import { DifyApiClient } from "./client.js";
 import { DifyService } from "./service.js";
 import { WorkflowManager } from "./workflow.js";
+import { DifyDatasetApiClient } from "./dataset.js";
+import { KnowledgeService } from "./knowledge.js";
 import { appConfig, workflowApiKeyMap } from "../config.js";
 
 // シングルトンインスタンスの管理
 let _difyClient: DifyApiClient | null = null;
 let _difyService: DifyService | null = null;
 let _workflowManager: WorkflowManager | null = null;
+let _knowledgeService: KnowledgeService | null = null;
 
 /**
  * DifyApiClientのインスタンスを取得する
@@ -46,14 +49,32 @@ export function setDifyService(service: DifyService): void {
   _difyService = service;
 }
 
+/**
+ * KnowledgeServiceのインスタンスを取得する
+ * テスト時にモックを注入できるようにするためのファクトリ関数
+ */
+export function getKnowledgeService(config = appConfig): KnowledgeService {
+  if (!_knowledgeService) {
+    _knowledgeService = new KnowledgeService(new DifyDatasetApiClient(config), config);
+  }
+  return _knowledgeService;
+}
+
+/**
+ * テスト用にKnowledgeServiceのモックを設定する
+ */
+export function setKnowledgeService(service: KnowledgeService): void {
+  _knowledgeService = service;
+}
+
 /**
  * WorkflowManagerのインスタンスを取得する
  * テスト時にモックを注入できるようにするためのファクトリ関数
  */
-export function getWorkflowManager(): WorkflowManager {
+export function getWorkflowManager(config = appConfig): WorkflowManager {
   if (!_workflowManager) {
-    const service = getDifyService();
-    _workflowManager = new WorkflowManager(service);
+    const service = getDifyService(config);
+    _workflowManager = new WorkflowManager(service, undefined, undefined, getKnowledgeService(config));
   }
   return _workflowManager;
 }
@@ -72,6 +93,7 @@ export function resetInstances(): void {
   _difyClient = null;
   _difyService = null;
   _workflowManager = null;
+  _knowledgeService = null;
 }
 
 /**
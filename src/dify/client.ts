@@ -1,21 +1,28 @@
-import fetch, { Response as FetchResponse } from "node-fetch";
-import { DifyInfoResponse, DifyParametersResponse, DifyWorkflowResponse } from "../types.js";
+import fetch, { Response as FetchResponse, FormData, Blob } from "node-fetch";
+import {
+  DifyInfoResponse,
+  DifyParametersResponse,
+  DifyWorkflowResponse,
+  DifyStopWorkflowResponse,
+  DifyWorkflowRunDetail,
+  DifyWorkflowLogStatus,
+  DifyWorkflowLogListResponse,
+  DifyFileUploadResponse,
+  DifyChatMessageResponse,
+  DifyConversation,
+  DifyConversationListResponse,
+  DifyMessageListResponse,
+  DifyDeleteResponse,
+  DifyFeedbackRating,
+  DifyFeedbackResponse,
+  DifyAudioToTextResponse
+} from "../types.js";
 import { Config } from "../config.js";
+import { StreamEventHandler, parseSseStream, collectWorkflowResponse, collectChatMessageResponse } from "./stream.js";
+import { handleApiResponseError, handleParseError } from "./errors.js";
 
-// APIリクエストに関するエラークラス
-export class ApiError extends Error {
-  statusCode: number;
-  statusText: string;
-  endpoint: string;
-  
-  constructor(message: string, statusCode: number, statusText: string, endpoint: string) {
-    super(message);
-    this.name = "ApiError";
-    this.statusCode = statusCode;
-    this.statusText = statusText;
-    this.endpoint = endpoint;
-  }
-}
+// APIリクエストに関するエラークラス（errors.ts で定義）
+export { ApiError } from "./errors.js";
 
 // HTTP通信インターフェース（テスト容易性のため抽象化）
 export interface HttpClient {
@@ -25,7 +32,9 @@ export interface HttpClient {
 export interface RequestOptions {
   method?: string;
   headers?: Record<string, string>;
-  body?: string;
+  // JSONの場合は文字列、multipart/form-dataの場合はFormData
+  body?: string | FormData;
+  signal?: AbortSignal;
 }
 
 export interface HttpResponse {
@@ -33,13 +42,118 @@ export interface HttpResponse {
   status: number;
   statusText: string;
   text(): Promise<string>;
+  // ストリーミングレスポンスの本文（未対応の実装ではtext()で代替する）
+  body?: AsyncIterable<Uint8Array | string> | null;
+  // レスポンスヘッダー（音声などバイナリのレスポンスの Content-Type の取得に使用する）
+  headers?: { get(name: string): string | null };
+  // バイナリのレスポンス本文（未対応の実装ではbodyで代替する）
+  arrayBuffer?(): Promise<ArrayBuffer>;
+}
+
+// ワークフロー実行時のオプション
+export interface WorkflowRunOptions {
+  // response_mode が streaming の場合に各イベントを受け取るハンドラー
+  onEvent?: StreamEventHandler;
+  // 実行をキャンセルするためのシグナル（MCPクライアントによるキャンセル時に中断される）
+  signal?: AbortSignal;
+}
+
+// チャットアプリ（チャットフロー・チャットボット）に送信するメッセージ
+export interface ChatMessageRequest {
+  query: string;
+  inputs: Record<string, any>;
+  // 既存の会話を継続する場合に指定する
+  conversation_id?: string;
+  // 設定のレスポンスモードを上書きする場合に指定する（エージェントアプリはstreamingのみ対応）
+  response_mode?: string;
+}
+
+// ワークフローの実行ログの取得オプション
+export interface WorkflowLogListOptions {
+  // 入力・出力などに含まれるキーワード
+  keyword?: string;
+  status?: DifyWorkflowLogStatus;
+  page?: number;
+  limit?: number;
+}
+
+// 会話一覧の取得オプション
+export interface ConversationListOptions {
+  // 前のページの最後の会話ID（ページング用）
+  last_id?: string;
+  limit?: number;
+  sort_by?: string;
+}
+
+// メッセージ履歴の取得オプション
+export interface MessageListOptions {
+  // 前のページの最初のメッセージID（ページング用）
+  first_id?: string;
+  limit?: number;
+}
+
+// 会話の名前変更オプション（auto_generate が true の場合は name を省略できる）
+export interface ConversationRenameOptions {
+  name?: string;
+  auto_generate?: boolean;
+}
+
+// メッセージへのフィードバック
+export interface MessageFeedback {
+  rating: DifyFeedbackRating;
+  // フィードバックの詳細（任意）
+  content?: string;
+}
+
+// 音声に変換するテキスト（チャットアプリでは message_id で回答を指定することもできる）
+export interface TextToAudioRequest {
+  text?: string;
+  message_id?: string;
+}
+
+// 音声データ
+export interface AudioData {
+  data: Buffer;
+  mimeType: string;
+}
+
+// Content-Type を返さない場合の音声のMIMEタイプ（DifyのTTSは既定でMP3を返す）
+const DEFAULT_AUDIO_MIME_TYPE = "audio/mpeg";
+
+// JSON APIへのリクエストオプション
+interface JsonRequestOptions {
+  method?: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: Record<string, any>;
+}
+
+// アップロードするファイル
+export interface FileUpload {
+  data: Buffer;
+  filename: string;
+  mimeType?: string;
 }
 
 // Dify APIクライアントのインターフェース
 export interface DifyClient {
   fetchInfo(apiKey: string): Promise<DifyInfoResponse>;
   fetchParameters(apiKey: string): Promise<DifyParametersResponse>;
-  runWorkflow(apiKey: string, params: Record<string, any>): Promise<DifyWorkflowResponse>;
+  runWorkflow(apiKey: string, params: Record<string, any>, options?: WorkflowRunOptions): Promise<DifyWorkflowResponse>;
+  stopWorkflowTask(apiKey: string, taskId: string): Promise<DifyStopWorkflowResponse>;
+  getWorkflowRun(apiKey: string, workflowRunId: string): Promise<DifyWorkflowRunDetail>;
+  getWorkflowLogs(apiKey: string, options?: WorkflowLogListOptions): Promise<DifyWorkflowLogListResponse>;
+  uploadFile(apiKey: string, file: FileUpload): Promise<DifyFileUploadResponse>;
+  sendChatMessage(apiKey: string, request: ChatMessageRequest, options?: WorkflowRunOptions): Promise<DifyChatMessageResponse>;
+  stopChatMessage(apiKey: string, taskId: string): Promise<DifyStopWorkflowResponse>;
+  sendCompletionMessage(apiKey: string, inputs: Record<string, any>, options?: WorkflowRunOptions): Promise<DifyChatMessageResponse>;
+  stopCompletionMessage(apiKey: string, taskId: string): Promise<DifyStopWorkflowResponse>;
+  listConversations(apiKey: string, options?: ConversationListOptions): Promise<DifyConversationListResponse>;
+  getMessages(apiKey: string, conversationId: string, options?: MessageListOptions): Promise<DifyMessageListResponse>;
+  renameConversation(apiKey: string, conversationId: string, options: ConversationRenameOptions): Promise<DifyConversation>;
+  deleteConversation(apiKey: string, conversationId: string): Promise<DifyDeleteResponse | undefined>;
+  sendMessageFeedback(apiKey: string, messageId: string, feedback: MessageFeedback): Promise<DifyFeedbackResponse>;
+  textToAudio(apiKey: string, request: TextToAudioRequest): Promise<AudioData>;
+  audioToText(apiKey: string, file: FileUpload): Promise<DifyAudioToTextResponse>;
 }
 
 // レスポンスパーサーインターフェース
@@ -62,7 +176,10 @@ export class FetchHttpClient implements HttpClient {
       ok: response.ok,
       status: response.status,
       statusText: response.statusText,
-      text: async () => response.text()
+      text: async () => response.text(),
+      body: response.body,
+      headers: response.headers,
+      arrayBuffer: async () => response.arrayBuffer()
     };
   }
 }
@@ -83,39 +200,6 @@ export class DifyApiClient implements DifyClient {
     this.responseParser = responseParser;
   }
   
-  // APIキーをマスクする（ログ出力用）
-  private maskApiKey(apiKey: string): string {
-    if (apiKey.length <= 8) {
-      return "********";
-    }
-    return `${apiKey.substring(0, 4)}...${apiKey.substring(apiKey.length - 4)}`;
-  }
-  
-  // レスポンスエラーを処理
-  private async handleApiResponseError(response: HttpResponse, endpoint: string, apiKey: string): Promise<never> {
-    const errorText = await response.text().catch(() => "Could not retrieve response text");
-    console.error(`${endpoint} API error code: ${response.status}`);
-    console.error(`${endpoint} API error message: ${response.statusText}`);
-    console.error(`${endpoint} API error response: ${errorText}`);
-    console.error(`API Key (masked): ${this.maskApiKey(apiKey)}`);
-    
-    throw new ApiError(
-      `${endpoint} API error: ${response.status} ${response.statusText}`,
-      response.status,
-      response.statusText,
-      endpoint
-    );
-  }
-  
-  // JSONパースエラーを処理
-  private handleParseError(error: unknown, endpoint: string): never {
-    console.error(`${endpoint} JSON parse error:`, error);
-    if (error instanceof Error) {
-      console.error(`Error stack: ${error.stack}`);
-    }
-    throw new Error(`Failed to parse ${endpoint} API response: ${error}`);
-  }
-
   // 共通のリクエストヘッダーを生成
   private createHeaders(apiKey: string): Record<string, string> {
     return {
@@ -124,6 +208,13 @@ export class DifyApiClient implements DifyClient {
     };
   }
 
+  // multipart/form-data用のリクエストヘッダーを生成（Content-Typeはboundary付きで自動設定される）
+  private createMultipartHeaders(apiKey: string): Record<string, string> {
+    return {
+      "Authorization": `Bearer ${apiKey}`
+    };
+  }
+
   // APIエンドポイントURLを生成
   private getEndpointUrl(path: string): string {
     const baseUrl = this.config.getBaseUrl();
@@ -138,7 +229,7 @@ export class DifyApiClient implements DifyClient {
     const infoResponse = await this.httpClient.request(url, { headers });
 
     if (!infoResponse.ok) {
-      await this.handleApiResponseError(infoResponse, "/info", apiKey);
+      await handleApiResponseError(infoResponse, "/info", apiKey);
     }
 
     const infoDataText = await infoResponse.text();
@@ -146,7 +237,7 @@ export class DifyApiClient implements DifyClient {
     try {
       return this.responseParser.parse<DifyInfoResponse>(infoDataText);
     } catch (parseError) {
-      this.handleParseError(parseError, "/info");
+      handleParseError(parseError, "/info");
     }
   }
   
@@ -158,7 +249,7 @@ export class DifyApiClient implements DifyClient {
     const paramsResponse = await this.httpClient.request(url, { headers });
 
     if (!paramsResponse.ok) {
-      await this.handleApiResponseError(paramsResponse, "/parameters", apiKey);
+      await handleApiResponseError(paramsResponse, "/parameters", apiKey);
     }
 
     const paramsDataText = await paramsResponse.text();
@@ -166,12 +257,16 @@ export class DifyApiClient implements DifyClient {
     try {
       return this.responseParser.parse<DifyParametersResponse>(paramsDataText);
     } catch (parseError) {
-      this.handleParseError(parseError, "/parameters");
+      handleParseError(parseError, "/parameters");
     }
   }
   
   // /workflows/run エンドポイントにリクエスト
-  async runWorkflow(apiKey: string, params: Record<string, any>): Promise<DifyWorkflowResponse> {
+  async runWorkflow(
+    apiKey: string,
+    params: Record<string, any>,
+    options: WorkflowRunOptions = {}
+  ): Promise<DifyWorkflowResponse> {
     const url = this.getEndpointUrl("/workflows/run");
     const headers = this.createHeaders(apiKey);
     const apiConfig = this.config.getApiRequestConfig();
@@ -185,11 +280,16 @@ export class DifyApiClient implements DifyClient {
     const response = await this.httpClient.request(url, {
       method: "POST",
       headers,
-      body
+      body,
+      signal: options.signal
     });
     
     if (!response.ok) {
-      await this.handleApiResponseError(response, "/workflows/run", apiKey);
+      await handleApiResponseError(response, "/workflows/run", apiKey);
+    }
+    
+    if (apiConfig.responseMode === "streaming") {
+      return this.readWorkflowStream(response, options.onEvent);
     }
     
     const resultText = await response.text();
@@ -199,7 +299,436 @@ export class DifyApiClient implements DifyClient {
     } catch (parseError) {
       console.error("Failed to parse workflow execution response:", parseError);
       console.error("Response text:", resultText);
-      this.handleParseError(parseError, "/workflows/run");
+      handleParseError(parseError, "/workflows/run");
+    }
+  }
+  
+  // /workflows/tasks/{task_id}/stop エンドポイントにリクエスト（ストリーミング実行中のタスクを停止）
+  async stopWorkflowTask(apiKey: string, taskId: string): Promise<DifyStopWorkflowResponse> {
+    const endpoint = `/workflows/tasks/${encodeURIComponent(taskId)}/stop`;
+    const url = this.getEndpointUrl(endpoint);
+    const headers = this.createHeaders(apiKey);
+    const apiConfig = this.config.getApiRequestConfig();
+    
+    const response = await this.httpClient.request(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ user: apiConfig.userId })
+    });
+    
+    if (!response.ok) {
+      await handleApiResponseError(response, endpoint, apiKey);
+    }
+    
+    const resultText = await response.text();
+    
+    try {
+      return this.responseParser.parse<DifyStopWorkflowResponse>(resultText);
+    } catch (parseError) {
+      handleParseError(parseError, endpoint);
+    }
+  }
+  
+  // /chat-messages エンドポイントにリクエスト（チャットフロー・チャットボットアプリ）
+  async sendChatMessage(
+    apiKey: string,
+    request: ChatMessageRequest,
+    options: WorkflowRunOptions = {}
+  ): Promise<DifyChatMessageResponse> {
+    const url = this.getEndpointUrl("/chat-messages");
+    const headers = this.createHeaders(apiKey);
+    const apiConfig = this.config.getApiRequestConfig();
+    const responseMode = request.response_mode || apiConfig.responseMode;
+    
+    const body = JSON.stringify({
+      query: request.query,
+      inputs: request.inputs,
+      conversation_id: request.conversation_id || "",
+      response_mode: responseMode,
+      user: apiConfig.userId
+    });
+    
+    const response = await this.httpClient.request(url, {
+      method: "POST",
+      headers,
+      body,
+      signal: options.signal
+    });
+    
+    if (!response.ok) {
+      console.error(`Chat message failed: conversation_id=${request.conversation_id || "(new)"}`);
+      await handleApiResponseError(response, "/chat-messages", apiKey);
+    }
+    
+    if (responseMode === "streaming") {
+      return this.readMessageStream(response, options.onEvent);
+    }
+    
+    const resultText = await response.text();
+    
+    try {
+      return this.responseParser.parse<DifyChatMessageResponse>(resultText);
+    } catch (parseError) {
+      console.error("Response text:", resultText);
+      handleParseError(parseError, "/chat-messages");
     }
   }
-} 
\ No newline at end of file
+  
+  // /chat-messages/{task_id}/stop エンドポイントにリクエスト（ストリーミング中の回答生成を停止）
+  async stopChatMessage(apiKey: string, taskId: string): Promise<DifyStopWorkflowResponse> {
+    const endpoint = `/chat-messages/${encodeURIComponent(taskId)}/stop`;
+    const url = this.getEndpointUrl(endpoint);
+    const headers = this.createHeaders(apiKey);
+    const apiConfig = this.config.getApiRequestConfig();
+    
+    const response = await this.httpClient.request(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ user: apiConfig.userId })
+    });
+    
+    if (!response.ok) {
+      await handleApiResponseError(response, endpoint, apiKey);
+    }
+    
+    const resultText = await response.text();
+    
+    try {
+      return this.responseParser.parse<DifyStopWorkflowResponse>(resultText);
+    } catch (parseError) {
+      handleParseError(parseError, endpoint);
+    }
+  }
+  
+  // /completion-messages エンドポイントにリクエスト（テキスト生成アプリ）
+  async sendCompletionMessage(
+    apiKey: string,
+    inputs: Record<string, any>,
+    options: WorkflowRunOptions = {}
+  ): Promise<DifyChatMessageResponse> {
+    const url = this.getEndpointUrl("/completion-messages");
+    const headers = this.createHeaders(apiKey);
+    const apiConfig = this.config.getApiRequestConfig();
+    
+    const body = JSON.stringify({
+      inputs,
+      response_mode: apiConfig.responseMode,
+      user: apiConfig.userId
+    });
+    
+    const response = await this.httpClient.request(url, {
+      method: "POST",
+      headers,
+      body,
+      signal: options.signal
+    });
+    
+    if (!response.ok) {
+      await handleApiResponseError(response, "/completion-messages", apiKey);
+    }
+    
+    if (apiConfig.responseMode === "streaming") {
+      return this.readMessageStream(response, options.onEvent);
+    }
+    
+    const resultText = await response.text();
+    
+    try {
+      return this.responseParser.parse<DifyChatMessageResponse>(resultText);
+    } catch (parseError) {
+      console.error("Response text:", resultText);
+      handleParseError(parseError, "/completion-messages");
+    }
+  }
+  
+  // /completion-messages/{task_id}/stop エンドポイントにリクエスト（ストリーミング中のテキスト生成を停止）
+  async stopCompletionMessage(apiKey: string, taskId: string): Promise<DifyStopWorkflowResponse> {
+    const endpoint = `/completion-messages/${encodeURIComponent(taskId)}/stop`;
+    const url = this.getEndpointUrl(endpoint);
+    const headers = this.createHeaders(apiKey);
+    const apiConfig = this.config.getApiRequestConfig();
+    
+    const response = await this.httpClient.request(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ user: apiConfig.userId })
+    });
+    
+    if (!response.ok) {
+      await handleApiResponseError(response, endpoint, apiKey);
+    }
+    
+    const resultText = await response.text();
+    
+    try {
+      return this.responseParser.parse<DifyStopWorkflowResponse>(resultText);
+    } catch (parseError) {
+      handleParseError(parseError, endpoint);
+    }
+  }
+  
+  // /workflows/run/{workflow_run_id} エンドポイントにリクエスト（ワークフロー実行の詳細）
+  async getWorkflowRun(apiKey: string, workflowRunId: string): Promise<DifyWorkflowRunDetail> {
+    return this.requestJson<DifyWorkflowRunDetail>(apiKey, `/workflows/run/${encodeURIComponent(workflowRunId)}`);
+  }
+  
+  // /workflows/logs エンドポイントにリクエスト（ワークフローの実行ログ）
+  async getWorkflowLogs(apiKey: string, options: WorkflowLogListOptions = {}): Promise<DifyWorkflowLogListResponse> {
+    return this.requestJson<DifyWorkflowLogListResponse>(apiKey, "/workflows/logs", {
+      query: { ...options }
+    });
+  }
+  
+  // /conversations エンドポイントにリクエスト（ユーザーの会話一覧）
+  async listConversations(apiKey: string, options: ConversationListOptions = {}): Promise<DifyConversationListResponse> {
+    return this.requestJson<DifyConversationListResponse>(apiKey, "/conversations", {
+      query: { ...options }
+    });
+  }
+  
+  // /messages エンドポイントにリクエスト（会話のメッセージ履歴）
+  async getMessages(
+    apiKey: string,
+    conversationId: string,
+    options: MessageListOptions = {}
+  ): Promise<DifyMessageListResponse> {
+    return this.requestJson<DifyMessageListResponse>(apiKey, "/messages", {
+      query: { conversation_id: conversationId, ...options }
+    });
+  }
+  
+  // /conversations/{conversation_id}/name エンドポイントにリクエスト（会話の名前変更）
+  async renameConversation(
+    apiKey: string,
+    conversationId: string,
+    options: ConversationRenameOptions
+  ): Promise<DifyConversation> {
+    return this.requestJson<DifyConversation>(apiKey, `/conversations/${encodeURIComponent(conversationId)}/name`, {
+      method: "POST",
+      body: { name: options.name, auto_generate: options.auto_generate ?? false }
+    });
+  }
+  
+  // /conversations/{conversation_id} エンドポイントにリクエスト（会話の削除。本文のない 204 の場合は undefined を返す）
+  async deleteConversation(apiKey: string, conversationId: string): Promise<DifyDeleteResponse | undefined> {
+    return this.requestOptionalJson<DifyDeleteResponse>(apiKey, `/conversations/${encodeURIComponent(conversationId)}`, {
+      method: "DELETE",
+      body: {}
+    });
+  }
+  
+  // /messages/{message_id}/feedbacks エンドポイントにリクエスト（メッセージの評価）
+  async sendMessageFeedback(apiKey: string, messageId: string, feedback: MessageFeedback): Promise<DifyFeedbackResponse> {
+    return this.requestJson<DifyFeedbackResponse>(apiKey, `/messages/${encodeURIComponent(messageId)}/feedbacks`, {
+      method: "POST",
+      body: { rating: feedback.rating, content: feedback.content }
+    });
+  }
+  
+  // /text-to-audio エンドポイントにリクエスト（テキストまたはメッセージを音声に変換）
+  async textToAudio(apiKey: string, request: TextToAudioRequest): Promise<AudioData> {
+    const url = this.getEndpointUrl("/text-to-audio");
+    const headers = this.createHeaders(apiKey);
+    const apiConfig = this.config.getApiRequestConfig();
+    
+    const response = await this.httpClient.request(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        text: request.text,
+        message_id: request.message_id,
+        user: apiConfig.userId
+      })
+    });
+    
+    if (!response.ok) {
+      console.error(`Text to audio failed: message_id=${request.message_id || "(none)"}, text length=${request.text?.length ?? 0}`);
+      await handleApiResponseError(response, "/text-to-audio", apiKey);
+    }
+    
+    const data = await this.readBinaryBody(response);
+    const mimeType = normalizeAudioMimeType(response.headers?.get("content-type"));
+    
+    // 音声を生成できなかった場合、Difyはエラーを200のJSONで返すことがある
+    if (mimeType === "application/json") {
+      console.error(`/text-to-audio returned JSON instead of audio: ${data.toString("utf8")}`);
+      throw new Error(`/text-to-audio API did not return audio. Response: ${data.toString("utf8")}`);
+    }
+    
+    return { data, mimeType };
+  }
+  
+  // /audio-to-text エンドポイントにリクエスト（音声ファイルの文字起こし）
+  async audioToText(apiKey: string, file: FileUpload): Promise<DifyAudioToTextResponse> {
+    const url = this.getEndpointUrl("/audio-to-text");
+    const headers = this.createMultipartHeaders(apiKey);
+    const apiConfig = this.config.getApiRequestConfig();
+    
+    const body = new FormData();
+    body.append("file", new Blob([file.data], { type: file.mimeType || "application/octet-stream" }), file.filename);
+    body.append("user", apiConfig.userId);
+    
+    const response = await this.httpClient.request(url, {
+      method: "POST",
+      headers,
+      body
+    });
+    
+    if (!response.ok) {
+      console.error(`Audio to text failed: filename=${file.filename}, size=${file.data.length} bytes`);
+      await handleApiResponseError(response, "/audio-to-text", apiKey);
+    }
+    
+    const resultText = await response.text();
+    
+    try {
+      return this.responseParser.parse<DifyAudioToTextResponse>(resultText);
+    } catch (parseError) {
+      handleParseError(parseError, "/audio-to-text");
+    }
+  }
+  
+  // /files/upload エンドポイントにリクエスト（ワークフロー入力用のファイルをアップロード）
+  async uploadFile(apiKey: string, file: FileUpload): Promise<DifyFileUploadResponse> {
+    const url = this.getEndpointUrl("/files/upload");
+    const headers = this.createMultipartHeaders(apiKey);
+    const apiConfig = this.config.getApiRequestConfig();
+    
+    const body = new FormData();
+    body.append("file", new Blob([file.data], { type: file.mimeType || "application/octet-stream" }), file.filename);
+    body.append("user", apiConfig.userId);
+    
+    const response = await this.httpClient.request(url, {
+      method: "POST",
+      headers,
+      body
+    });
+    
+    if (!response.ok) {
+      console.error(`File upload failed: filename=${file.filename}, size=${file.data.length} bytes`);
+      await handleApiResponseError(response, "/files/upload", apiKey);
+    }
+    
+    const resultText = await response.text();
+    
+    try {
+      return this.responseParser.parse<DifyFileUploadResponse>(resultText);
+    } catch (parseError) {
+      handleParseError(parseError, "/files/upload");
+    }
+  }
+  
+  // ストリーミングレスポンスを読み込み、workflow_finished イベントから結果を組み立てる
+  private async readWorkflowStream(
+    response: HttpResponse,
+    onEvent?: StreamEventHandler
+  ): Promise<DifyWorkflowResponse> {
+    const chunks = response.body ?? [await response.text()];
+    
+    try {
+      return await collectWorkflowResponse(parseSseStream(chunks), onEvent);
+    } catch (streamError) {
+      console.error("Failed to read workflow execution stream:", streamError);
+      if (streamError instanceof Error) {
+        console.error(`Error stack: ${streamError.stack}`);
+      }
+      throw streamError;
+    }
+  }
+  
+  // チャット・テキスト生成のストリーミングレスポンスを読み込み、message_end イベントまでの回答を組み立てる
+  private async readMessageStream(
+    response: HttpResponse,
+    onEvent?: StreamEventHandler
+  ): Promise<DifyChatMessageResponse> {
+    const chunks = response.body ?? [await response.text()];
+    
+    try {
+      return await collectChatMessageResponse(parseSseStream(chunks), onEvent);
+    } catch (streamError) {
+      console.error("Failed to read message stream:", streamError);
+      if (streamError instanceof Error) {
+        console.error(`Error stack: ${streamError.stack}`);
+      }
+      throw streamError;
+    }
+  }
+  
+  // バイナリのレスポンス本文を読み込む
+  private async readBinaryBody(response: HttpResponse): Promise<Buffer> {
+    if (response.arrayBuffer) {
+      return Buffer.from(await response.arrayBuffer());
+    }
+    
+    const chunks: Buffer[] = [];
+    for await (const chunk of response.body ?? [await response.text()]) {
+      chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+  
+  // JSON APIにリクエストし、レスポンスを解析する（本文のないレスポンスはエラーとする）
+  private async requestJson<T>(apiKey: string, endpoint: string, options: JsonRequestOptions = {}): Promise<T> {
+    const result = await this.requestOptionalJson<T>(apiKey, endpoint, options);
+    if (result === undefined) {
+      throw new Error(`${endpoint} API returned an empty response`);
+    }
+    return result;
+  }
+
+  // JSON APIにリクエストし、レスポンスを解析する
+  // ユーザーIDはGETの場合はクエリ、それ以外の場合は本文に付与する
+  // 204 No Content など本文のない成功レスポンスの場合は undefined を返す
+  private async requestOptionalJson<T>(apiKey: string, endpoint: string, options: JsonRequestOptions = {}): Promise<T | undefined> {
+    const apiConfig = this.config.getApiRequestConfig();
+    const method = options.method || "GET";
+    
+    const query = new URLSearchParams();
+    const queryParams = method === "GET" ? { ...options.query, user: apiConfig.userId } : { ...options.query };
+    for (const [key, value] of Object.entries(queryParams)) {
+      if (value !== undefined && value !== "") {
+        query.append(key, String(value));
+      }
+    }
+    const queryString = query.toString();
+    const url = this.getEndpointUrl(queryString ? `${endpoint}?${queryString}` : endpoint);
+    
+    const response = await this.httpClient.request(url, {
+      method,
+      headers: this.createHeaders(apiKey),
+      body: method === "GET" ? undefined : JSON.stringify({ ...options.body, user: apiConfig.userId })
+    });
+    
+    if (!response.ok) {
+      console.error(`${method} ${endpoint} failed. Query: ${queryString || "(none)"}, Body: ${JSON.stringify(options.body ?? null)}`);
+      await handleApiResponseError(response, endpoint, apiKey);
+    }
+    
+    const resultText = await response.text();
+    
+    if (!resultText.trim()) {
+      return undefined;
+    }
+    
+    try {
+      return this.responseParser.parse<T>(resultText);
+    } catch (parseError) {
+      handleParseError(parseError, endpoint);
+    }
+  }
+}
+
+/**
+ * Content-Type ヘッダーから音声のMIMEタイプを取り出す
+ * パラメーターを取り除き、Difyが返す非標準の audio/mp3 を audio/mpeg に変換する
+ */
+export function normalizeAudioMimeType(contentType: string | null | undefined): string {
+  const mimeType = contentType?.split(";")[0].trim().toLowerCase();
+  if (!mimeType || mimeType === "application/octet-stream") {
+    return DEFAULT_AUDIO_MIME_TYPE;
+  }
+  if (mimeType === "audio/mp3") {
+    return "audio/mpeg";
+  }
+  return mimeType;
+}
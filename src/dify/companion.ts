@@ -0,0 +1,440 @@
+import { Tool, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { DifyWorkflowLogStatus } from "../types.js";
+import { WorkflowData } from "./service.js";
+import { getUniqueWorkflowName, READ_ONLY_TOOL_ANNOTATIONS } from "./converter.js";
+import { isChatAppMode, detectAppMode } from "./mode.js";
+
+/**
+ * 補助ツールの操作の種類
+ */
+export type CompanionToolAction =
+  | "list-conversations"
+  | "get-messages"
+  | "rename-conversation"
+  | "delete-conversation"
+  | "send-feedback"
+  | "text-to-audio"
+  | "speech-to-text"
+  | "get-workflow-run"
+  | "workflow-logs";
+
+/**
+ * アプリのツールに付随して生成する補助ツールの定義
+ * MCPツールの定義と、実行時に使用するアプリの情報を保持する
+ */
+export interface CompanionTool {
+  tool: Tool;
+  action: CompanionToolAction;
+  // 補助ツールが属するアプリのツール名
+  appToolName: string;
+  apiKey: string;
+}
+
+/**
+ * 補助ツールの操作ごとのアノテーション
+ * 会話やフィードバックはDifyに保存されたデータのみを変更するため、openWorldHint は無効にする
+ */
+export const COMPANION_TOOL_ANNOTATIONS: Record<CompanionToolAction, ToolAnnotations> = {
+  "list-conversations": READ_ONLY_TOOL_ANNOTATIONS,
+  "get-messages": READ_ONLY_TOOL_ANNOTATIONS,
+  "rename-conversation": {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false
+  },
+  "delete-conversation": {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false
+  },
+  // 同じメッセージへの評価は上書きされる
+  "send-feedback": {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false
+  },
+  "text-to-audio": READ_ONLY_TOOL_ANNOTATIONS,
+  "speech-to-text": READ_ONLY_TOOL_ANNOTATIONS,
+  "get-workflow-run": READ_ONLY_TOOL_ANNOTATIONS,
+  "workflow-logs": READ_ONLY_TOOL_ANNOTATIONS
+};
+
+/**
+ * 補助ツールのアノテーションを作成する
+ */
+function createCompanionToolAnnotations(action: CompanionToolAction, name: string): ToolAnnotations {
+  return {
+    title: name,
+    ...COMPANION_TOOL_ANNOTATIONS[action]
+  };
+}
+
+/**
+ * 会話IDのプロパティ
+ */
+const CONVERSATION_ID_PROPERTY = {
+  type: "string",
+  description: "ID of the conversation (conversation_id returned by the chat tool)"
+};
+
+/**
+ * ページあたりの件数のプロパティ
+ */
+const LIMIT_PROPERTY = {
+  type: "integer",
+  description: "Number of items to return per page",
+  minimum: 1,
+  maximum: 100,
+  default: 20
+};
+
+/**
+ * 実行ログの絞り込みに指定できる実行ステータス
+ */
+export const WORKFLOW_LOG_STATUSES: DifyWorkflowLogStatus[] = ["succeeded", "failed", "stopped"];
+
+/**
+ * チャットアプリの会話管理ツール（一覧・履歴・名前変更・削除）を作成する
+ */
+export function createConversationTools(
+  appToolName: string,
+  apiKey: string,
+  existingNames: Set<string>
+): CompanionTool[] {
+  const definitions: Array<{ action: CompanionToolAction; description: string; inputSchema: Tool["inputSchema"] }> = [
+    {
+      action: "list-conversations",
+      description: `List conversations of Dify chat app '${appToolName}', most recently updated first`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          limit: LIMIT_PROPERTY,
+          last_id: {
+            type: "string",
+            description: "ID of the last conversation on the previous page (for pagination)"
+          },
+          sort_by: {
+            type: "string",
+            description: "Sort order. Prefix with '-' for descending order.",
+            enum: ["created_at", "-created_at", "updated_at", "-updated_at"],
+            default: "-updated_at"
+          }
+        },
+        required: []
+      }
+    },
+    {
+      action: "get-messages",
+      description: `Get the message history of a conversation in Dify chat app '${appToolName}'`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          conversation_id: CONVERSATION_ID_PROPERTY,
+          limit: LIMIT_PROPERTY,
+          first_id: {
+            type: "string",
+            description: "ID of the first message on the previous page (for pagination)"
+          }
+        },
+        required: ["conversation_id"]
+      }
+    },
+    {
+      action: "rename-conversation",
+      description: `Rename a conversation in Dify chat app '${appToolName}'`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          conversation_id: CONVERSATION_ID_PROPERTY,
+          name: {
+            type: "string",
+            description: "New name of the conversation. Required unless auto_generate is true."
+          },
+          auto_generate: {
+            type: "boolean",
+            description: "Let Dify generate the name from the conversation",
+            default: false
+          }
+        },
+        required: ["conversation_id"]
+      }
+    },
+    {
+      action: "delete-conversation",
+      description: `Delete a conversation in Dify chat app '${appToolName}'`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          conversation_id: CONVERSATION_ID_PROPERTY
+        },
+        required: ["conversation_id"]
+      }
+    }
+  ];
+
+  return definitions.map(({ action, description, inputSchema }) => {
+    const name = getUniqueWorkflowName(`${appToolName}-${action}`, existingNames);
+    existingNames.add(name);
+
+    return {
+      tool: { name, description, inputSchema, annotations: createCompanionToolAnnotations(action, name) },
+      action,
+      appToolName,
+      apiKey
+    };
+  });
+}
+
+/**
+ * チャットアプリのメッセージにフィードバックを送信するツールを作成する
+ */
+export function createFeedbackTool(appToolName: string, apiKey: string, existingNames: Set<string>): CompanionTool {
+  const name = getUniqueWorkflowName(`${appToolName}-send-feedback`, existingNames);
+  existingNames.add(name);
+
+  return {
+    tool: {
+      name,
+      description: `Rate an answer of Dify chat app '${appToolName}' so that the app owners can review its quality`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          message_id: {
+            type: "string",
+            description: "ID of the message to rate (message_id returned by the chat tool)"
+          },
+          rating: {
+            type: "string",
+            description: "Rating of the answer (allowed values: \"like\", \"dislike\")",
+            enum: ["like", "dislike"]
+          },
+          content: {
+            type: "string",
+            description: "Optional comment explaining the rating"
+          }
+        },
+        required: ["message_id", "rating"]
+      },
+      annotations: createCompanionToolAnnotations("send-feedback", name)
+    },
+    action: "send-feedback",
+    appToolName,
+    apiKey
+  };
+}
+
+/**
+ * テキスト読み上げが有効なアプリの音声変換ツールを作成する
+ * チャットアプリではテキストの代わりに回答のメッセージIDを指定できる
+ */
+export function createTextToAudioTool(
+  appToolName: string,
+  apiKey: string,
+  isChatApp: boolean,
+  existingNames: Set<string>
+): CompanionTool {
+  const name = getUniqueWorkflowName(`${appToolName}-text-to-audio`, existingNames);
+  existingNames.add(name);
+
+  const textProperty = {
+    type: "string",
+    description: "Text to convert to speech"
+  };
+
+  const inputSchema: Tool["inputSchema"] = isChatApp
+    ? {
+        type: "object",
+        properties: {
+          text: { ...textProperty, description: "Text to convert to speech. Required unless message_id is given." },
+          message_id: {
+            type: "string",
+            description: "ID of an answer to read aloud (message_id returned by the chat tool). Takes precedence over text."
+          }
+        },
+        required: []
+      }
+    : {
+        type: "object",
+        properties: { text: textProperty },
+        required: ["text"]
+      };
+
+  return {
+    tool: {
+      name,
+      description: `Convert text to speech with the voice settings of Dify app '${appToolName}'`,
+      inputSchema,
+      annotations: createCompanionToolAnnotations("text-to-audio", name)
+    },
+    action: "text-to-audio",
+    appToolName,
+    apiKey
+  };
+}
+
+/**
+ * 音声認識が有効なアプリの文字起こしツールを作成する
+ */
+export function createSpeechToTextTool(appToolName: string, apiKey: string, existingNames: Set<string>): CompanionTool {
+  const name = getUniqueWorkflowName(`${appToolName}-speech-to-text`, existingNames);
+  existingNames.add(name);
+
+  return {
+    tool: {
+      name,
+      description: `Transcribe an audio file to text with the speech recognition of Dify app '${appToolName}'`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          audio: {
+            type: "object",
+            description: "Audio file to transcribe. Specify exactly one of 'content' or 'path'. Supported formats: mp3, mp4, mpeg, mpga, m4a, wav, webm.",
+            properties: {
+              content: {
+                type: "string",
+                description: "Base64 encoded audio. 'filename' is required with this option."
+              },
+              path: {
+                type: "string",
+                description: "Path of a local audio file under the directory the MCP server allows (DIFY_LOCAL_FILE_ROOT). Disabled unless configured."
+              },
+              filename: {
+                type: "string",
+                description: "File name including extension (Dify detects the audio format from it)"
+              },
+              mime_type: {
+                type: "string",
+                description: "MIME type of the audio (optional)"
+              }
+            }
+          }
+        },
+        required: ["audio"]
+      },
+      annotations: createCompanionToolAnnotations("speech-to-text", name)
+    },
+    action: "speech-to-text",
+    appToolName,
+    apiKey
+  };
+}
+
+/**
+ * ワークフローアプリの実行結果を実行IDで照会するツールを作成する
+ * クライアント側でタイムアウトした実行の結果を後から取得するために使用する
+ */
+export function createWorkflowRunTool(appToolName: string, apiKey: string, existingNames: Set<string>): CompanionTool {
+  const name = getUniqueWorkflowName(`${appToolName}-get-workflow-run`, existingNames);
+  existingNames.add(name);
+
+  return {
+    tool: {
+      name,
+      description: `Get the status, outputs and error of a run of Dify workflow '${appToolName}'`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          workflow_run_id: {
+            type: "string",
+            description: "ID of the workflow run (workflow_run_id returned by the workflow tool)"
+          }
+        },
+        required: ["workflow_run_id"]
+      },
+      annotations: createCompanionToolAnnotations("get-workflow-run", name)
+    },
+    action: "get-workflow-run",
+    appToolName,
+    apiKey
+  };
+}
+
+/**
+ * ワークフローアプリの実行ログを検索するツールを作成する
+ */
+export function createWorkflowLogsTool(appToolName: string, apiKey: string, existingNames: Set<string>): CompanionTool {
+  const name = getUniqueWorkflowName(`${appToolName}-workflow-logs`, existingNames);
+  existingNames.add(name);
+
+  return {
+    tool: {
+      name,
+      description: `List execution logs of Dify workflow '${appToolName}', most recent first`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          status: {
+            type: "string",
+            description: "Only return runs with this status",
+            enum: WORKFLOW_LOG_STATUSES
+          },
+          keyword: {
+            type: "string",
+            description: "Only return runs whose inputs or outputs contain this keyword"
+          },
+          page: {
+            type: "integer",
+            description: "Page number (starting from 1)",
+            minimum: 1,
+            default: 1
+          },
+          limit: LIMIT_PROPERTY
+        },
+        required: []
+      },
+      annotations: createCompanionToolAnnotations("workflow-logs", name)
+    },
+    action: "workflow-logs",
+    appToolName,
+    apiKey
+  };
+}
+
+/**
+ * アプリのオプションに応じて補助ツールを作成する
+ * workflowTools は workflowDataList と同じ順序で変換されたアプリのツール
+ */
+export function createCompanionTools(workflowDataList: WorkflowData[], workflowTools: Tool[]): CompanionTool[] {
+  const existingNames = new Set(workflowTools.map(tool => tool.name));
+  const companionTools: CompanionTool[] = [];
+
+  workflowDataList.forEach((workflowData, index) => {
+    const appTool = workflowTools[index];
+    if (!appTool) {
+      return;
+    }
+
+    const mode = workflowData.mode || detectAppMode(workflowData.infoData, workflowData.paramsData);
+    const options = workflowData.options || {};
+
+    if (isChatAppMode(mode) && options.conversationTools) {
+      companionTools.push(...createConversationTools(appTool.name, workflowData.apiKey, existingNames));
+    }
+
+    if (isChatAppMode(mode) && options.feedbackTool) {
+      companionTools.push(createFeedbackTool(appTool.name, workflowData.apiKey, existingNames));
+    }
+
+    if (mode === "workflow" && options.workflowRunTool) {
+      companionTools.push(createWorkflowRunTool(appTool.name, workflowData.apiKey, existingNames));
+    }
+
+    if (mode === "workflow" && options.workflowLogsTool) {
+      companionTools.push(createWorkflowLogsTool(appTool.name, workflowData.apiKey, existingNames));
+    }
+
+    // テキスト読み上げと音声認識はオプションで有効にし、アプリの機能設定でも有効な場合に公開する
+    if (workflowData.paramsData.text_to_speech?.enabled && options.textToSpeechTool === true) {
+      companionTools.push(createTextToAudioTool(appTool.name, workflowData.apiKey, isChatAppMode(mode), existingNames));
+    }
+
+    if (workflowData.paramsData.speech_to_text?.enabled && options.speechToTextTool === true) {
+      companionTools.push(createSpeechToTextTool(appTool.name, workflowData.apiKey, existingNames));
+    }
+  });
+
+  return companionTools;
+}
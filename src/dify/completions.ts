@@ -0,0 +1,26 @@
+import { CompleteResult } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * 補完候補として一度に返す値の最大数（MCPの仕様による上限）
+ */
+export const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * 引数の補完結果
+ */
+export type ArgumentCompletion = CompleteResult["completion"];
+
+/**
+ * 補完候補のうち、入力中の値で始まるものを返す
+ * 大文字と小文字は区別せず、上限を超える候補は hasMore で示す
+ */
+export function completeArgumentValue(candidates: string[], value: string): ArgumentCompletion {
+  const prefix = value.toLowerCase();
+  const matches = candidates.filter(candidate => candidate.toLowerCase().startsWith(prefix));
+  
+  return {
+    values: matches.slice(0, MAX_COMPLETION_VALUES),
+    total: matches.length,
+    hasMore: matches.length > MAX_COMPLETION_VALUES
+  };
+}
@@ -1,15 +1,40 @@
 import { DifyInfoResponse, DifyParametersResponse, DifyInputField } from "../types.js";
-import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { Tool, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
 import { WorkflowData } from "./service.js";
+import { DifyAppMode, isChatAppMode, isCompletionAppMode, detectAppMode } from "./mode.js";
 
 /**
- * パラメータプロパティの型定義
+ * JSON Schemaで列挙値として使用できる値の型
+ */
+export type JsonSchemaEnumValue = string | number | boolean | null;
+
+/**
+ * パラメータプロパティの型定義（ツールのinputSchemaに埋め込むJSON Schemaの断片）
  */
 export interface ParameterProperty {
   type: string;
   description: string;
+  enum?: JsonSchemaEnumValue[];
+  default?: unknown;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, ParameterProperty>;
+  required?: string[];
+  items?: ParameterProperty;
+  maxItems?: number;
 }
 
+/**
+ * チャットアプリのツールでメッセージ送信に使用する引数名
+ */
+export const CHAT_MESSAGE_PROPERTY_NAMES = ["query", "conversation_id"];
+
+/**
+ * 選択肢（options）を持つDifyのコンポーネントタイプ
+ */
+export const OPTION_COMPONENT_TYPES = ["select", "radio"];
+
 /**
  * パラメータ抽出結果の型定義
  */
@@ -65,14 +90,7 @@ export function extractPropertiesFromUserInputForm(
       }
       
       const paramName = typedField.variable;
-      
-      // Determine parameter type based on component type
-      const paramType = determineParameterType(componentType);
-      
-      properties[paramName] = {
-        type: paramType,
-        description: typedField.label || paramName
-      };
+      properties[paramName] = createPropertyFromInputField(componentType, typedField);
       
       if (typedField.required) {
         required.push(paramName);
@@ -83,6 +101,199 @@ export function extractPropertiesFromUserInputForm(
   return { properties, required };
 }
 
+/**
+ * ユーザー入力フォームの1フィールドをJSON Schemaのプロパティに変換する
+ * 型に加えて、選択肢・文字数制限・数値の範囲・デフォルト値を反映する
+ */
+export function createPropertyFromInputField(componentType: string, field: DifyInputField): ParameterProperty {
+  const label = field.label || field.variable;
+  
+  if (componentType === "file" || componentType === "file-list") {
+    // File inputs accept base64 content, a local path or a URL
+    const fileProperty = createFileInputProperty(label, field.allowed_file_types);
+    if (componentType === "file") {
+      return fileProperty;
+    }
+    
+    // For file lists, Dify's max_length is the maximum number of files
+    const property: ParameterProperty = { type: "array", description: fileProperty.description, items: fileProperty };
+    const maxItems = toFiniteNumber(field.max_length);
+    if (maxItems !== undefined && maxItems > 0) {
+      property.maxItems = maxItems;
+    }
+    return property;
+  }
+  
+  const options = OPTION_COMPONENT_TYPES.includes(componentType) ? extractFieldOptions(field) : [];
+  const property: ParameterProperty = options.length > 0
+    // Restrict select inputs to the options defined in Dify
+    ? createOptionProperty(label, options)
+    : { type: determineParameterType(componentType), description: label };
+  
+  if (componentType === "paragraph") {
+    property.description = `${label} (multi-line text, line breaks are allowed)`;
+  }
+  
+  if (property.type === "string" && !property.enum) {
+    const maxLength = toFiniteNumber(field.max_length);
+    if (maxLength !== undefined && maxLength > 0) {
+      property.maxLength = maxLength;
+    }
+  }
+  
+  if (property.type === "number") {
+    const minimum = toFiniteNumber(field.min);
+    const maximum = toFiniteNumber(field.max);
+    if (minimum !== undefined) {
+      property.minimum = minimum;
+    }
+    if (maximum !== undefined) {
+      property.maximum = maximum;
+    }
+  }
+  
+  const defaultValue = convertDefaultValue(property, field.default);
+  if (defaultValue !== undefined) {
+    property.default = defaultValue;
+  }
+  
+  return property;
+}
+
+/**
+ * Difyのデフォルト値をプロパティの型に合わせて変換する
+ * 空文字列や型に合わない値、選択肢にない値の場合はundefinedを返す
+ */
+export function convertDefaultValue(property: ParameterProperty, value: unknown): unknown {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  
+  switch (property.type) {
+    case "number":
+      return toFiniteNumber(value);
+    case "boolean":
+      if (typeof value === "boolean") {
+        return value;
+      }
+      return value === "true" ? true : value === "false" ? false : undefined;
+    case "string":
+      if (typeof value !== "string" && typeof value !== "number") {
+        return undefined;
+      }
+      if (property.enum && !property.enum.includes(String(value))) {
+        return undefined;
+      }
+      return String(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * 数値または数値文字列を有限の数値に変換する
+ * 変換できない場合はundefinedを返す
+ */
+function toFiniteNumber(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * 入力フィールドの選択肢を取得する
+ * 文字列以外の値や空文字列は除外する
+ */
+export function extractFieldOptions(field: DifyInputField): string[] {
+  if (!Array.isArray(field.options)) {
+    return [];
+  }
+  
+  return field.options.filter((option: unknown): option is string => typeof option === "string" && option !== "");
+}
+
+/**
+ * ユーザー入力フォームから、選択肢を持つ入力フィールドの選択肢を変数名ごとに取得する
+ * 古い parameters 形式には選択肢がないため、user_input_form のみを対象とする
+ */
+export function extractSelectFieldOptions(paramsData: DifyParametersResponse): Record<string, string[]> {
+  const selectFieldOptions: Record<string, string[]> = {};
+  
+  for (const component of paramsData.user_input_form || []) {
+    for (const [componentType, field] of Object.entries(component)) {
+      if (!OPTION_COMPONENT_TYPES.includes(componentType) || !field?.variable) {
+        continue;
+      }
+      const options = extractFieldOptions(field);
+      if (options.length > 0) {
+        selectFieldOptions[field.variable] = options;
+      }
+    }
+  }
+  
+  return selectFieldOptions;
+}
+
+/**
+ * 選択肢を持つ入力のプロパティを作成する
+ * 許可される値をenumと説明文の両方に含める
+ */
+export function createOptionProperty(label: string, options: string[]): ParameterProperty {
+  const allowedValuesText = options.map(option => JSON.stringify(option)).join(", ");
+  
+  return {
+    type: "string",
+    description: `${label} (allowed values: ${allowedValuesText})`,
+    enum: [...options]
+  };
+}
+
+/**
+ * ファイル入力のプロパティを作成する
+ * Base64の内容、サーバー上のローカルパス、リモートURLのいずれかを受け付ける
+ */
+export function createFileInputProperty(label: string, allowedFileTypes?: string[]): ParameterProperty {
+  const allowedTypesText = Array.isArray(allowedFileTypes) && allowedFileTypes.length > 0
+    ? ` Allowed file types: ${allowedFileTypes.join(", ")}.`
+    : "";
+  
+  return {
+    type: "object",
+    description: `${label} (file). Specify exactly one of 'content', 'path' or 'url'.${allowedTypesText}`,
+    properties: {
+      content: {
+        type: "string",
+        description: "Base64 encoded file content. 'filename' is required with this option."
+      },
+      path: {
+        type: "string",
+        description: "Path of a local file under the directory the MCP server allows (DIFY_LOCAL_FILE_ROOT). Disabled unless configured."
+      },
+      url: {
+        type: "string",
+        description: "Publicly accessible URL of the file"
+      },
+      filename: {
+        type: "string",
+        description: "File name including extension (used to detect the file type)"
+      },
+      mime_type: {
+        type: "string",
+        description: "MIME type of the file (optional)"
+      },
+      type: {
+        type: "string",
+        description: "Dify file type: document, image, audio, video or custom (detected from the file name if omitted)"
+      }
+    }
+  };
+}
+
 /**
  * コンポーネントタイプに基づいてパラメータタイプを決定する
  */
@@ -207,6 +418,64 @@ export function getUniqueWorkflowName(baseName: string, existingNames: Set<strin
   return toolName;
 }
 
+/**
+ * Difyに保存されたデータを参照するだけのツールのアノテーション
+ * 補助ツールやナレッジベースのツールのうち、一覧・取得・検索を行うものに使用する
+ */
+export const READ_ONLY_TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  openWorldHint: false
+};
+
+/**
+ * チャットアプリのツールのアノテーションの既定値
+ * メッセージを送るたびに会話へ追加されるが、既存のデータは削除しない
+ */
+const CHAT_TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true
+};
+
+/**
+ * アプリのモードごとのツールのアノテーションの既定値
+ * Difyアプリは外部のLLMやツールを呼び出し、実行ごとに結果が変わるため openWorldHint を有効にし、idempotentHint は無効にする
+ */
+export const DEFAULT_TOOL_ANNOTATIONS: Record<DifyAppMode, ToolAnnotations> = {
+  // ワークフローはHTTPリクエストなどのノードで外部に書き込む場合があるが、既存のデータを削除するものとはみなさない
+  workflow: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true
+  },
+  "advanced-chat": CHAT_TOOL_ANNOTATIONS,
+  chat: CHAT_TOOL_ANNOTATIONS,
+  "agent-chat": CHAT_TOOL_ANNOTATIONS,
+  // テキスト生成アプリは入力からテキストを生成するだけで、状態を変更しない
+  completion: {
+    readOnlyHint: true,
+    openWorldHint: true
+  }
+};
+
+/**
+ * アプリのツールのアノテーションを作成する
+ * 設定で指定された項目はモードごとの既定値より優先する
+ */
+export function createToolAnnotations(
+  mode: DifyAppMode,
+  toolName: string,
+  annotations: ToolAnnotations = {}
+): ToolAnnotations {
+  return {
+    title: toolName,
+    ...DEFAULT_TOOL_ANNOTATIONS[mode],
+    ...annotations
+  };
+}
+
 /**
  * 単一のワークフローデータをMCPツールに変換する
  */
@@ -223,6 +492,43 @@ export function convertSingleWorkflowToTool(
   
   // Build inputSchema from parameter information
   const { properties, required } = extractPropertiesFromParameters(paramsData, logHandler);
+  const mode = workflowData.mode || detectAppMode(infoData, paramsData);
+  const outputSchema = workflowData.options?.outputSchema;
+  const annotations = createToolAnnotations(mode, toolName, workflowData.options?.annotations);
+  
+  // Structured content is only returned for the outputs of workflow apps
+  if (outputSchema && (isChatAppMode(mode) || isCompletionAppMode(mode))) {
+    logHandler.error(`Warning: outputSchema of '${toolName}' is ignored because '${mode}' apps do not return workflow outputs`);
+  }
+  
+  // Chat apps take the user message as 'query' in addition to the user_input_form inputs
+  if (isChatAppMode(mode)) {
+    const chatProperties = addChatMessageProperties(properties, required, toolName, logHandler);
+    return {
+      name: toolName,
+      description: infoData.description || "Send a message to Dify chat app",
+      inputSchema: {
+        type: "object",
+        properties: chatProperties.properties,
+        required: chatProperties.required
+      },
+      annotations
+    };
+  }
+  
+  // Text generator apps take only the user_input_form inputs
+  if (isCompletionAppMode(mode)) {
+    return {
+      name: toolName,
+      description: infoData.description || "Generate text with Dify text generator app",
+      inputSchema: {
+        type: "object",
+        properties: properties,
+        required: required
+      },
+      annotations
+    };
+  }
   
   return {
     name: toolName,
@@ -231,7 +537,72 @@ export function convertSingleWorkflowToTool(
       type: "object",
       properties: properties,
       required: required
+    },
+    // Workflow tools always return structured content, so declare its shape even without a configured schema
+    outputSchema: createWorkflowOutputSchema(outputSchema),
+    annotations
+  };
+}
+
+/**
+ * outputSchema が設定されていない場合に使用する outputs のスキーマ
+ */
+export const DEFAULT_WORKFLOW_OUTPUTS_SCHEMA = { type: "object" };
+
+/**
+ * ワークフローアプリのツールの outputSchema を作成する
+ * 構造化コンテンツは実行IDと outputs の組なので、設定された outputs のスキーマを outputs プロパティに割り当てる
+ * 設定されていない場合は outputs を任意のオブジェクトとして宣言する
+ */
+export function createWorkflowOutputSchema(
+  outputsSchema: Record<string, unknown> = DEFAULT_WORKFLOW_OUTPUTS_SCHEMA
+): NonNullable<Tool["outputSchema"]> {
+  return {
+    type: "object",
+    properties: {
+      workflow_run_id: {
+        type: "string",
+        description: "ID of the workflow run (pass it to the get-workflow-run tool to look up the run later)"
+      },
+      outputs: outputsSchema
+    },
+    required: ["outputs"]
+  };
+}
+
+/**
+ * チャットアプリ用のプロパティ（query と conversation_id）を追加する
+ * 同名の入力フィールドがある場合はチャット用のプロパティを優先する
+ */
+export function addChatMessageProperties(
+  properties: Record<string, ParameterProperty>,
+  required: string[],
+  toolName: string,
+  logHandler: LogHandler = new DefaultLogHandler()
+): ExtractedProperties {
+  for (const reservedName of CHAT_MESSAGE_PROPERTY_NAMES) {
+    if (reservedName in properties) {
+      logHandler.error(`Warning: Input field '${reservedName}' of chat app '${toolName}' conflicts with the chat message argument and is ignored`);
     }
+  }
+  
+  const inputProperties = Object.fromEntries(
+    Object.entries(properties).filter(([name]) => !CHAT_MESSAGE_PROPERTY_NAMES.includes(name))
+  );
+  
+  return {
+    properties: {
+      query: {
+        type: "string",
+        description: "Message sent to the chat app"
+      },
+      conversation_id: {
+        type: "string",
+        description: "ID of the conversation to continue. Omit to start a new conversation."
+      },
+      ...inputProperties
+    },
+    required: ["query", ...required.filter(name => !CHAT_MESSAGE_PROPERTY_NAMES.includes(name))]
   };
 }
 
@@ -0,0 +1,220 @@
+import {
+  DifyDataset,
+  DifyRetrievalModel,
+  DifyRetrieveResponse,
+  DifyDocumentResponse,
+  DifyDocumentListResponse,
+  DifyIndexingStatusResponse,
+  DifyDeleteResponse
+} from "../types.js";
+import { Config } from "../config.js";
+import {
+  HttpClient,
+  ResponseParser,
+  FetchHttpClient,
+  JsonResponseParser
+} from "./client.js";
+import { handleApiResponseError, handleParseError } from "./errors.js";
+
+// Dataset APIへのリクエストオプション
+interface DatasetRequestOptions {
+  method?: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: Record<string, any>;
+}
+
+// テキストからドキュメントを作成する際のリクエスト
+export interface DocumentCreateRequest {
+  name: string;
+  text: string;
+  // ナレッジベースにインデックス方式が設定されていない場合は必須
+  indexing_technique?: string;
+}
+
+// テキストでドキュメントを更新する際のリクエスト（指定した項目のみ更新される）
+export interface DocumentUpdateRequest {
+  name?: string;
+  text?: string;
+}
+
+// ドキュメント一覧の取得オプション
+export interface DocumentListOptions {
+  keyword?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Dify Dataset API（ナレッジベース）クライアントのインターフェース
+export interface DatasetClient {
+  getDataset(apiKey: string, datasetId: string): Promise<DifyDataset>;
+  retrieve(apiKey: string, datasetId: string, query: string, retrievalModel?: DifyRetrievalModel): Promise<DifyRetrieveResponse>;
+  createDocumentByText(apiKey: string, datasetId: string, request: DocumentCreateRequest): Promise<DifyDocumentResponse>;
+  updateDocumentByText(
+    apiKey: string,
+    datasetId: string,
+    documentId: string,
+    request: DocumentUpdateRequest
+  ): Promise<DifyDocumentResponse>;
+  deleteDocument(apiKey: string, datasetId: string, documentId: string): Promise<DifyDeleteResponse | undefined>;
+  listDocuments(apiKey: string, datasetId: string, options?: DocumentListOptions): Promise<DifyDocumentListResponse>;
+  getIndexingStatus(apiKey: string, datasetId: string, batch: string): Promise<DifyIndexingStatusResponse>;
+}
+
+// Dataset APIクライアントの実装
+// アプリのAPIとはAPIキーの種類が異なる（データセットのAPIキーはワークスペース単位で発行される）
+export class DifyDatasetApiClient implements DatasetClient {
+  private readonly config: Config;
+  private readonly httpClient: HttpClient;
+  private readonly responseParser: ResponseParser;
+
+  constructor(
+    config: Config,
+    httpClient: HttpClient = new FetchHttpClient(),
+    responseParser: ResponseParser = new JsonResponseParser()
+  ) {
+    this.config = config;
+    this.httpClient = httpClient;
+    this.responseParser = responseParser;
+  }
+
+  // /datasets/{dataset_id} エンドポイントにリクエスト（ナレッジベースの詳細）
+  async getDataset(apiKey: string, datasetId: string): Promise<DifyDataset> {
+    return this.requestJson<DifyDataset>(apiKey, this.getDatasetPath(datasetId));
+  }
+
+  // /datasets/{dataset_id}/retrieve エンドポイントにリクエスト（ナレッジベースの検索）
+  // retrievalModel を省略した場合はナレッジベースに設定された検索設定が使われる
+  async retrieve(
+    apiKey: string,
+    datasetId: string,
+    query: string,
+    retrievalModel?: DifyRetrievalModel
+  ): Promise<DifyRetrieveResponse> {
+    return this.requestJson<DifyRetrieveResponse>(apiKey, `${this.getDatasetPath(datasetId)}/retrieve`, {
+      method: "POST",
+      body: retrievalModel ? { query, retrieval_model: retrievalModel } : { query }
+    });
+  }
+
+  // /datasets/{dataset_id}/document/create-by-text エンドポイントにリクエスト（テキストからドキュメントを作成）
+  async createDocumentByText(
+    apiKey: string,
+    datasetId: string,
+    request: DocumentCreateRequest
+  ): Promise<DifyDocumentResponse> {
+    return this.requestJson<DifyDocumentResponse>(apiKey, `${this.getDatasetPath(datasetId)}/document/create-by-text`, {
+      method: "POST",
+      body: {
+        name: request.name,
+        text: request.text,
+        indexing_technique: request.indexing_technique,
+        // 分割ルールはDifyの自動設定に任せる
+        process_rule: { mode: "automatic" }
+      }
+    });
+  }
+
+  // /datasets/{dataset_id}/documents/{document_id}/update-by-text エンドポイントにリクエスト（テキストでドキュメントを更新）
+  async updateDocumentByText(
+    apiKey: string,
+    datasetId: string,
+    documentId: string,
+    request: DocumentUpdateRequest
+  ): Promise<DifyDocumentResponse> {
+    return this.requestJson<DifyDocumentResponse>(
+      apiKey,
+      `${this.getDocumentPath(datasetId, documentId)}/update-by-text`,
+      {
+        method: "POST",
+        body: { name: request.name, text: request.text }
+      }
+    );
+  }
+
+  // /datasets/{dataset_id}/documents/{document_id} エンドポイントにリクエスト（ドキュメントの削除。本文のない 204 の場合は undefined を返す）
+  async deleteDocument(apiKey: string, datasetId: string, documentId: string): Promise<DifyDeleteResponse | undefined> {
+    return this.requestOptionalJson<DifyDeleteResponse>(apiKey, this.getDocumentPath(datasetId, documentId), {
+      method: "DELETE"
+    });
+  }
+
+  // /datasets/{dataset_id}/documents エンドポイントにリクエスト（ドキュメント一覧）
+  async listDocuments(
+    apiKey: string,
+    datasetId: string,
+    options: DocumentListOptions = {}
+  ): Promise<DifyDocumentListResponse> {
+    return this.requestJson<DifyDocumentListResponse>(apiKey, `${this.getDatasetPath(datasetId)}/documents`, {
+      query: { ...options }
+    });
+  }
+
+  // /datasets/{dataset_id}/documents/{batch}/indexing-status エンドポイントにリクエスト（インデックス作成の進捗）
+  async getIndexingStatus(apiKey: string, datasetId: string, batch: string): Promise<DifyIndexingStatusResponse> {
+    return this.requestJson<DifyIndexingStatusResponse>(
+      apiKey,
+      `${this.getDocumentPath(datasetId, batch)}/indexing-status`
+    );
+  }
+
+  // ナレッジベースのエンドポイントのパスを生成
+  private getDatasetPath(datasetId: string): string {
+    return `/datasets/${encodeURIComponent(datasetId)}`;
+  }
+
+  // ドキュメント（またはバッチ）のエンドポイントのパスを生成
+  private getDocumentPath(datasetId: string, documentId: string): string {
+    return `${this.getDatasetPath(datasetId)}/documents/${encodeURIComponent(documentId)}`;
+  }
+
+  // JSON APIにリクエストし、レスポンスを解析する（本文のないレスポンスはエラーとする）
+  private async requestJson<T>(apiKey: string, endpoint: string, options: DatasetRequestOptions = {}): Promise<T> {
+    const result = await this.requestOptionalJson<T>(apiKey, endpoint, options);
+    if (result === undefined) {
+      throw new Error(`${endpoint} API returned an empty response`);
+    }
+    return result;
+  }
+
+  // JSON APIにリクエストし、レスポンスを解析する
+  // Dataset APIはユーザーIDを受け取らない
+  // 204 No Content など本文のない成功レスポンスの場合は undefined を返す
+  private async requestOptionalJson<T>(apiKey: string, endpoint: string, options: DatasetRequestOptions = {}): Promise<T | undefined> {
+    const method = options.method || "GET";
+
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(options.query || {})) {
+      if (value !== undefined && value !== "") {
+        query.append(key, String(value));
+      }
+    }
+    const queryString = query.toString();
+    const url = `${this.config.getBaseUrl()}${queryString ? `${endpoint}?${queryString}` : endpoint}`;
+
+    const response = await this.httpClient.request(url, {
+      method,
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json"
+      },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body)
+    });
+
+    if (!response.ok) {
+      console.error(`${method} ${endpoint} failed. Query: ${queryString || "(none)"}, Body: ${JSON.stringify(options.body ?? null)}`);
+      await handleApiResponseError(response, endpoint, apiKey, "Dataset API Key");
+    }
+
+    const resultText = await response.text();
+
+    if (!resultText.trim()) {
+      return undefined;
+    }
+
+    try {
+      return this.responseParser.parse<T>(resultText);
+    } catch (parseError) {
+      handleParseError(parseError, endpoint);
+    }
+  }
+}
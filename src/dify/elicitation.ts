@@ -0,0 +1,98 @@
+import { Tool, ElicitRequestFormParams, PrimitiveSchemaDefinition } from "@modelcontextprotocol/sdk/types.js";
+import { ParameterProperty } from "./converter.js";
+
+/**
+ * elicitation/create で入力を求めるフォームのスキーマ
+ */
+export type ElicitationSchema = ElicitRequestFormParams["requestedSchema"];
+
+/**
+ * 必須の入力のうち、値が指定されていないものを返す
+ * 必須項目はツールの inputSchema の required（/parameters から抽出した必須フィールド）を使う
+ */
+export function findMissingRequiredInputs(tool: Tool, args: Record<string, any>): string[] {
+  const required = Array.isArray(tool.inputSchema.required) ? tool.inputSchema.required : [];
+
+  return required.filter(name => args[name] === undefined || args[name] === null || args[name] === "");
+}
+
+/**
+ * 入力のプロパティを elicitation のフォームの項目に変換する
+ * フォームは文字列・数値・真偽値・選択肢しか扱えないため、ファイルや配列の入力は undefined を返す
+ */
+export function createElicitationProperty(property: ParameterProperty): PrimitiveSchemaDefinition | undefined {
+  const description = property.description || undefined;
+
+  switch (property.type) {
+    case "string":
+      if (property.enum) {
+        return {
+          type: "string",
+          description,
+          enum: property.enum.filter((value): value is string => typeof value === "string"),
+          ...(typeof property.default === "string" && { default: property.default })
+        };
+      }
+      return {
+        type: "string",
+        description,
+        ...(property.maxLength !== undefined && { maxLength: property.maxLength }),
+        ...(typeof property.default === "string" && { default: property.default })
+      };
+    case "number":
+    case "integer":
+      return {
+        type: property.type,
+        description,
+        ...(property.minimum !== undefined && { minimum: property.minimum }),
+        ...(property.maximum !== undefined && { maximum: property.maximum }),
+        ...(typeof property.default === "number" && { default: property.default })
+      };
+    case "boolean":
+      return {
+        type: "boolean",
+        description,
+        ...(typeof property.default === "boolean" && { default: property.default })
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 不足している入力だけを項目とする elicitation のフォームのスキーマを作成する
+ * フォームで入力できない項目が含まれる場合は undefined を返す
+ */
+export function createElicitationSchema(tool: Tool, missingInputs: string[]): ElicitationSchema | undefined {
+  const properties = (tool.inputSchema.properties || {}) as Record<string, ParameterProperty>;
+  const elicitationProperties: ElicitationSchema["properties"] = {};
+
+  for (const name of missingInputs) {
+    const elicitationProperty = properties[name] && createElicitationProperty(properties[name]);
+    if (!elicitationProperty) {
+      return undefined;
+    }
+    elicitationProperties[name] = elicitationProperty;
+  }
+
+  return {
+    type: "object",
+    properties: elicitationProperties,
+    required: [...missingInputs]
+  };
+}
+
+/**
+ * ユーザーが入力した値を引数にマージする
+ * 空の値は未入力として扱い、元の引数を残す
+ */
+export function mergeElicitedInputs(
+  args: Record<string, any>,
+  content: Record<string, unknown> | undefined
+): Record<string, any> {
+  const elicitedInputs = Object.fromEntries(
+    Object.entries(content || {}).filter(([, value]) => value !== undefined && value !== null && value !== "")
+  );
+
+  return { ...args, ...elicitedInputs };
+}
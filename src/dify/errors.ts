@@ -0,0 +1,55 @@
+import type { HttpResponse } from "./client.js";
+
+// APIリクエストに関するエラークラス
+export class ApiError extends Error {
+  statusCode: number;
+  statusText: string;
+  endpoint: string;
+
+  constructor(message: string, statusCode: number, statusText: string, endpoint: string) {
+    super(message);
+    this.name = "ApiError";
+    this.statusCode = statusCode;
+    this.statusText = statusText;
+    this.endpoint = endpoint;
+  }
+}
+
+// APIキーをマスクする（ログ出力用）
+export function maskApiKey(apiKey: string): string {
+  if (apiKey.length <= 8) {
+    return "********";
+  }
+  return `${apiKey.substring(0, 4)}...${apiKey.substring(apiKey.length - 4)}`;
+}
+
+// レスポンスエラーの内容をログに出力し、ApiErrorをスローする
+// apiKeyLabel はログでAPIキーの種類（アプリ・データセット）を区別するために使用する
+export async function handleApiResponseError(
+  response: HttpResponse,
+  endpoint: string,
+  apiKey: string,
+  apiKeyLabel: string = "API Key"
+): Promise<never> {
+  const errorText = await response.text().catch(() => "Could not retrieve response text");
+  console.error(`${endpoint} API error code: ${response.status}`);
+  console.error(`${endpoint} API error message: ${response.statusText}`);
+  console.error(`${endpoint} API error response: ${errorText}`);
+  console.error(`${apiKeyLabel} (masked): ${maskApiKey(apiKey)}`);
+
+  throw new ApiError(
+    `${endpoint} API error: ${response.status} ${response.statusText}`,
+    response.status,
+    response.statusText,
+    endpoint
+  );
+}
+
+// JSONパースエラーの内容をログに出力し、エラーをスローする
+export function handleParseError(error: unknown, endpoint: string): never {
+  console.error(`${endpoint} JSON parse error:`, error);
+  if (error instanceof Error) {
+    console.error(`Error stack: ${error.stack}`);
+  }
+  throw new Error(`Failed to parse ${endpoint} API response: ${error}`);
+}
@@ -0,0 +1,255 @@
+import { readFile as readFileFromDisk, realpath } from "node:fs/promises";
+import { basename, extname, isAbsolute, relative, resolve, sep } from "node:path";
+import { DifyParametersResponse, DifyInputField, DifyFileInput } from "../types.js";
+import { DifyClient } from "./client.js";
+
+/**
+ * ファイル入力として扱うDifyのコンポーネントタイプ
+ */
+export const FILE_COMPONENT_TYPES = ["file", "file-list"];
+
+/**
+ * Difyのファイル種別ごとの拡張子
+ */
+export const FILE_TYPE_EXTENSIONS: Record<string, string[]> = {
+  document: ["txt", "md", "markdown", "mdx", "pdf", "html", "htm", "xlsx", "xls", "doc", "docx", "csv", "eml", "msg", "pptx", "ppt", "xml", "epub"],
+  image: ["jpg", "jpeg", "png", "gif", "webp", "svg"],
+  audio: ["mp3", "m4a", "wav", "webm", "amr", "mpga"],
+  video: ["mp4", "mov", "mpeg"]
+};
+
+/**
+ * ファイル入力の定義
+ */
+export interface FileInputDefinition {
+  variable: string;
+  multiple: boolean;
+  allowedFileTypes: string[];
+}
+
+/**
+ * MCPクライアントから渡されるファイル引数
+ * content（Base64）、path（ローカルパス）、url（リモートURL）のいずれか1つを指定する
+ * path はローカルファイルのルートディレクトリが設定されている場合のみ使用できる
+ */
+export interface FileArgument {
+  content?: string;
+  path?: string;
+  url?: string;
+  filename?: string;
+  mime_type?: string;
+  type?: string;
+}
+
+/**
+ * ファイル読み込み関数の型（テスト時にモック可能）
+ */
+export type FileReader = (path: string) => Promise<Buffer>;
+
+/**
+ * パラメータ情報からファイル入力の定義を抽出する
+ */
+export function extractFileInputDefinitions(paramsData: DifyParametersResponse): FileInputDefinition[] {
+  const definitions: FileInputDefinition[] = [];
+
+  if (!Array.isArray(paramsData.user_input_form)) {
+    return definitions;
+  }
+
+  for (const component of paramsData.user_input_form) {
+    for (const [componentType, field] of Object.entries(component)) {
+      const typedField = field as DifyInputField;
+      if (!FILE_COMPONENT_TYPES.includes(componentType) || !typedField.variable) {
+        continue;
+      }
+
+      definitions.push({
+        variable: typedField.variable,
+        multiple: componentType === "file-list",
+        allowedFileTypes: Array.isArray(typedField.allowed_file_types) ? typedField.allowed_file_types : []
+      });
+    }
+  }
+
+  return definitions;
+}
+
+/**
+ * ファイル名からDifyのファイル種別を推定する
+ * 許可されたファイル種別が1つだけの場合はそれを優先する
+ */
+export function detectFileType(filename: string, allowedFileTypes: string[] = []): string {
+  const extension = extname(filename).replace(".", "").toLowerCase();
+
+  for (const [fileType, extensions] of Object.entries(FILE_TYPE_EXTENSIONS)) {
+    if (extensions.includes(extension)) {
+      return fileType;
+    }
+  }
+
+  if (allowedFileTypes.length === 1) {
+    return allowedFileTypes[0];
+  }
+
+  return "custom";
+}
+
+/**
+ * ファイル引数をDifyのワークフロー入力（アップロード済みファイルまたはリモートURL）に変換するクラス
+ */
+export class FileInputResolver {
+  private readonly client: DifyClient;
+  private readonly localFileRoot: string | undefined;
+  private readonly readFile: FileReader;
+
+  /**
+   * @param client - Dify APIクライアント（ファイルのアップロードに使用）
+   * @param localFileRoot - path で読み込みを許可するディレクトリ（省略時はローカルファイルを読み込まない）
+   * @param readFile - ローカルファイルの読み込み関数（省略可）
+   */
+  constructor(client: DifyClient, localFileRoot?: string, readFile: FileReader = readFileFromDisk) {
+    this.client = client;
+    this.localFileRoot = localFileRoot;
+    this.readFile = readFile;
+  }
+
+  /**
+   * 入力パラメータ内のファイル引数をDifyのファイル入力に変換する
+   * ファイル入力以外のパラメータはそのまま返す
+   */
+  async resolveInputs(
+    apiKey: string,
+    params: Record<string, any>,
+    fileInputs: FileInputDefinition[]
+  ): Promise<Record<string, any>> {
+    const resolved: Record<string, any> = { ...params };
+
+    for (const definition of fileInputs) {
+      const value = params[definition.variable];
+      if (value === undefined || value === null) {
+        continue;
+      }
+
+      if (definition.multiple) {
+        const values = Array.isArray(value) ? value : [value];
+        resolved[definition.variable] = await Promise.all(
+          values.map((item, index) => this.resolveFile(apiKey, item, definition, `${definition.variable}[${index}]`))
+        );
+      } else {
+        resolved[definition.variable] = await this.resolveFile(apiKey, value, definition, definition.variable);
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * 1つのファイル引数をDifyのファイル入力に変換する
+   */
+  private async resolveFile(
+    apiKey: string,
+    value: FileArgument | DifyFileInput,
+    definition: FileInputDefinition,
+    argumentName: string
+  ): Promise<DifyFileInput> {
+    // ツールの inputSchema と同じく、オブジェクト以外の指定は受け付けない
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new Error(
+        `File argument '${argumentName}' must be an object with one of 'content', 'path' or 'url'. Received: ${JSON.stringify(value)}`
+      );
+    }
+    const argument = value;
+
+    // 既にDifyの形式であればそのまま渡す
+    if ("transfer_method" in argument && argument.transfer_method) {
+      return argument as DifyFileInput;
+    }
+
+    const fileArgument = argument as FileArgument;
+    const sources = [fileArgument.content, fileArgument.path, fileArgument.url].filter(source => source !== undefined);
+    if (sources.length !== 1) {
+      throw new Error(
+        `File argument '${argumentName}' must specify exactly one of 'content', 'path' or 'url'. ` +
+        `Received keys: ${Object.keys(fileArgument).join(", ")}`
+      );
+    }
+
+    if (fileArgument.url !== undefined) {
+      const filename = fileArgument.filename || basename(new URL(fileArgument.url).pathname);
+      return {
+        type: fileArgument.type || detectFileType(filename, definition.allowedFileTypes),
+        transfer_method: "remote_url",
+        url: fileArgument.url
+      };
+    }
+
+    const { data, filename } = await this.loadFileContent(fileArgument, argumentName);
+    const uploaded = await this.client.uploadFile(apiKey, {
+      data,
+      filename,
+      mimeType: fileArgument.mime_type
+    });
+
+    return {
+      type: fileArgument.type || detectFileType(filename, definition.allowedFileTypes),
+      transfer_method: "local_file",
+      upload_file_id: uploaded.id
+    };
+  }
+
+  /**
+   * Base64文字列またはローカルファイルからファイル内容を読み込む
+   * ワークフロー入力以外（音声の文字起こしなど）でファイル引数を読み込む際にも使用する
+   */
+  async loadFileContent(
+    fileArgument: FileArgument,
+    argumentName: string
+  ): Promise<{ data: Buffer; filename: string }> {
+    if (fileArgument.content !== undefined) {
+      if (!fileArgument.filename) {
+        throw new Error(`File argument '${argumentName}' requires 'filename' when 'content' is specified`);
+      }
+      return { data: Buffer.from(fileArgument.content, "base64"), filename: fileArgument.filename };
+    }
+
+    const path = fileArgument.path as string;
+    const localPath = await this.resolveLocalPath(path, argumentName);
+    try {
+      const data = await this.readFile(localPath);
+      return { data, filename: fileArgument.filename || basename(localPath) };
+    } catch (error) {
+      throw new Error(`Failed to read file for argument '${argumentName}' from path '${path}': ${error}`);
+    }
+  }
+
+  /**
+   * ローカルパスを実体のパスに解決し、ルートディレクトリの外を指していないことを確認する
+   * 相対パスはルートディレクトリからのパスとして扱い、シンボリックリンクは解決してから判定する
+   */
+  private async resolveLocalPath(path: string, argumentName: string): Promise<string> {
+    if (!this.localFileRoot) {
+      throw new Error(
+        `File argument '${argumentName}' cannot use 'path' because local file access is disabled on this server. ` +
+        "Send the file as 'content' or 'url' instead."
+      );
+    }
+
+    let rootPath: string;
+    let localPath: string;
+    try {
+      rootPath = await realpath(this.localFileRoot);
+      localPath = await realpath(resolve(rootPath, path));
+    } catch (error) {
+      throw new Error(`Failed to read file for argument '${argumentName}' from path '${path}': ${error}`);
+    }
+
+    const relativePath = relative(rootPath, localPath);
+    if (relativePath === ".." || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath)) {
+      throw new Error(
+        `File argument '${argumentName}' path '${path}' is outside the allowed local file root '${this.localFileRoot}'`
+      );
+    }
+
+    return localPath;
+  }
+}
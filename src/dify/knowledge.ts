@@ -0,0 +1,505 @@
+import { Tool, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import {
+  DifyDataset,
+  DifyRetrievalModel,
+  DifyRetrieveResponse,
+  DifyDocumentResponse,
+  DifyDocumentListResponse,
+  DifyIndexingStatusResponse,
+  DifyDeleteResponse
+} from "../types.js";
+import { Config, DatasetOptions } from "../config.js";
+import { DatasetClient, DocumentCreateRequest, DocumentUpdateRequest, DocumentListOptions } from "./dataset.js";
+import { Logger, ConsoleLogger } from "./service.js";
+import { getUniqueWorkflowName, READ_ONLY_TOOL_ANNOTATIONS } from "./converter.js";
+
+/**
+ * ナレッジベースの情報
+ */
+export interface DatasetData {
+  apiKey: string;
+  datasetId: string;
+  // /datasets/{dataset_id} のレスポンス（取得できなかった場合はIDのみ）
+  dataset: DifyDataset;
+  // 設定で指定されたナレッジベースごとのオプション
+  options?: DatasetOptions;
+}
+
+/**
+ * ナレッジベースのツールの操作の種類
+ */
+export type KnowledgeToolAction =
+  | "retrieve"
+  | "create-document"
+  | "update-document"
+  | "delete-document"
+  | "list-documents"
+  | "indexing-status";
+
+/**
+ * ナレッジベースのツールの操作ごとのアノテーション
+ * ドキュメントの更新は既存の内容を置き換えるため、削除と同じく destructiveHint を有効にする
+ */
+export const KNOWLEDGE_TOOL_ANNOTATIONS: Record<KnowledgeToolAction, ToolAnnotations> = {
+  retrieve: READ_ONLY_TOOL_ANNOTATIONS,
+  "create-document": {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false
+  },
+  "update-document": {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false
+  },
+  "delete-document": {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false
+  },
+  "list-documents": READ_ONLY_TOOL_ANNOTATIONS,
+  "indexing-status": READ_ONLY_TOOL_ANNOTATIONS
+};
+
+/**
+ * ナレッジベースのツールのアノテーションを作成する
+ */
+function createKnowledgeToolAnnotations(action: KnowledgeToolAction, name: string): ToolAnnotations {
+  return {
+    title: name,
+    ...KNOWLEDGE_TOOL_ANNOTATIONS[action]
+  };
+}
+
+/**
+ * ナレッジベースごとに生成するツールの定義
+ * MCPツールの定義と、実行時に使用するナレッジベースの情報を保持する
+ */
+export interface KnowledgeTool {
+  tool: Tool;
+  action: KnowledgeToolAction;
+  apiKey: string;
+  datasetId: string;
+  // ナレッジベースに設定された検索設定（top_k などを上書きする際の基準）
+  retrievalModel?: DifyRetrievalModel;
+  indexingTechnique?: string | null;
+}
+
+/**
+ * 検索ツールの引数
+ */
+export interface KnowledgeRetrieveParams {
+  query: string;
+  top_k?: number;
+  score_threshold?: number;
+}
+
+/**
+ * 検索結果のセグメント
+ */
+export interface RetrievedSegment {
+  content: string;
+  // Q&A形式のナレッジベースの場合の回答
+  answer?: string;
+  score: number | null;
+  document_id?: string;
+  document_name?: string;
+  segment_id: string;
+  position?: number;
+}
+
+/**
+ * 検索ツールの結果
+ */
+export interface KnowledgeRetrievalResult {
+  query: string;
+  segments: RetrievedSegment[];
+}
+
+/**
+ * ナレッジベースの検索ツールを作成する
+ */
+export function createKnowledgeTool(datasetData: DatasetData, existingNames: Set<string>): KnowledgeTool {
+  const { dataset } = datasetData;
+  const datasetName = dataset.name || datasetData.datasetId;
+  const name = getUniqueWorkflowName(`knowledge-${datasetName}`, existingNames);
+  existingNames.add(name);
+
+  const description = dataset.description
+    ? `Search Dify knowledge base '${datasetName}': ${dataset.description}`
+    : `Search Dify knowledge base '${datasetName}' and return the most relevant segments`;
+
+  return {
+    tool: {
+      name,
+      description,
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "Search query"
+          },
+          top_k: {
+            type: "integer",
+            description: "Maximum number of segments to return (uses the knowledge base setting if omitted)",
+            minimum: 1,
+            maximum: 100
+          },
+          score_threshold: {
+            type: "number",
+            description: "Only return segments whose relevance score is at least this value (0 to 1)",
+            minimum: 0,
+            maximum: 1
+          }
+        },
+        required: ["query"]
+      },
+      annotations: createKnowledgeToolAnnotations("retrieve", name)
+    },
+    action: "retrieve",
+    apiKey: datasetData.apiKey,
+    datasetId: datasetData.datasetId,
+    retrievalModel: dataset.retrieval_model_dict,
+    indexingTechnique: dataset.indexing_technique
+  };
+}
+
+/**
+ * ドキュメントIDのプロパティ
+ */
+const DOCUMENT_ID_PROPERTY = {
+  type: "string",
+  description: "ID of the document (returned by the create-document and list-documents tools)"
+};
+
+/**
+ * ナレッジベースのドキュメント管理ツール（作成・更新・削除・一覧・インデックス状況）を作成する
+ * knowledgeToolName は検索ツールの名前で、各ツールの名前の接頭辞に使用する
+ */
+export function createDocumentTools(
+  datasetData: DatasetData,
+  knowledgeToolName: string,
+  existingNames: Set<string>
+): KnowledgeTool[] {
+  const datasetName = datasetData.dataset.name || datasetData.datasetId;
+  const definitions: Array<{ action: KnowledgeToolAction; description: string; inputSchema: Tool["inputSchema"] }> = [
+    {
+      action: "create-document",
+      description: `Add a document to Dify knowledge base '${datasetName}' from text. Indexing runs in the background; check it with the indexing-status tool.`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+            description: "Name of the document"
+          },
+          text: {
+            type: "string",
+            description: "Content of the document"
+          }
+        },
+        required: ["name", "text"]
+      }
+    },
+    {
+      action: "update-document",
+      description: `Replace the name and/or text of a document in Dify knowledge base '${datasetName}'`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          document_id: DOCUMENT_ID_PROPERTY,
+          name: {
+            type: "string",
+            description: "New name of the document"
+          },
+          text: {
+            type: "string",
+            description: "New content of the document"
+          }
+        },
+        required: ["document_id"]
+      }
+    },
+    {
+      action: "delete-document",
+      description: `Delete a document from Dify knowledge base '${datasetName}'`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          document_id: DOCUMENT_ID_PROPERTY
+        },
+        required: ["document_id"]
+      }
+    },
+    {
+      action: "list-documents",
+      description: `List documents in Dify knowledge base '${datasetName}'`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          keyword: {
+            type: "string",
+            description: "Only return documents whose name contains this keyword"
+          },
+          page: {
+            type: "integer",
+            description: "Page number starting at 1",
+            minimum: 1,
+            default: 1
+          },
+          limit: {
+            type: "integer",
+            description: "Number of documents to return per page",
+            minimum: 1,
+            maximum: 100,
+            default: 20
+          }
+        },
+        required: []
+      }
+    },
+    {
+      action: "indexing-status",
+      description: `Check the indexing progress of documents added to or updated in Dify knowledge base '${datasetName}'`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          batch: {
+            type: "string",
+            description: "Batch ID returned by the create-document or update-document tool"
+          }
+        },
+        required: ["batch"]
+      }
+    }
+  ];
+
+  return definitions.map(({ action, description, inputSchema }) => {
+    const name = getUniqueWorkflowName(`${knowledgeToolName}-${action}`, existingNames);
+    existingNames.add(name);
+
+    return {
+      tool: { name, description, inputSchema, annotations: createKnowledgeToolAnnotations(action, name) },
+      action,
+      apiKey: datasetData.apiKey,
+      datasetId: datasetData.datasetId,
+      indexingTechnique: datasetData.dataset.indexing_technique
+    };
+  });
+}
+
+/**
+ * ナレッジベースの設定に応じて検索ツールとドキュメント管理ツールを作成する
+ */
+export function createKnowledgeTools(datasetDataList: DatasetData[], existingNames: Set<string>): KnowledgeTool[] {
+  return datasetDataList.flatMap(datasetData => {
+    const retrieveTool = createKnowledgeTool(datasetData, existingNames);
+    if (!datasetData.options?.documentTools) {
+      return [retrieveTool];
+    }
+    return [retrieveTool, ...createDocumentTools(datasetData, retrieveTool.tool.name, existingNames)];
+  });
+}
+
+/**
+ * 検索ツールの引数から検索設定を組み立てる
+ * top_k と score_threshold が指定されていない場合は undefined を返し、ナレッジベースの設定に任せる
+ */
+export function buildRetrievalModel(
+  knowledgeTool: KnowledgeTool,
+  params: KnowledgeRetrieveParams
+): DifyRetrievalModel | undefined {
+  if (params.top_k === undefined && params.score_threshold === undefined) {
+    return undefined;
+  }
+
+  // retrieval_model は一部だけ指定できないため、ナレッジベースの設定（取得できない場合は既定値）を基準にする
+  const base: DifyRetrievalModel = knowledgeTool.retrievalModel || {
+    search_method: knowledgeTool.indexingTechnique === "economy" ? "keyword_search" : "semantic_search",
+    reranking_enable: false,
+    top_k: 3,
+    score_threshold_enabled: false,
+    score_threshold: null
+  };
+
+  const retrievalModel: DifyRetrievalModel = { ...base };
+  if (params.top_k !== undefined) {
+    retrievalModel.top_k = params.top_k;
+  }
+  if (params.score_threshold !== undefined) {
+    retrievalModel.score_threshold_enabled = true;
+    retrievalModel.score_threshold = params.score_threshold;
+  }
+  return retrievalModel;
+}
+
+/**
+ * /datasets/{dataset_id}/retrieve のレスポンスを検索ツールの結果に変換する
+ */
+export function formatRetrieveResponse(query: string, response: DifyRetrieveResponse): KnowledgeRetrievalResult {
+  return {
+    query: response.query?.content || query,
+    segments: (response.records || []).map(record => {
+      const { segment } = record;
+      const retrieved: RetrievedSegment = {
+        content: segment.content,
+        score: record.score ?? null,
+        document_id: segment.document_id || segment.document?.id,
+        document_name: segment.document?.name,
+        segment_id: segment.id,
+        position: segment.position
+      };
+      if (segment.answer) {
+        retrieved.answer = segment.answer;
+      }
+      return retrieved;
+    })
+  };
+}
+
+/**
+ * Difyのナレッジベース（Dataset API）関連のサービスを提供するクラス
+ */
+export class KnowledgeService {
+  private readonly client: DatasetClient;
+  private readonly config: Config;
+  private readonly logger: Logger;
+
+  /**
+   * @param client - Dataset APIクライアント
+   * @param config - アプリケーション設定
+   * @param logger - ロガーインスタンス（省略可）
+   */
+  constructor(client: DatasetClient, config: Config, logger: Logger = new ConsoleLogger()) {
+    this.client = client;
+    this.config = config;
+    this.logger = logger;
+  }
+
+  /**
+   * 設定されたすべてのナレッジベースの情報を取得する
+   * 詳細を取得できない場合（/datasets/{dataset_id} に対応していない古いDifyなど）はIDのみで登録する
+   */
+  async fetchAllDatasets(): Promise<DatasetData[]> {
+    const results: DatasetData[] = [];
+
+    for (const { apiKey, datasetId } of this.config.getDatasets()) {
+      const options = this.config.getDatasetOptions(datasetId);
+      try {
+        const dataset = await this.client.getDataset(apiKey, datasetId);
+        results.push({ apiKey, datasetId, dataset, options });
+      } catch (error) {
+        this.logger.error(
+          `Failed to fetch knowledge base '${datasetId}'. The tool is registered with the dataset ID as its name:`,
+          error
+        );
+        results.push({ apiKey, datasetId, dataset: { id: datasetId }, options });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * ナレッジベースを検索し、セグメントの一覧を返す
+   */
+  async retrieve(knowledgeTool: KnowledgeTool, params: KnowledgeRetrieveParams): Promise<KnowledgeRetrievalResult> {
+    const retrievalModel = buildRetrievalModel(knowledgeTool, params);
+
+    try {
+      const response = await this.client.retrieve(knowledgeTool.apiKey, knowledgeTool.datasetId, params.query, retrievalModel);
+      return formatRetrieveResponse(params.query, response);
+    } catch (error) {
+      this.logger.error(`Error while retrieving from knowledge base '${knowledgeTool.datasetId}':`, error);
+      this.logger.error(`Parameters: ${JSON.stringify(params)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * テキストからドキュメントを作成する
+   * インデックス方式を指定しない場合はナレッジベースの設定（未設定の場合は high_quality）を使う
+   */
+  async createDocument(knowledgeTool: KnowledgeTool, request: DocumentCreateRequest): Promise<DifyDocumentResponse> {
+    const { apiKey, datasetId } = knowledgeTool;
+    const documentRequest: DocumentCreateRequest = {
+      ...request,
+      indexing_technique: request.indexing_technique || knowledgeTool.indexingTechnique || "high_quality"
+    };
+    return this.callWithErrorLogging(`Error while creating document in knowledge base '${datasetId}':`, { name: request.name }, () =>
+      this.client.createDocumentByText(apiKey, datasetId, documentRequest)
+    );
+  }
+
+  /**
+   * テキストでドキュメントを更新する
+   */
+  async updateDocument(
+    knowledgeTool: KnowledgeTool,
+    documentId: string,
+    request: DocumentUpdateRequest
+  ): Promise<DifyDocumentResponse> {
+    const { apiKey, datasetId } = knowledgeTool;
+    return this.callWithErrorLogging(
+      `Error while updating document '${documentId}' in knowledge base '${datasetId}':`,
+      { name: request.name },
+      () => this.client.updateDocumentByText(apiKey, datasetId, documentId, request)
+    );
+  }
+
+  /**
+   * ドキュメントを削除する
+   */
+  async deleteDocument(knowledgeTool: KnowledgeTool, documentId: string): Promise<DifyDeleteResponse | undefined> {
+    const { apiKey, datasetId } = knowledgeTool;
+    return this.callWithErrorLogging(
+      `Error while deleting document '${documentId}' from knowledge base '${datasetId}':`,
+      {},
+      () => this.client.deleteDocument(apiKey, datasetId, documentId)
+    );
+  }
+
+  /**
+   * ドキュメントの一覧を取得する
+   */
+  async listDocuments(knowledgeTool: KnowledgeTool, options: DocumentListOptions): Promise<DifyDocumentListResponse> {
+    const { apiKey, datasetId } = knowledgeTool;
+    return this.callWithErrorLogging(`Error while listing documents in knowledge base '${datasetId}':`, { ...options }, () =>
+      this.client.listDocuments(apiKey, datasetId, options)
+    );
+  }
+
+  /**
+   * ドキュメントのインデックス作成の進捗を取得する
+   */
+  async getIndexingStatus(knowledgeTool: KnowledgeTool, batch: string): Promise<DifyIndexingStatusResponse> {
+    const { apiKey, datasetId } = knowledgeTool;
+    return this.callWithErrorLogging(
+      `Error while fetching indexing status of batch '${batch}' in knowledge base '${datasetId}':`,
+      {},
+      () => this.client.getIndexingStatus(apiKey, datasetId, batch)
+    );
+  }
+
+  /**
+   * クライアントの呼び出しでエラーが発生した場合にログを出力して再スローする
+   * ドキュメントの本文は長くなるためパラメーターのログには含めない
+   */
+  private async callWithErrorLogging<T>(
+    message: string,
+    params: Record<string, any>,
+    call: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      this.logger.error(message, error);
+      this.logger.error(`Parameters: ${JSON.stringify(params)}`);
+      throw error;
+    }
+  }
+}
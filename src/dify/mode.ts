@@ -0,0 +1,67 @@
+import { DifyInfoResponse, DifyParametersResponse } from "../types.js";
+
+/**
+ * Difyアプリのモード
+ */
+export type DifyAppMode = "workflow" | "advanced-chat" | "chat" | "agent-chat" | "completion";
+
+/**
+ * サポートするDifyアプリのモード一覧
+ */
+export const DIFY_APP_MODES: DifyAppMode[] = ["workflow", "advanced-chat", "chat", "agent-chat", "completion"];
+
+/**
+ * モードを判定できなかった場合に使用するモード
+ */
+export const DEFAULT_APP_MODE: DifyAppMode = "workflow";
+
+/**
+ * チャットエンドポイント（/chat-messages）で実行するDifyアプリのモード
+ */
+export const CHAT_APP_MODES = ["advanced-chat", "chat", "agent-chat"];
+
+/**
+ * アプリのモードがチャットアプリ（チャットフロー・チャットボット）か判定する
+ */
+export function isChatAppMode(mode: string | undefined): boolean {
+  return mode !== undefined && CHAT_APP_MODES.includes(mode);
+}
+
+/**
+ * テキスト生成エンドポイント（/completion-messages）で実行するDifyアプリのモード
+ */
+export const COMPLETION_APP_MODE = "completion";
+
+/**
+ * アプリのモードがテキスト生成アプリか判定する
+ */
+export function isCompletionAppMode(mode: string | undefined): boolean {
+  return mode === COMPLETION_APP_MODE;
+}
+
+/**
+ * 文字列がサポートするDifyアプリのモードか判定する
+ */
+export function isDifyAppMode(mode: unknown): mode is DifyAppMode {
+  return typeof mode === "string" && DIFY_APP_MODES.includes(mode as DifyAppMode);
+}
+
+/**
+ * /info と /parameters のレスポンスからアプリのモードを判定する
+ * /info の mode を優先し、存在しない場合（古いDify）は /parameters で有効な機能から推定する
+ */
+export function detectAppMode(infoData: DifyInfoResponse, paramsData: DifyParametersResponse): DifyAppMode {
+  if (isDifyAppMode(infoData.mode)) {
+    return infoData.mode;
+  }
+
+  // 回答後の質問候補はチャットアプリ、「もっと見る」はテキスト生成アプリだけの機能
+  if (paramsData.suggested_questions_after_answer?.enabled) {
+    return "chat";
+  }
+  if (paramsData.more_like_this?.enabled) {
+    return "completion";
+  }
+
+  return DEFAULT_APP_MODE;
+}
@@ -0,0 +1,148 @@
+import { Tool, Prompt, PromptArgument, GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { WorkflowData } from "./service.js";
+import { CHAT_MESSAGE_PROPERTY_NAMES, getUniqueWorkflowName } from "./converter.js";
+import { isChatAppMode, detectAppMode } from "./mode.js";
+
+/**
+ * アプリのプロンプトの種類
+ */
+export type AppPromptKind = "introduction" | "suggested-question";
+
+/**
+ * Difyアプリの /parameters から生成するプロンプトの定義
+ * MCPのプロンプトの定義と、メッセージの組み立てに使用する情報を保持する
+ */
+export interface AppPrompt {
+  prompt: Prompt;
+  kind: AppPromptKind;
+  // プロンプトが属するアプリのツール名
+  toolName: string;
+  isChatApp: boolean;
+  // 紹介文（introduction）または質問候補（suggested-question）
+  text: string;
+}
+
+/**
+ * ツールの入力スキーマから、プロンプトの引数として受け取る入力フィールドを抽出する
+ * チャットのメッセージ引数と、文字列で表せないファイル入力は除外する
+ */
+export function extractPromptArguments(tool: Tool): PromptArgument[] {
+  const properties = (tool.inputSchema.properties || {}) as Record<string, { type?: string; description?: string }>;
+  const required = tool.inputSchema.required || [];
+
+  return Object.entries(properties)
+    .filter(([name, property]) =>
+      !CHAT_MESSAGE_PROPERTY_NAMES.includes(name) && property.type !== "object" && property.type !== "array"
+    )
+    .map(([name, property]) => ({
+      name,
+      description: property.description || undefined,
+      required: required.includes(name)
+    }));
+}
+
+/**
+ * アプリの紹介文と質問候補からプロンプトを作成する
+ * 紹介文が設定されていない場合はアプリの説明を使う
+ */
+export function createAppPrompts(workflowData: WorkflowData, tool: Tool, existingNames: Set<string>): AppPrompt[] {
+  const { infoData, paramsData } = workflowData;
+  const isChatApp = isChatAppMode(workflowData.mode || detectAppMode(infoData, paramsData));
+  const appPrompts: AppPrompt[] = [];
+
+  const introductionName = getUniqueWorkflowName(`${tool.name}-introduction`, existingNames);
+  existingNames.add(introductionName);
+  appPrompts.push({
+    prompt: {
+      name: introductionName,
+      description: `Introduce Dify app '${tool.name}' with its opening statement`
+    },
+    kind: "introduction",
+    toolName: tool.name,
+    isChatApp,
+    text: paramsData.opening_statement?.trim() || infoData.description || `This is the Dify app '${tool.name}'.`
+  });
+
+  const promptArguments = extractPromptArguments(tool);
+  (paramsData.suggested_questions || [])
+    .filter(question => typeof question === "string" && question.trim())
+    .forEach((question, index) => {
+      const name = getUniqueWorkflowName(`${tool.name}-question-${index + 1}`, existingNames);
+      existingNames.add(name);
+      appPrompts.push({
+        prompt: {
+          name,
+          description: `Ask Dify app '${tool.name}': ${question}`,
+          arguments: promptArguments
+        },
+        kind: "suggested-question",
+        toolName: tool.name,
+        isChatApp,
+        text: question.trim()
+      });
+    });
+
+  return appPrompts;
+}
+
+/**
+ * アプリごとのプロンプトを作成する
+ * workflowTools は workflowDataList と同じ順序で変換されたアプリのツール
+ */
+export function createAllAppPrompts(workflowDataList: WorkflowData[], workflowTools: Tool[]): AppPrompt[] {
+  const existingNames = new Set<string>();
+
+  return workflowDataList.flatMap((workflowData, index) => {
+    const tool = workflowTools[index];
+    return tool ? createAppPrompts(workflowData, tool, existingNames) : [];
+  });
+}
+
+/**
+ * プロンプトの引数からメッセージを組み立てる
+ */
+export function buildPromptMessages(appPrompt: AppPrompt, args: Record<string, string> = {}): GetPromptResult {
+  const { toolName, text } = appPrompt;
+
+  if (appPrompt.kind === "introduction") {
+    return {
+      description: appPrompt.prompt.description,
+      messages: [
+        {
+          role: "user",
+          content: { type: "text", text: `I want to use the Dify app '${toolName}' through the '${toolName}' tool. Introduce the app to me.` }
+        },
+        {
+          role: "assistant",
+          content: { type: "text", text }
+        }
+      ]
+    };
+  }
+
+  // 定義された引数のうち、指定された値だけをツールの入力として渡すよう指示する
+  const inputs = Object.fromEntries(
+    (appPrompt.prompt.arguments || [])
+      .filter(argument => args[argument.name] !== undefined && args[argument.name] !== "")
+      .map(argument => [argument.name, args[argument.name]])
+  );
+
+  const instructions = [
+    appPrompt.isChatApp
+      ? `Answer this by calling the '${toolName}' tool with the question above as 'query'.`
+      : `Answer this by calling the '${toolName}' tool.`
+  ];
+  if (Object.keys(inputs).length > 0) {
+    instructions.push(`Pass these inputs to the tool: ${JSON.stringify(inputs)}`);
+  }
+
+  return {
+    description: appPrompt.prompt.description,
+    messages: [
+      {
+        role: "user",
+        content: { type: "text", text: `${text}\n\n${instructions.join("\n")}` }
+      }
+    ]
+  };
+}
@@ -0,0 +1,165 @@
+import { Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import { DifyWorkflowLogStatus } from "../types.js";
+import { WorkflowLogListOptions } from "./client.js";
+import { WORKFLOW_LOG_STATUSES } from "./companion.js";
+
+/**
+ * ワークフローのリソースURIの接頭辞
+ * dify://workflows/{toolName}/{kind} の形式でアプリごとのリソースを表す
+ */
+export const WORKFLOW_RESOURCE_URI_PREFIX = "dify://workflows/";
+
+/**
+ * JSONで返すリソースのMIMEタイプ
+ */
+export const JSON_MIME_TYPE = "application/json";
+
+/**
+ * 解析したワークフローのリソースURI
+ */
+export interface WorkflowResourceLocation {
+  toolName: string;
+  // リソースの種類（logs など）
+  kind: string;
+  searchParams: URLSearchParams;
+}
+
+/**
+ * アプリごとに公開するリソースの種類
+ * info と parameters はDifyから取得済みのレスポンスをそのまま返し、logs は読み取り時に取得する
+ */
+export type WorkflowResourceKind = "info" | "parameters" | "logs";
+
+/**
+ * リソースの種類ごとの説明
+ */
+const WORKFLOW_RESOURCE_DESCRIPTIONS: Record<WorkflowResourceKind, (toolName: string) => string> = {
+  info: toolName => `Raw /info response of Dify app '${toolName}' (name, description, mode and tags)`,
+  parameters: toolName =>
+    `Raw /parameters response of Dify app '${toolName}' (input form, file upload limits and system parameters)`,
+  logs: toolName => `Latest execution logs of Dify workflow '${toolName}'`
+};
+
+/**
+ * アプリの /info のリソーステンプレート
+ */
+export const WORKFLOW_INFO_RESOURCE_TEMPLATE: ResourceTemplate = {
+  uriTemplate: `${WORKFLOW_RESOURCE_URI_PREFIX}{toolName}/info`,
+  name: "workflow-info",
+  description: "Raw /info response of a Dify app (name, description, mode and tags)",
+  mimeType: JSON_MIME_TYPE
+};
+
+/**
+ * アプリの /parameters のリソーステンプレート
+ */
+export const WORKFLOW_PARAMETERS_RESOURCE_TEMPLATE: ResourceTemplate = {
+  uriTemplate: `${WORKFLOW_RESOURCE_URI_PREFIX}{toolName}/parameters`,
+  name: "workflow-parameters",
+  description: "Raw /parameters response of a Dify app (input form, file upload limits and system parameters)",
+  mimeType: JSON_MIME_TYPE
+};
+
+/**
+ * ワークフローの実行ログのリソーステンプレート
+ */
+export const WORKFLOW_LOGS_RESOURCE_TEMPLATE: ResourceTemplate = {
+  uriTemplate: `${WORKFLOW_RESOURCE_URI_PREFIX}{toolName}/logs{?status,keyword,page,limit}`,
+  name: "workflow-logs",
+  description: `Execution logs of a Dify workflow app, most recent first. Filter with status (${WORKFLOW_LOG_STATUSES.join(", ")}), keyword, page and limit.`,
+  mimeType: JSON_MIME_TYPE
+};
+
+/**
+ * 公開するリソーステンプレートの一覧
+ */
+export const WORKFLOW_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  WORKFLOW_INFO_RESOURCE_TEMPLATE,
+  WORKFLOW_PARAMETERS_RESOURCE_TEMPLATE,
+  WORKFLOW_LOGS_RESOURCE_TEMPLATE
+];
+
+/**
+ * ツール名とリソースの種類からリソースURIを生成する
+ */
+export function buildWorkflowResourceUri(toolName: string, kind: WorkflowResourceKind): string {
+  return `${WORKFLOW_RESOURCE_URI_PREFIX}${encodeURIComponent(toolName)}/${kind}`;
+}
+
+/**
+ * アプリのリソースを作成する
+ */
+export function createWorkflowResource(toolName: string, kind: WorkflowResourceKind): Resource {
+  return {
+    uri: buildWorkflowResourceUri(toolName, kind),
+    name: `${toolName}-${kind}`,
+    description: WORKFLOW_RESOURCE_DESCRIPTIONS[kind](toolName),
+    mimeType: JSON_MIME_TYPE
+  };
+}
+
+/**
+ * リソースURIをツール名・リソースの種類・クエリに分解する
+ * ワークフローのリソースURIでない場合は undefined を返す
+ */
+export function parseWorkflowResourceUri(uri: string): WorkflowResourceLocation | undefined {
+  if (!uri.startsWith(WORKFLOW_RESOURCE_URI_PREFIX)) {
+    return undefined;
+  }
+
+  const rest = uri.slice(WORKFLOW_RESOURCE_URI_PREFIX.length);
+  const queryIndex = rest.indexOf("?");
+  const path = queryIndex === -1 ? rest : rest.slice(0, queryIndex);
+  const query = queryIndex === -1 ? "" : rest.slice(queryIndex + 1);
+
+  const segments = path.split("/");
+  if (segments.length !== 2 || !segments[0] || !segments[1]) {
+    return undefined;
+  }
+
+  try {
+    return {
+      toolName: decodeURIComponent(segments[0]),
+      kind: segments[1],
+      searchParams: new URLSearchParams(query)
+    };
+  } catch {
+    // 不正なパーセントエンコーディング
+    return undefined;
+  }
+}
+
+/**
+ * 実行ログのリソースURIのクエリを取得オプションに変換する
+ */
+export function parseWorkflowLogListOptions(uri: string, searchParams: URLSearchParams): WorkflowLogListOptions {
+  const options: WorkflowLogListOptions = {};
+
+  const status = searchParams.get("status");
+  if (status) {
+    if (!WORKFLOW_LOG_STATUSES.includes(status as DifyWorkflowLogStatus)) {
+      throw new Error(
+        `Invalid status '${status}' in resource URI '${uri}'. Allowed values: ${WORKFLOW_LOG_STATUSES.join(", ")}`
+      );
+    }
+    options.status = status as DifyWorkflowLogStatus;
+  }
+
+  const keyword = searchParams.get("keyword");
+  if (keyword) {
+    options.keyword = keyword;
+  }
+
+  for (const name of ["page", "limit"] as const) {
+    const value = searchParams.get(name);
+    if (!value) {
+      continue;
+    }
+    if (!/^[1-9][0-9]*$/.test(value)) {
+      throw new Error(`Invalid ${name} '${value}' in resource URI '${uri}'. Expected a positive integer.`);
+    }
+    options[name] = Number(value);
+  }
+
+  return options;
+}
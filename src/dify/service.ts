@@ -1,6 +1,32 @@
-import { DifyInfoResponse, DifyParametersResponse, DifyWorkflowResponse } from "../types.js";
-import { DifyClient } from "./client.js";
-import { Config } from "../config.js";
+import {
+  DifyInfoResponse,
+  DifyParametersResponse,
+  DifyWorkflowResponse,
+  DifyStopWorkflowResponse,
+  DifyWorkflowRunDetail,
+  DifyWorkflowLogListResponse,
+  DifyChatMessageResponse,
+  DifyConversation,
+  DifyConversationListResponse,
+  DifyMessageListResponse,
+  DifyDeleteResponse,
+  DifyFeedbackResponse,
+  DifyAudioToTextResponse
+} from "../types.js";
+import {
+  DifyClient,
+  WorkflowRunOptions,
+  WorkflowLogListOptions,
+  ConversationListOptions,
+  MessageListOptions,
+  ConversationRenameOptions,
+  MessageFeedback,
+  TextToAudioRequest,
+  AudioData
+} from "./client.js";
+import { Config, AppOptions } from "../config.js";
+import { FileInputResolver, FileInputDefinition, FileArgument, extractFileInputDefinitions } from "./files.js";
+import { DifyAppMode, DEFAULT_APP_MODE, detectAppMode } from "./mode.js";
 
 /**
  * ロギングインターフェース
@@ -26,6 +52,10 @@ export interface WorkflowData {
   apiKey: string;
   infoData: DifyInfoResponse;
   paramsData: DifyParametersResponse;
+  // アプリのモード（未設定の場合は /info と /parameters から判定する）
+  mode?: DifyAppMode;
+  // 設定で指定されたアプリごとのオプション
+  options?: AppOptions;
 }
 
 /**
@@ -45,6 +75,9 @@ export class DifyService {
   private readonly config: Config;
   private readonly logger: Logger;
   private readonly workflowApiKeyMap: Map<string, string>;
+  private readonly workflowFileInputMap = new Map<string, FileInputDefinition[]>();
+  private readonly workflowModeMap = new Map<string, DifyAppMode>();
+  private readonly fileInputResolver: FileInputResolver;
   
   /**
    * @param client - Dify APIクライアント
@@ -62,6 +95,7 @@ export class DifyService {
     this.config = config;
     this.logger = logger;
     this.workflowApiKeyMap = new Map(initialWorkflowMap);
+    this.fileInputResolver = new FileInputResolver(client, config.getLocalFileRoot());
   }
   
   /**
@@ -124,14 +158,23 @@ export class DifyService {
     for (const apiKey of apiKeys) {
       try {
         const result = await this.fetchWorkflowInfoWithKey(apiKey);
+        const workflowName = result.infoData.name || "dify-workflow";
+        
+        // アプリのモードを判定し、実行するエンドポイントを決める
+        const mode = detectAppMode(result.infoData, result.paramsData);
+        if (result.infoData.mode && result.infoData.mode !== mode) {
+          this.logger.error(`Unsupported app mode '${result.infoData.mode}' for '${workflowName}'. Falling back to '${mode}'.`);
+        }
         
         // ワークフロー名とAPIキーのマッピングを保存
-        this.registerWorkflow(result.infoData.name || "dify-workflow", apiKey);
+        this.registerWorkflow(workflowName, apiKey, result.paramsData, mode);
         
         results.push({
           apiKey,
           infoData: result.infoData,
-          paramsData: result.paramsData
+          paramsData: result.paramsData,
+          mode,
+          options: this.config.getAppOptions(workflowName)
         });
         
         success++;
@@ -145,19 +188,36 @@ export class DifyService {
   }
 
   /**
-   * ワークフロー名とAPIキーをマップに登録する
+   * ワークフロー名とAPIキー、ファイル入力の定義、アプリのモードをマップに登録する
    * @private
    */
-  private registerWorkflow(workflowName: string, apiKey: string): void {
+  private registerWorkflow(
+    workflowName: string,
+    apiKey: string,
+    paramsData?: DifyParametersResponse,
+    mode?: DifyAppMode
+  ): void {
     this.workflowApiKeyMap.set(workflowName, apiKey);
+    
+    if (paramsData) {
+      this.workflowFileInputMap.set(workflowName, extractFileInputDefinitions(paramsData));
+    }
+    
+    if (mode) {
+      this.workflowModeMap.set(workflowName, mode);
+    }
   }
   
   /**
    * 指定されたAPIキーでワークフローを実行する
    */
-  async runWorkflowWithKey(apiKey: string, params: Record<string, any>): Promise<DifyWorkflowResponse> {
+  async runWorkflowWithKey(
+    apiKey: string,
+    params: Record<string, any>,
+    options?: WorkflowRunOptions
+  ): Promise<DifyWorkflowResponse> {
     try {
-      return await this.client.runWorkflow(apiKey, params);
+      return await this.client.runWorkflow(apiKey, params, options);
     } catch (error) {
       this.logError('Error during workflow execution:', error);
       this.logErrorDetails(error);
@@ -166,10 +226,59 @@ export class DifyService {
     }
   }
   
+  /**
+   * 指定されたAPIキーでチャットアプリにメッセージを送信する
+   * query と conversation_id 以外の引数はアプリの入力（inputs）として送信する
+   * @param responseMode - 設定のレスポンスモードを上書きする場合に指定する（省略可）
+   */
+  async sendChatMessageWithKey(
+    apiKey: string,
+    params: Record<string, any>,
+    options?: WorkflowRunOptions,
+    responseMode?: string
+  ): Promise<DifyChatMessageResponse> {
+    const { query, conversation_id, ...inputs } = params;
+    const request = responseMode
+      ? { query, inputs, conversation_id, response_mode: responseMode }
+      : { query, inputs, conversation_id };
+    
+    try {
+      return await this.client.sendChatMessage(apiKey, request, options);
+    } catch (error) {
+      this.logError('Error during chat message execution:', error);
+      this.logErrorDetails(error);
+      this.logger.error(`Parameters: ${JSON.stringify(params)}`);
+      throw error;
+    }
+  }
+  
+  /**
+   * 指定されたAPIキーでテキスト生成アプリを実行する
+   */
+  async sendCompletionMessageWithKey(
+    apiKey: string,
+    params: Record<string, any>,
+    options?: WorkflowRunOptions
+  ): Promise<DifyChatMessageResponse> {
+    try {
+      return await this.client.sendCompletionMessage(apiKey, params, options);
+    } catch (error) {
+      this.logError('Error during completion message execution:', error);
+      this.logErrorDetails(error);
+      this.logger.error(`Parameters: ${JSON.stringify(params)}`);
+      throw error;
+    }
+  }
+  
   /**
    * ワークフロー名からワークフローを実行する
+   * アプリのモードに応じて /workflows/run、/chat-messages、/completion-messages のいずれかを呼び出す
    */
-  async runWorkflow(workflowName: string, params: Record<string, any>): Promise<DifyWorkflowResponse> {
+  async runWorkflow(
+    workflowName: string,
+    params: Record<string, any>,
+    options?: WorkflowRunOptions
+  ): Promise<DifyWorkflowResponse | DifyChatMessageResponse> {
     const apiKey = this.getApiKeyForWorkflow(workflowName);
     
     if (!apiKey) {
@@ -177,7 +286,214 @@ export class DifyService {
       throw error;
     }
     
-    return this.runWorkflowWithKey(apiKey, params);
+    // ファイル入力があればアップロードしてDifyのファイル形式に変換する
+    const fileInputs = this.getFileInputsForWorkflow(workflowName);
+    const inputs = fileInputs.length > 0
+      ? await this.resolveFileInputs(workflowName, apiKey, params, fileInputs)
+      : params;
+    
+    switch (this.getModeForWorkflow(workflowName)) {
+      case "advanced-chat":
+      case "chat":
+        return this.sendChatMessageWithKey(apiKey, inputs, options);
+      case "agent-chat":
+        // エージェントアプリはストリーミングモードのみに対応している
+        return this.sendChatMessageWithKey(apiKey, inputs, options, "streaming");
+      case "completion":
+        return this.sendCompletionMessageWithKey(apiKey, inputs, options);
+      case "workflow":
+      default:
+        return this.runWorkflowWithKey(apiKey, inputs, options);
+    }
+  }
+  
+  /**
+   * 指定されたAPIキーでチャットアプリの会話一覧を取得する
+   */
+  async listConversationsWithKey(
+    apiKey: string,
+    options?: ConversationListOptions
+  ): Promise<DifyConversationListResponse> {
+    return this.callWithErrorLogging('Error while listing conversations:', { ...options }, () =>
+      this.client.listConversations(apiKey, options)
+    );
+  }
+  
+  /**
+   * 指定されたAPIキーで会話のメッセージ履歴を取得する
+   */
+  async getMessagesWithKey(
+    apiKey: string,
+    conversationId: string,
+    options?: MessageListOptions
+  ): Promise<DifyMessageListResponse> {
+    return this.callWithErrorLogging(`Error while fetching messages of conversation '${conversationId}':`, { ...options }, () =>
+      this.client.getMessages(apiKey, conversationId, options)
+    );
+  }
+  
+  /**
+   * 指定されたAPIキーで会話の名前を変更する
+   */
+  async renameConversationWithKey(
+    apiKey: string,
+    conversationId: string,
+    options: ConversationRenameOptions
+  ): Promise<DifyConversation> {
+    return this.callWithErrorLogging(`Error while renaming conversation '${conversationId}':`, { ...options }, () =>
+      this.client.renameConversation(apiKey, conversationId, options)
+    );
+  }
+  
+  /**
+   * 指定されたAPIキーで会話を削除する
+   */
+  async deleteConversationWithKey(apiKey: string, conversationId: string): Promise<DifyDeleteResponse | undefined> {
+    return this.callWithErrorLogging(`Error while deleting conversation '${conversationId}':`, {}, () =>
+      this.client.deleteConversation(apiKey, conversationId)
+    );
+  }
+  
+  /**
+   * 指定されたAPIキーでワークフロー実行の詳細（状態・出力・エラーなど）を取得する
+   */
+  async getWorkflowRunWithKey(apiKey: string, workflowRunId: string): Promise<DifyWorkflowRunDetail> {
+    return this.callWithErrorLogging(`Error while fetching workflow run '${workflowRunId}':`, {}, () =>
+      this.client.getWorkflowRun(apiKey, workflowRunId)
+    );
+  }
+  
+  /**
+   * 指定されたAPIキーでメッセージにフィードバックを送信する
+   */
+  async sendMessageFeedbackWithKey(
+    apiKey: string,
+    messageId: string,
+    feedback: MessageFeedback
+  ): Promise<DifyFeedbackResponse> {
+    return this.callWithErrorLogging(`Error while sending feedback for message '${messageId}':`, { ...feedback }, () =>
+      this.client.sendMessageFeedback(apiKey, messageId, feedback)
+    );
+  }
+  
+  /**
+   * 指定されたAPIキーでテキストを音声に変換する
+   */
+  async textToAudioWithKey(apiKey: string, request: TextToAudioRequest): Promise<AudioData> {
+    return this.callWithErrorLogging("Error while converting text to audio:", {
+      message_id: request.message_id,
+      text_length: request.text?.length
+    }, () => this.client.textToAudio(apiKey, request));
+  }
+  
+  /**
+   * 指定されたAPIキーで音声ファイル（Base64またはローカルパス）を文字起こしする
+   * ローカルパスはワークフローのファイル入力と同じく、許可されたルートディレクトリ配下のみ読み込む
+   */
+  async audioToTextWithKey(apiKey: string, audio: FileArgument): Promise<DifyAudioToTextResponse> {
+    const sources = [audio.content, audio.path].filter(source => source !== undefined);
+    if (sources.length !== 1) {
+      throw new Error(
+        `Audio argument must specify exactly one of 'content' or 'path'. Received keys: ${Object.keys(audio).join(", ")}`
+      );
+    }
+    
+    const { data, filename } = await this.fileInputResolver.loadFileContent(audio, "audio");
+    return this.callWithErrorLogging("Error while converting audio to text:", {
+      filename,
+      size: data.length
+    }, () => this.client.audioToText(apiKey, { data, filename, mimeType: audio.mime_type }));
+  }
+  
+  /**
+   * クライアントの呼び出しでエラーが発生した場合にログを出力して再スローする
+   * @private
+   */
+  private async callWithErrorLogging<T>(
+    message: string,
+    params: Record<string, any>,
+    call: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      this.logError(message, error);
+      this.logErrorDetails(error);
+      this.logger.error(`Parameters: ${JSON.stringify(params)}`);
+      throw error;
+    }
+  }
+  
+  /**
+   * ファイル引数をアップロードし、Difyのファイル入力に変換する
+   * @private
+   */
+  private async resolveFileInputs(
+    workflowName: string,
+    apiKey: string,
+    params: Record<string, any>,
+    fileInputs: FileInputDefinition[]
+  ): Promise<Record<string, any>> {
+    try {
+      return await this.fileInputResolver.resolveInputs(apiKey, params, fileInputs);
+    } catch (error) {
+      this.logError(`Error while preparing file inputs for workflow '${workflowName}':`, error);
+      this.logErrorDetails(error);
+      this.logger.error(`File inputs: ${fileInputs.map(input => input.variable).join(', ')}`);
+      throw error;
+    }
+  }
+  
+  /**
+   * ワークフロー名から実行中のタスクを停止する
+   */
+  async stopWorkflowTask(workflowName: string, taskId: string): Promise<DifyStopWorkflowResponse> {
+    const apiKey = this.getApiKeyForWorkflow(workflowName);
+    
+    if (!apiKey) {
+      throw this.createWorkflowNotFoundError(workflowName, { task_id: taskId });
+    }
+    
+    try {
+      switch (this.getModeForWorkflow(workflowName)) {
+        case "advanced-chat":
+        case "chat":
+        case "agent-chat":
+          return await this.client.stopChatMessage(apiKey, taskId);
+        case "completion":
+          return await this.client.stopCompletionMessage(apiKey, taskId);
+        case "workflow":
+        default:
+          return await this.client.stopWorkflowTask(apiKey, taskId);
+      }
+    } catch (error) {
+      this.logError(`Error while stopping workflow task '${taskId}' of '${workflowName}':`, error);
+      this.logErrorDetails(error);
+      throw error;
+    }
+  }
+  
+  /**
+   * ワークフロー名から、登録されたAPIキーで実行ログを取得する
+   * 実行ログはワークフローアプリでのみ取得できる
+   */
+  async getWorkflowLogs(workflowName: string, options: WorkflowLogListOptions = {}): Promise<DifyWorkflowLogListResponse> {
+    const apiKey = this.getApiKeyForWorkflow(workflowName);
+    
+    if (!apiKey) {
+      throw this.createWorkflowNotFoundError(workflowName, { ...options });
+    }
+    
+    const mode = this.getModeForWorkflow(workflowName);
+    if (mode !== "workflow") {
+      const error = new Error(`Workflow logs are only available for workflow apps. '${workflowName}' is a '${mode}' app.`);
+      this.logger.error(error.message);
+      throw error;
+    }
+    
+    return this.callWithErrorLogging(`Error while fetching workflow logs of '${workflowName}':`, { ...options }, () =>
+      this.client.getWorkflowLogs(apiKey, options)
+    );
   }
   
   /**
@@ -192,6 +508,28 @@ export class DifyService {
     return this.workflowApiKeyMap.get(baseName) || this.workflowApiKeyMap.get(workflowName);
   }
   
+  /**
+   * ワークフロー名に対応するファイル入力の定義を取得する
+   * @private
+   */
+  private getFileInputsForWorkflow(workflowName: string): FileInputDefinition[] {
+    // APIキーの検索と同じ規則でワークフロー名を解決する
+    const baseName = workflowName.split('-')[0];
+    
+    return this.workflowFileInputMap.get(baseName) || this.workflowFileInputMap.get(workflowName) || [];
+  }
+  
+  /**
+   * ワークフロー名に対応するアプリのモードを取得する
+   * 登録されていない場合はワークフローアプリとして扱う
+   */
+  getModeForWorkflow(workflowName: string): DifyAppMode {
+    // APIキーの検索と同じ規則でワークフロー名を解決する
+    const baseName = workflowName.split('-')[0];
+    
+    return this.workflowModeMap.get(baseName) || this.workflowModeMap.get(workflowName) || DEFAULT_APP_MODE;
+  }
+  
   /**
    * ワークフローが見つからなかった場合のエラーを作成する
    * @private
@@ -0,0 +1,152 @@
+import { DifyStreamEvent, DifyWorkflowResponse, DifyChatMessageResponse } from "../types.js";
+
+/**
+ * ストリーミングイベントを受け取るコールバック
+ */
+export type StreamEventHandler = (event: DifyStreamEvent) => void | Promise<void>;
+
+/**
+ * SSEの1イベント分のテキストからDifyのストリーミングイベントを解析する
+ * data行が存在しない場合（コメント行のみ等）はnullを返す
+ */
+export function parseSseEventBlock(block: string): DifyStreamEvent | null {
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith("data:")) {
+      dataLines.push(line.substring(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  const data = dataLines.join("\n");
+
+  try {
+    return JSON.parse(data) as DifyStreamEvent;
+  } catch (error) {
+    throw new Error(`Failed to parse Dify stream event: ${error}. Event data: ${data}`);
+  }
+}
+
+/**
+ * SSEのバイトストリームをDifyのストリーミングイベントに変換する
+ */
+export async function* parseSseStream(
+  chunks: AsyncIterable<Uint8Array | string> | Iterable<Uint8Array | string>
+): AsyncGenerator<DifyStreamEvent> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const chunk of chunks) {
+    buffer += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+
+    // 空行でイベントが区切られる
+    let separatorMatch = buffer.match(/\r?\n\r?\n/);
+    while (separatorMatch && separatorMatch.index !== undefined) {
+      const block = buffer.substring(0, separatorMatch.index);
+      buffer = buffer.substring(separatorMatch.index + separatorMatch[0].length);
+
+      const event = parseSseEventBlock(block);
+      if (event) {
+        yield event;
+      }
+
+      separatorMatch = buffer.match(/\r?\n\r?\n/);
+    }
+  }
+
+  // 末尾に区切りのないイベントが残っていれば処理する
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    const event = parseSseEventBlock(buffer);
+    if (event) {
+      yield event;
+    }
+  }
+}
+
+/**
+ * ストリーミングイベントから最終的なワークフロー実行結果を組み立てる
+ * workflow_finished イベントを受信するまでのイベントはハンドラーへ通知する
+ */
+export async function collectWorkflowResponse(
+  events: AsyncIterable<DifyStreamEvent>,
+  onEvent?: StreamEventHandler
+): Promise<DifyWorkflowResponse> {
+  let lastTaskId: string | undefined;
+
+  for await (const event of events) {
+    lastTaskId = event.task_id || lastTaskId;
+
+    if (onEvent) {
+      await onEvent(event);
+    }
+
+    if (event.event === "error") {
+      throw new Error(
+        `Dify workflow stream error: ${event.message || "Unknown error"} ` +
+        `(status: ${event.status}, code: ${event.code}, task_id: ${lastTaskId})`
+      );
+    }
+
+    if (event.event === "workflow_finished") {
+      return {
+        task_id: event.task_id,
+        workflow_run_id: event.workflow_run_id,
+        data: event.data
+      };
+    }
+  }
+
+  throw new Error(`Dify workflow stream ended without a workflow_finished event (task_id: ${lastTaskId})`);
+}
+
+/**
+ * チャットアプリ・テキスト生成アプリのストリーミングイベントから最終的な回答を組み立てる
+ * message / agent_message イベントの回答を連結し、message_end イベントで結果を返す
+ */
+export async function collectChatMessageResponse(
+  events: AsyncIterable<DifyStreamEvent>,
+  onEvent?: StreamEventHandler
+): Promise<DifyChatMessageResponse> {
+  let lastTaskId: string | undefined;
+  let workflowRunId: string | undefined;
+  let answer = "";
+
+  for await (const event of events) {
+    lastTaskId = event.task_id || lastTaskId;
+    // チャットフローでは workflow_started などのイベントにワークフローの実行IDが含まれる
+    workflowRunId = event.workflow_run_id || workflowRunId;
+
+    if (onEvent) {
+      await onEvent(event);
+    }
+
+    if (event.event === "error") {
+      throw new Error(
+        `Dify message stream error: ${event.message || "Unknown error"} ` +
+        `(status: ${event.status}, code: ${event.code}, task_id: ${lastTaskId})`
+      );
+    }
+
+    if ((event.event === "message" || event.event === "agent_message") && typeof event.answer === "string") {
+      answer += event.answer;
+    }
+
+    if (event.event === "message_end") {
+      return {
+        task_id: event.task_id,
+        message_id: event.message_id || event.id,
+        conversation_id: event.conversation_id,
+        ...(workflowRunId && { workflow_run_id: workflowRunId }),
+        answer,
+        metadata: event.metadata
+      };
+    }
+  }
+
+  throw new Error(`Dify message stream ended without a message_end event (task_id: ${lastTaskId})`);
+}
@@ -0,0 +1,164 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ParameterProperty } from "./converter.js";
+
+/**
+ * 引数の検証で見つかった違反
+ */
+export interface ArgumentViolation {
+  path: string;
+  message: string;
+}
+
+/**
+ * 引数の検証結果
+ * argumentsにはスキーマに定義されていないプロパティを除いた引数が入る
+ */
+export interface ArgumentValidationResult {
+  arguments: Record<string, any>;
+  violations: ArgumentViolation[];
+  droppedProperties: string[];
+}
+
+/**
+ * ツールのinputSchemaに対して引数を検証する
+ * 違反はすべて収集して返し、スキーマにないトップレベルのプロパティは取り除く
+ */
+export function validateToolArguments(
+  inputSchema: Tool["inputSchema"],
+  args: Record<string, any>
+): ArgumentValidationResult {
+  const properties = (inputSchema.properties || {}) as Record<string, ParameterProperty>;
+  const required = Array.isArray(inputSchema.required) ? inputSchema.required : [];
+  const violations: ArgumentViolation[] = [];
+  const droppedProperties: string[] = [];
+  const validArguments: Record<string, any> = {};
+
+  for (const [name, value] of Object.entries(args)) {
+    if (!(name in properties)) {
+      droppedProperties.push(name);
+      continue;
+    }
+    validArguments[name] = value;
+  }
+
+  for (const name of required) {
+    if (validArguments[name] === undefined || validArguments[name] === null) {
+      violations.push({ path: name, message: "is required" });
+    }
+  }
+
+  for (const [name, value] of Object.entries(validArguments)) {
+    // nullは未指定として扱う（必須項目の場合は上で違反として報告済み）
+    if (value === null) {
+      continue;
+    }
+    violations.push(...validateValue(properties[name], value, name));
+  }
+
+  return { arguments: validArguments, violations, droppedProperties };
+}
+
+/**
+ * 違反の一覧を読みやすい文字列に変換する
+ */
+export function formatViolations(violations: ArgumentViolation[]): string {
+  return violations.map(violation => `'${violation.path}' ${violation.message}`).join("; ");
+}
+
+/**
+ * 1つの値をプロパティのスキーマに対して検証する
+ */
+function validateValue(schema: ParameterProperty, value: unknown, path: string): ArgumentViolation[] {
+  if (value === null || value === undefined) {
+    return [{ path, message: `must be of type ${schema.type}, but received ${value}` }];
+  }
+
+  if (!matchesType(schema.type, value)) {
+    return [{ path, message: `must be of type ${schema.type}, but received ${describeType(value)}` }];
+  }
+
+  const violations: ArgumentViolation[] = [];
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    violations.push({
+      path,
+      message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(", ")}, but received ${JSON.stringify(value)}`
+    });
+  }
+
+  if (typeof value === "string") {
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({ path, message: `must be at most ${schema.maxLength} characters long, but has ${value.length}` });
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path, message: `must be greater than or equal to ${schema.minimum}, but received ${value}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path, message: `must be less than or equal to ${schema.maximum}, but received ${value}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({ path, message: `must contain at most ${schema.maxItems} items, but has ${value.length}` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        violations.push(...validateValue(schema.items as ParameterProperty, item, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (schema.type === "object" && typeof value === "object") {
+    const objectValue = value as Record<string, unknown>;
+    for (const name of schema.required || []) {
+      if (objectValue[name] === undefined || objectValue[name] === null) {
+        violations.push({ path: `${path}.${name}`, message: "is required" });
+      }
+    }
+    // ネストしたオブジェクトでは未定義のプロパティを許容する（Dify形式のファイル入力をそのまま渡すため）
+    for (const [name, propertySchema] of Object.entries(schema.properties || {})) {
+      const propertyValue = objectValue[name];
+      if (propertyValue !== undefined && propertyValue !== null) {
+        violations.push(...validateValue(propertySchema, propertyValue, `${path}.${name}`));
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * 値がJSON Schemaの型に一致するか判定する
+ */
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * エラーメッセージ用に値の型を説明する
+ */
+function describeType(value: unknown): string {
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
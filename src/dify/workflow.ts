@@ -1,7 +1,82 @@
-import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import {
+  Tool,
+  Resource,
+  ResourceTemplate,
+  ReadResourceResult,
+  Prompt,
+  GetPromptResult
+} from "@modelcontextprotocol/sdk/types.js";
 import { DifyService, WorkflowData } from "./service.js";
-import { convertDifyWorkflowToMCPTools } from "./converter.js";
-import { DifyWorkflowResponse } from "../types.js";
+import { convertDifyWorkflowToMCPTools, extractSelectFieldOptions } from "./converter.js";
+import { DifyWorkflowResponse, DifyChatMessageResponse, DifyWorkflowRunDetail } from "../types.js";
+import { WorkflowRunOptions } from "./client.js";
+import { CompanionTool, createCompanionTools, WORKFLOW_LOG_STATUSES } from "./companion.js";
+import { KnowledgeService, KnowledgeTool, createKnowledgeTools } from "./knowledge.js";
+import { DifyAppMode, detectAppMode, isChatAppMode, isCompletionAppMode } from "./mode.js";
+import { AppPrompt, createAllAppPrompts, buildPromptMessages } from "./prompts.js";
+import { ArgumentCompletion, completeArgumentValue } from "./completions.js";
+import {
+  JSON_MIME_TYPE,
+  WORKFLOW_RESOURCE_TEMPLATES,
+  WORKFLOW_LOGS_RESOURCE_TEMPLATE,
+  createWorkflowResource,
+  parseWorkflowResourceUri,
+  parseWorkflowLogListOptions
+} from "./resources.js";
+
+/**
+ * MCPのコンテンツ
+ */
+export type ToolContent =
+  | { type: "text"; text: string }
+  | { type: "audio"; data: string; mimeType: string };
+
+/**
+ * MCPのコンテンツとしてそのまま返すツールの実行結果
+ * 音声など、JSONのテキストとして返せない結果や、構造化コンテンツを伴う結果、ツールのエラーとして返す結果に使用する
+ */
+export class ToolContentResult {
+  readonly content: ToolContent[];
+  readonly structuredContent?: Record<string, unknown>;
+  readonly isError?: boolean;
+  
+  constructor(content: ToolContent[], structuredContent?: Record<string, unknown>, isError?: boolean) {
+    this.content = content;
+    this.structuredContent = structuredContent;
+    this.isError = isError;
+  }
+}
+
+/**
+ * 値がプレーンなオブジェクト（配列やnullではない）かどうかを判定する
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * ワークフロー実行の詳細から、エージェントが後続の判断に使う項目を抽出する
+ */
+export function summarizeWorkflowRun(run: DifyWorkflowRunDetail): Record<string, any> {
+  let outputs = run.outputs ?? null;
+  // 古いDifyは出力をJSON文字列で返す
+  if (typeof outputs === "string") {
+    try {
+      outputs = JSON.parse(outputs);
+    } catch {
+      // JSONでない場合は文字列のまま返す
+    }
+  }
+  
+  return {
+    workflow_run_id: run.id,
+    status: run.status,
+    outputs,
+    error: run.error ?? null,
+    elapsed_time: run.elapsed_time,
+    total_tokens: run.total_tokens
+  };
+}
 
 /**
  * ロガーインターフェース
@@ -43,21 +118,30 @@ export class WorkflowManager {
   private readonly logger: Logger;
   private readonly converter: WorkflowConverter;
   private workflowTools: Tool[] = [];
+  // ツール名とアプリの情報の対応（リソースの公開に使用する）
+  private workflowDataMap = new Map<string, WorkflowData>();
+  private appPrompts = new Map<string, AppPrompt>();
+  private companionTools = new Map<string, CompanionTool>();
+  private knowledgeTools = new Map<string, KnowledgeTool>();
+  private readonly knowledgeService: KnowledgeService | null;
   
   /**
    * コンストラクタ
    * @param difyService Difyサービス
    * @param logger ロガー（オプション）
    * @param converter ワークフロー変換機能（オプション）
+   * @param knowledgeService ナレッジベースのサービス（オプション。省略時は検索ツールを公開しない）
    */
   constructor(
     difyService: DifyService, 
     logger: Logger = new ConsoleLogger(),
-    converter: WorkflowConverter = new DefaultWorkflowConverter()
+    converter: WorkflowConverter = new DefaultWorkflowConverter(),
+    knowledgeService: KnowledgeService | null = null
   ) {
     this.difyService = difyService;
     this.logger = logger;
     this.converter = converter;
+    this.knowledgeService = knowledgeService;
   }
   
   /**
@@ -73,7 +157,30 @@ export class WorkflowManager {
       
       this.validateTools();
       
-      this.logger.error(`Successfully initialized ${this.workflowTools.length} workflow tools.`);
+      // 変換後のツールは workflowDataList と同じ順序で並ぶ
+      this.workflowDataMap = new Map(
+        this.workflowTools.map((tool, index) => [tool.name, workflowDataList[index]] as [string, WorkflowData])
+      );
+      
+      // アプリの紹介文と質問候補からプロンプトを作成
+      this.appPrompts = new Map(
+        createAllAppPrompts(workflowDataList, this.workflowTools).map(appPrompt => [appPrompt.prompt.name, appPrompt])
+      );
+      
+      // アプリのオプションで有効化された補助ツールを作成
+      this.companionTools = new Map(
+        this.createCompanionTools(workflowDataList, this.workflowTools).map(companion => [companion.tool.name, companion])
+      );
+      
+      // 設定されたナレッジベースごとに検索ツールを作成
+      const existingNames = new Set(this.getTools().map(tool => tool.name));
+      this.knowledgeTools = new Map(
+        (await this.createKnowledgeTools(existingNames)).map(knowledgeTool => [knowledgeTool.tool.name, knowledgeTool])
+      );
+      
+      this.logger.error(
+        `Successfully initialized ${this.workflowTools.length} workflow tools, ${this.companionTools.size} companion tools and ${this.knowledgeTools.size} knowledge tools.`
+      );
     } catch (error) {
       this.handleInitializationError(error);
       throw error;
@@ -94,6 +201,24 @@ export class WorkflowManager {
     return this.converter.convert(workflowDataList);
   }
   
+  /**
+   * 補助ツールを作成する（テスト用に分離）
+   */
+  protected createCompanionTools(workflowDataList: WorkflowData[], workflowTools: Tool[]): CompanionTool[] {
+    return createCompanionTools(workflowDataList, workflowTools);
+  }
+  
+  /**
+   * ナレッジベースの検索ツールを作成する（テスト用に分離）
+   */
+  protected async createKnowledgeTools(existingNames: Set<string>): Promise<KnowledgeTool[]> {
+    if (!this.knowledgeService) {
+      return [];
+    }
+    const datasetDataList = await this.knowledgeService.fetchAllDatasets();
+    return createKnowledgeTools(datasetDataList, existingNames);
+  }
+  
   /**
    * ツールの検証を行う（テスト用に分離）
    */
@@ -121,27 +246,310 @@ export class WorkflowManager {
    * 利用可能なツール一覧を取得する
    */
   getTools(): Tool[] {
-    return [...this.workflowTools];
+    return [
+      ...this.workflowTools,
+      ...Array.from(this.companionTools.values()).map(companion => companion.tool),
+      ...Array.from(this.knowledgeTools.values()).map(knowledgeTool => knowledgeTool.tool)
+    ];
+  }
+  
+  /**
+   * ツール名に対応するツール定義を取得する
+   */
+  getTool(toolName: string): Tool | undefined {
+    return this.workflowTools.find(tool => tool.name === toolName)
+      || this.companionTools.get(toolName)?.tool
+      || this.knowledgeTools.get(toolName)?.tool;
+  }
+  
+  /**
+   * 読み取り可能なリソース一覧を取得する
+   * アプリごとに /info と /parameters を、ワークフローアプリには実行ログのリソースも公開する
+   */
+  getResources(): Resource[] {
+    return Array.from(this.workflowDataMap.entries()).flatMap(([toolName, workflowData]) => [
+      createWorkflowResource(toolName, "info"),
+      createWorkflowResource(toolName, "parameters"),
+      ...(this.isWorkflowApp(workflowData) ? [createWorkflowResource(toolName, "logs")] : [])
+    ]);
+  }
+  
+  /**
+   * リソーステンプレート一覧を取得する
+   */
+  getResourceTemplates(): ResourceTemplate[] {
+    return [...WORKFLOW_RESOURCE_TEMPLATES];
+  }
+  
+  /**
+   * リソースURIに対応するリソースを読み取る
+   * 対応するリソースがない場合は undefined を返す
+   */
+  async readResource(uri: string): Promise<ReadResourceResult["contents"] | undefined> {
+    const location = parseWorkflowResourceUri(uri);
+    const workflowData = location && this.workflowDataMap.get(location.toolName);
+    if (!location || !workflowData) {
+      return undefined;
+    }
+    
+    switch (location.kind) {
+      // 初期化時に取得したレスポンスをそのまま返す
+      case "info":
+        return [{ uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(workflowData.infoData, null, 2) }];
+      case "parameters":
+        return [{ uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(workflowData.paramsData, null, 2) }];
+      case "logs": {
+        if (!this.isWorkflowApp(workflowData)) {
+          return undefined;
+        }
+        const options = parseWorkflowLogListOptions(uri, location.searchParams);
+        const logs = await this.difyService.getWorkflowLogs(location.toolName, options);
+        return [{ uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(logs, null, 2) }];
+      }
+      default:
+        return undefined;
+    }
+  }
+  
+  /**
+   * 利用可能なプロンプト一覧を取得する
+   */
+  getPrompts(): Prompt[] {
+    return Array.from(this.appPrompts.values()).map(appPrompt => appPrompt.prompt);
+  }
+  
+  /**
+   * プロンプト名に対応するプロンプトのメッセージを組み立てる
+   * 対応するプロンプトがない場合は undefined を返す
+   */
+  getPrompt(name: string, args?: Record<string, string>): GetPromptResult | undefined {
+    const appPrompt = this.appPrompts.get(name);
+    return appPrompt && buildPromptMessages(appPrompt, args);
+  }
+  
+  /**
+   * プロンプトの引数の値を補完する
+   * 選択肢を持つ入力フィールドに対応する引数は、/parameters の選択肢から候補を返す
+   * 対応するプロンプトがない場合は undefined を返す
+   */
+  completePromptArgument(promptName: string, argumentName: string, value: string): ArgumentCompletion | undefined {
+    const appPrompt = this.appPrompts.get(promptName);
+    if (!appPrompt) {
+      return undefined;
+    }
+    
+    const isPromptArgument = (appPrompt.prompt.arguments || []).some(argument => argument.name === argumentName);
+    const workflowData = this.workflowDataMap.get(appPrompt.toolName);
+    const options = isPromptArgument && workflowData
+      ? extractSelectFieldOptions(workflowData.paramsData)[argumentName] || []
+      : [];
+    
+    return completeArgumentValue(options, value);
+  }
+  
+  /**
+   * リソーステンプレートの変数の値を補完する
+   * toolName はアプリのツール名（実行ログはワークフローアプリのみ）、実行ログの status はステータスの一覧から候補を返す
+   * 選択肢を持つ入力フィールドに対応する変数と実行ログの keyword は、解決済みの toolName のアプリの選択肢から候補を返す
+   * 対応するリソーステンプレートがない場合は undefined を返す
+   * @param contextArguments - 解決済みの変数の値（completion/complete の context.arguments）
+   */
+  completeResourceTemplateArgument(
+    uriTemplate: string,
+    argumentName: string,
+    value: string,
+    contextArguments: Record<string, string> = {}
+  ): ArgumentCompletion | undefined {
+    const template = WORKFLOW_RESOURCE_TEMPLATES.find(candidate => candidate.uriTemplate === uriTemplate);
+    if (!template) {
+      return undefined;
+    }
+    
+    const isLogsTemplate = template === WORKFLOW_LOGS_RESOURCE_TEMPLATE;
+    let candidates: string[] = [];
+    if (argumentName === "toolName") {
+      candidates = Array.from(this.workflowDataMap.entries())
+        .filter(([, workflowData]) => !isLogsTemplate || this.isWorkflowApp(workflowData))
+        .map(([toolName]) => toolName);
+    } else if (argumentName === "status" && isLogsTemplate) {
+      candidates = [...WORKFLOW_LOG_STATUSES];
+    } else if (contextArguments.toolName) {
+      const workflowData = this.workflowDataMap.get(contextArguments.toolName);
+      const selectFieldOptions = workflowData ? extractSelectFieldOptions(workflowData.paramsData) : {};
+      // 実行ログは入力値のキーワードで検索できるため、すべての選択肢を候補とする
+      candidates = argumentName === "keyword" && isLogsTemplate
+        ? Array.from(new Set(Object.values(selectFieldOptions).flat()))
+        : selectFieldOptions[argumentName] || [];
+    }
+    
+    return completeArgumentValue(candidates, value);
+  }
+  
+  /**
+   * ワークフローアプリかどうかを判定する
+   */
+  private isWorkflowApp(workflowData: WorkflowData): boolean {
+    return (workflowData.mode || detectAppMode(workflowData.infoData, workflowData.paramsData)) === "workflow";
   }
   
   /**
    * ワークフローを実行する
+   * @param options - ストリーミングイベントのハンドラーなどの実行オプション（省略可）
    */
-  async executeWorkflow(toolName: string, params: Record<string, any>): Promise<any> {
+  async executeWorkflow(toolName: string, params: Record<string, any>, options?: WorkflowRunOptions): Promise<any> {
     try {
-      const result = await this.runWorkflow(toolName, params);
-      return this.extractOutputContent(result);
+      const companion = this.companionTools.get(toolName);
+      if (companion) {
+        return await this.runCompanionTool(companion, params);
+      }
+      
+      const knowledgeTool = this.knowledgeTools.get(toolName);
+      if (knowledgeTool) {
+        return await this.runKnowledgeTool(knowledgeTool, params);
+      }
+      
+      const result = await this.runWorkflow(toolName, params, options);
+      return this.extractOutputContent(result, this.difyService.getModeForWorkflow(toolName));
     } catch (error) {
       this.handleExecutionError(error, toolName, params);
       throw this.wrapExecutionError(error, toolName);
     }
   }
   
+  /**
+   * 実行中のワークフロータスクを停止する
+   */
+  async stopWorkflow(toolName: string, taskId: string): Promise<void> {
+    await this.difyService.stopWorkflowTask(toolName, taskId);
+    this.logger.error(`Stopped workflow task '${taskId}' for tool '${toolName}'`);
+  }
+  
   /**
    * ワークフローを実行する（テスト用に分離）
    */
-  protected async runWorkflow(toolName: string, params: Record<string, any>): Promise<DifyWorkflowResponse> {
-    return this.difyService.runWorkflow(toolName, params);
+  protected async runWorkflow(
+    toolName: string,
+    params: Record<string, any>,
+    options?: WorkflowRunOptions
+  ): Promise<DifyWorkflowResponse | DifyChatMessageResponse> {
+    return this.difyService.runWorkflow(toolName, params, options);
+  }
+  
+  /**
+   * 補助ツールを実行する（テスト用に分離）
+   */
+  protected async runCompanionTool(companion: CompanionTool, params: Record<string, any>): Promise<any> {
+    const { apiKey, action } = companion;
+    
+    switch (action) {
+      case "list-conversations":
+        return this.difyService.listConversationsWithKey(apiKey, {
+          limit: params.limit,
+          last_id: params.last_id,
+          sort_by: params.sort_by
+        });
+      case "get-messages":
+        return this.difyService.getMessagesWithKey(apiKey, params.conversation_id, {
+          limit: params.limit,
+          first_id: params.first_id
+        });
+      case "rename-conversation":
+        if (!params.name && !params.auto_generate) {
+          throw new Error(
+            `Tool '${companion.tool.name}' requires 'name' unless 'auto_generate' is true. Parameters: ${JSON.stringify(params)}`
+          );
+        }
+        return this.difyService.renameConversationWithKey(apiKey, params.conversation_id, {
+          name: params.name,
+          auto_generate: params.auto_generate
+        });
+      case "delete-conversation": {
+        const response = await this.difyService.deleteConversationWithKey(apiKey, params.conversation_id);
+        // 本文のない 204 が返された場合は削除したことを伝えるテキストを返す
+        return response ?? `Deleted conversation '${params.conversation_id}'`;
+      }
+      case "send-feedback":
+        return this.difyService.sendMessageFeedbackWithKey(apiKey, params.message_id, {
+          rating: params.rating,
+          content: params.content
+        });
+      case "text-to-audio": {
+        if (!params.text && !params.message_id) {
+          throw new Error(
+            `Tool '${companion.tool.name}' requires 'text' or 'message_id'. Parameters: ${JSON.stringify(params)}`
+          );
+        }
+        const audio = await this.difyService.textToAudioWithKey(apiKey, {
+          text: params.text,
+          message_id: params.message_id
+        });
+        return new ToolContentResult([
+          { type: "audio", data: audio.data.toString("base64"), mimeType: audio.mimeType }
+        ]);
+      }
+      case "speech-to-text": {
+        const transcription = await this.difyService.audioToTextWithKey(apiKey, params.audio);
+        return transcription.text;
+      }
+      case "get-workflow-run": {
+        const run = await this.difyService.getWorkflowRunWithKey(apiKey, params.workflow_run_id);
+        return summarizeWorkflowRun(run);
+      }
+      case "workflow-logs":
+        return this.difyService.getWorkflowLogs(companion.appToolName, {
+          status: params.status,
+          keyword: params.keyword,
+          page: params.page,
+          limit: params.limit
+        });
+      default:
+        throw new Error(`Unsupported companion tool action '${action}' for tool '${companion.tool.name}'`);
+    }
+  }
+  
+  /**
+   * ナレッジベースのツールを実行する（テスト用に分離）
+   */
+  protected async runKnowledgeTool(knowledgeTool: KnowledgeTool, params: Record<string, any>): Promise<any> {
+    if (!this.knowledgeService) {
+      throw new Error(`Knowledge service is not configured for tool '${knowledgeTool.tool.name}'`);
+    }
+    
+    switch (knowledgeTool.action) {
+      case "retrieve":
+        return this.knowledgeService.retrieve(knowledgeTool, {
+          query: params.query,
+          top_k: params.top_k,
+          score_threshold: params.score_threshold
+        });
+      case "create-document":
+        return this.knowledgeService.createDocument(knowledgeTool, { name: params.name, text: params.text });
+      case "update-document":
+        if (params.name === undefined && params.text === undefined) {
+          throw new Error(
+            `Tool '${knowledgeTool.tool.name}' requires 'name' or 'text'. Parameters: ${JSON.stringify(params)}`
+          );
+        }
+        return this.knowledgeService.updateDocument(knowledgeTool, params.document_id, {
+          name: params.name,
+          text: params.text
+        });
+      case "delete-document": {
+        const response = await this.knowledgeService.deleteDocument(knowledgeTool, params.document_id);
+        // 本文のない 204 が返された場合は削除したことを伝えるテキストを返す
+        return response ?? `Deleted document '${params.document_id}' from knowledge base '${knowledgeTool.datasetId}'`;
+      }
+      case "list-documents":
+        return this.knowledgeService.listDocuments(knowledgeTool, {
+          keyword: params.keyword,
+          page: params.page,
+          limit: params.limit
+        });
+      case "indexing-status":
+        return this.knowledgeService.getIndexingStatus(knowledgeTool, params.batch);
+      default:
+        throw new Error(`Unsupported knowledge tool action '${knowledgeTool.action}' for tool '${knowledgeTool.tool.name}'`);
+    }
   }
   
   /**
@@ -172,9 +580,47 @@ export class WorkflowManager {
   
   /**
    * レスポンスから出力コンテンツを抽出する
+   * @param mode - 実行したアプリのモード（レスポンスの形式の判定に使用する）
    */
-  protected extractOutputContent(result: DifyWorkflowResponse): any {
-    const outputContent = result.data?.outputs || result.result || result;
-    return outputContent;
+  protected extractOutputContent(result: DifyWorkflowResponse | DifyChatMessageResponse, mode: DifyAppMode): any {
+    // チャットアプリの場合は回答と会話ID・メッセージIDを返す
+    // メッセージIDはフィードバックの送信に、チャットフローの実行IDは実行結果の照会に使用する
+    if (isChatAppMode(mode)) {
+      return {
+        answer: result.answer,
+        conversation_id: result.conversation_id,
+        message_id: result.message_id || result.id,
+        ...(result.workflow_run_id && { workflow_run_id: result.workflow_run_id })
+      };
+    }
+    
+    // テキスト生成アプリは会話を持たないため、回答のテキストを返す
+    if (isCompletionAppMode(mode)) {
+      return result.answer;
+    }
+    
+    // 失敗・停止した実行は outputs がないため、エラーの内容をツールのエラーとして返す
+    if (result.data?.status && result.data.status !== "succeeded") {
+      return new ToolContentResult(
+        [{
+          type: "text",
+          text: `Workflow run '${result.workflow_run_id || result.data.id}' ${result.data.status}: ${result.data.error || "no error message was returned"}`
+        }],
+        undefined,
+        true
+      );
+    }
+    
+    // ワークフローの実行結果は実行IDと outputs を構造化コンテンツとして返し、テキストにはその内容をそのまま入れる
+    // 実行IDは後から実行結果を照会するために使用する
+    if (result.data) {
+      const structuredContent = {
+        ...(result.workflow_run_id && { workflow_run_id: result.workflow_run_id }),
+        outputs: isPlainObject(result.data.outputs) ? result.data.outputs : {}
+      };
+      return new ToolContentResult([{ type: "text", text: JSON.stringify(structuredContent) }], structuredContent);
+    }
+    
+    return result.result || result;
   }
-} 
\ No newline at end of file
+}
@@ -1,19 +1,108 @@
 #!/usr/bin/env node
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { setupServer } from "./server.js";
-import { appConfig } from "./config.js";
+import { setupServer, initializeWorkflowManager, createSessionServer } from "./server.js";
+import { EnvConfig, TransportConfig } from "./config.js";
+import { getWorkflowManager } from "./dify/api.js";
+import { WorkflowManager } from "./dify/workflow.js";
+import { StreamableHttpServer } from "./transport/http.js";
+import { SseHttpServer } from "./transport/sse.js";
+
+/**
+ * 標準入出力トランスポートでサーバーを起動する
+ */
+async function startStdioTransport(config: EnvConfig): Promise<void> {
+  const server = await setupServer(config, () => getWorkflowManager(config));
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+}
+
+/**
+ * ネットワークトランスポート用にワークフローマネージャーを一度だけ初期化する
+ * すべてのセッションでgetWorkflowManager()のシングルトンを共有する
+ */
+async function initializeSharedWorkflowManager(config: EnvConfig): Promise<WorkflowManager> {
+  const workflowManager = await initializeWorkflowManager(getWorkflowManager(config));
+  if (!workflowManager) {
+    throw new Error("Workflow manager could not be initialized");
+  }
+  return workflowManager;
+}
+
+/**
+ * シグナル受信時にHTTPサーバーを停止して終了するよう登録する
+ */
+function registerShutdownHandlers(name: string, stop: () => Promise<void>): void {
+  const shutdown = async (signal: string) => {
+    console.error(`Received ${signal}, shutting down ${name} server...`);
+    try {
+      await stop();
+      process.exit(0);
+    } catch (error) {
+      console.error(`Failed to shut down ${name} server:`, error);
+      process.exit(1);
+    }
+  };
+  process.once("SIGINT", () => shutdown("SIGINT"));
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+}
+
+/**
+ * Streamable HTTPトランスポートでサーバーを起動する
+ * ワークフロー情報は一度だけ取得し、セッションごとにServerインスタンスを生成する
+ */
+async function startStreamableHttpTransport(config: EnvConfig, transportConfig: TransportConfig): Promise<void> {
+  const workflowManager = await initializeSharedWorkflowManager(config);
+
+  const httpServer = new StreamableHttpServer(
+    transportConfig,
+    () => createSessionServer(workflowManager, config.getServerConfig())
+  );
+  await httpServer.start();
+
+  registerShutdownHandlers("Streamable HTTP", () => httpServer.stop());
+}
+
+/**
+ * 旧来のHTTP+SSEトランスポートでサーバーを起動する
+ * ワークフロー情報は一度だけ取得し、SSE接続ごとにServerインスタンスを生成する
+ */
+async function startSseTransport(config: EnvConfig, transportConfig: TransportConfig): Promise<void> {
+  const workflowManager = await initializeSharedWorkflowManager(config);
+
+  const sseServer = new SseHttpServer(
+    transportConfig,
+    () => createSessionServer(workflowManager, config.getServerConfig())
+  );
+  await sseServer.start();
+
+  registerShutdownHandlers("SSE", () => sseServer.stop());
+}
 
 /**
  * メイン関数
  */
 async function main() {
   try {
+    // コマンドライン引数は環境変数より優先される
+    const config = new EnvConfig(process.env, process.argv.slice(2));
+
     // 設定を検証（この検証はsetupServerでも行われるが、早期に失敗するために二重に行う）
-    appConfig.validateStrict();
-    
-    const server = await setupServer();
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+    config.validateStrict();
+
+    const transportConfig = config.getTransportConfig();
+
+    switch (transportConfig.type) {
+      case "http":
+        await startStreamableHttpTransport(config, transportConfig);
+        break;
+      case "sse":
+        await startSseTransport(config, transportConfig);
+        break;
+      case "stdio":
+      default:
+        await startStdioTransport(config);
+        break;
+    }
   } catch (error) {
     console.error("Failed to start server:");
     if (error instanceof Error) {
@@ -26,4 +115,4 @@ async function main() {
   }
 }
 
-main();
\ No newline at end of file
+main();
@@ -1,11 +1,33 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import { 
   ListToolsRequestSchema,
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
+  ElicitResultSchema,
+  ClientCapabilities,
+  ServerRequest,
+  ServerNotification,
+  McpError,
+  ErrorCode,
 } from "@modelcontextprotocol/sdk/types.js";
 import { appConfig } from "./config.js";
 import { getWorkflowManager } from "./dify/api.js";
-import { WorkflowManager } from "./dify/workflow.js";
+import { WorkflowManager, ToolContentResult } from "./dify/workflow.js";
+import { StreamEventHandler } from "./dify/stream.js";
+import { validateToolArguments, formatViolations } from "./dify/validator.js";
+import { findMissingRequiredInputs, createElicitationSchema, mergeElicitedInputs } from "./dify/elicitation.js";
+import { DifyStreamEvent } from "./types.js";
+
+/**
+ * Extra information passed to request handlers by the MCP server
+ */
+export type ToolRequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
 
 /**
  * Server initialization error handler function
@@ -53,28 +75,351 @@ export function setupRequestHandlers(server: Server, workflowManager: WorkflowMa
   });
   
   // Tool execution request handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    return handleCallToolRequest(workflowManager, request);
+  // notifications/cancelled from the client aborts extra.signal, which stops the running Dify task
+  // Missing required inputs are asked from the user when the client supports elicitation
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    return handleCallToolRequest(workflowManager, request, extra, server.getClientCapabilities());
+  });
+  
+  // Resources list request handler
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: workflowManager.getResources() };
+  });
+  
+  // Resource templates list request handler
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: workflowManager.getResourceTemplates() };
+  });
+  
+  // Resource read request handler
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return handleReadResourceRequest(workflowManager, request);
+  });
+  
+  // Prompts list request handler
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: workflowManager.getPrompts() };
+  });
+  
+  // Prompt get request handler
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return handleGetPromptRequest(workflowManager, request);
+  });
+  
+  // Argument completion request handler
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    return handleCompleteRequest(workflowManager, request);
   });
 }
 
+/**
+ * Handle resource read request
+ */
+export async function handleReadResourceRequest(workflowManager: WorkflowManager, request: any) {
+  const uri = request.params.uri as string;
+  
+  let contents;
+  try {
+    contents = await workflowManager.readResource(uri);
+  } catch (error) {
+    console.error(`Error reading resource '${uri}':`, error);
+    throw error;
+  }
+  
+  if (!contents) {
+    const message = `Resource not found: '${uri}'`;
+    console.error(`${message}. Available resources: ${workflowManager.getResources().map(resource => resource.uri).join(", ")}`);
+    throw new McpError(ErrorCode.InvalidParams, message, { uri });
+  }
+  
+  return { contents };
+}
+
+/**
+ * Handle prompt get request
+ * Unknown prompts and missing required arguments are reported as InvalidParams
+ */
+export function handleGetPromptRequest(workflowManager: WorkflowManager, request: any) {
+  const name = request.params.name as string;
+  const args = (request.params.arguments || {}) as Record<string, string>;
+  
+  const prompt = workflowManager.getPrompts().find(candidate => candidate.name === name);
+  if (!prompt) {
+    const message = `Prompt not found: '${name}'`;
+    console.error(`${message}. Available prompts: ${workflowManager.getPrompts().map(candidate => candidate.name).join(", ")}`);
+    throw new McpError(ErrorCode.InvalidParams, message, { name });
+  }
+  
+  const missingArguments = (prompt.arguments || [])
+    .filter(argument => argument.required && !args[argument.name])
+    .map(argument => argument.name);
+  if (missingArguments.length > 0) {
+    const message = `Missing required arguments for prompt '${name}': ${missingArguments.join(", ")}`;
+    console.error(`${message}. Arguments: ${JSON.stringify(args)}`);
+    throw new McpError(ErrorCode.InvalidParams, message, { missingArguments });
+  }
+  
+  return workflowManager.getPrompt(name, args)!;
+}
+
+/**
+ * Handle argument completion request for prompt arguments and resource template variables
+ * Unknown prompts and resource templates are reported as InvalidParams
+ */
+export function handleCompleteRequest(workflowManager: WorkflowManager, request: any) {
+  const ref = request.params.ref as { type: string; name?: string; uri?: string };
+  const argument = request.params.argument as { name: string; value: string };
+  const contextArguments = request.params.context?.arguments as Record<string, string> | undefined;
+  
+  if (ref.type === "ref/prompt") {
+    const completion = workflowManager.completePromptArgument(ref.name!, argument.name, argument.value);
+    if (!completion) {
+      const message = `Prompt not found: '${ref.name}'`;
+      console.error(`${message}. Available prompts: ${workflowManager.getPrompts().map(prompt => prompt.name).join(", ")}`);
+      throw new McpError(ErrorCode.InvalidParams, message, { name: ref.name });
+    }
+    return { completion };
+  }
+  
+  const completion = workflowManager.completeResourceTemplateArgument(ref.uri!, argument.name, argument.value, contextArguments);
+  if (!completion) {
+    const message = `Resource template not found: '${ref.uri}'`;
+    console.error(
+      `${message}. Available resource templates: ${workflowManager.getResourceTemplates().map(template => template.uriTemplate).join(", ")}`
+    );
+    throw new McpError(ErrorCode.InvalidParams, message, { uri: ref.uri });
+  }
+  return { completion };
+}
+
+/**
+ * Build a human readable progress message for a Dify streaming event
+ * Returns undefined for events that should not be reported (e.g. ping)
+ */
+export function describeStreamEvent(event: DifyStreamEvent): string | undefined {
+  const data = event.data || {};
+  
+  switch (event.event) {
+    case "workflow_started":
+      // Report the run ID early so the run can be looked up even if the client gives up waiting
+      return event.workflow_run_id ? `Workflow started (workflow_run_id: ${event.workflow_run_id})` : "Workflow started";
+    case "node_started":
+      return `Node started: ${data.title || data.node_id} (${data.node_type})`;
+    case "node_finished":
+      return `Node finished: ${data.title || data.node_id} (${data.status})`;
+    case "text_chunk":
+      return data.text;
+    case "workflow_finished":
+      return `Workflow finished: ${data.status}`;
+    case "message":
+    case "agent_message":
+      return event.answer || undefined;
+    case "message_end":
+      return "Message finished";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Create a stream event handler that sends MCP progress notifications to the caller
+ * Returns undefined when the caller did not request progress with a progressToken
+ */
+export function createProgressHandler(request: any, extra?: ToolRequestExtra): StreamEventHandler | undefined {
+  const progressToken = request.params?._meta?.progressToken;
+  
+  if (progressToken === undefined || !extra) {
+    return undefined;
+  }
+  
+  let progress = 0;
+  
+  return async (event: DifyStreamEvent) => {
+    const message = describeStreamEvent(event);
+    if (message === undefined) {
+      return;
+    }
+    
+    progress++;
+    
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, message }
+      });
+    } catch (error) {
+      // A failed progress notification should not abort the workflow run
+      console.error(`Failed to send progress notification for tool '${request.params.name}' (progressToken: ${progressToken}):`, error);
+    }
+  };
+}
+
+/**
+ * Track the Dify task of an in-flight tool call and stop it when the MCP client cancels the request
+ * The MCP server aborts extra.signal when it receives notifications/cancelled for the request
+ */
+export function trackWorkflowTask(
+  workflowManager: WorkflowManager,
+  toolName: string,
+  extra?: ToolRequestExtra
+): { onEvent: StreamEventHandler; release(): void } {
+  let taskId: string | undefined;
+  
+  const onAbort = () => {
+    if (!taskId) {
+      console.error(`Tool call '${toolName}' was cancelled before a Dify task_id was received. The workflow cannot be stopped.`);
+      return;
+    }
+    
+    console.error(`Tool call '${toolName}' was cancelled. Stopping Dify task '${taskId}'...`);
+    workflowManager.stopWorkflow(toolName, taskId).catch((error) => {
+      console.error(`Failed to stop Dify task '${taskId}' for tool '${toolName}':`, error);
+    });
+  };
+  
+  extra?.signal.addEventListener("abort", onAbort, { once: true });
+  
+  return {
+    onEvent: (event: DifyStreamEvent) => {
+      if (event.task_id) {
+        taskId = event.task_id;
+      }
+    },
+    release: () => {
+      extra?.signal.removeEventListener("abort", onAbort);
+    }
+  };
+}
+
+/**
+ * Validate tool arguments against the inputSchema of the tool before calling Dify
+ * Arguments that are not defined in the schema are dropped, and every violation is reported as InvalidParams
+ */
+export function validateCallToolArguments(
+  workflowManager: WorkflowManager,
+  toolName: string,
+  workflowParams: Record<string, any>
+): Record<string, any> {
+  const tool = workflowManager.getTool(toolName);
+  
+  // Unknown tools are reported by the workflow execution itself
+  if (!tool) {
+    return workflowParams;
+  }
+  
+  const result = validateToolArguments(tool.inputSchema, workflowParams);
+  
+  if (result.droppedProperties.length > 0) {
+    console.error(`Ignoring arguments not defined in the inputSchema of tool '${toolName}': ${result.droppedProperties.join(", ")}`);
+  }
+  
+  if (result.violations.length > 0) {
+    const message = `Invalid arguments for tool '${toolName}': ${formatViolations(result.violations)}`;
+    console.error(`${message}. Parameters: ${JSON.stringify(workflowParams)}`);
+    throw new McpError(ErrorCode.InvalidParams, message, { violations: result.violations });
+  }
+  
+  return result.arguments;
+}
+
+/**
+ * Ask the user for required inputs that the model left out, using elicitation/create
+ * The arguments are returned unchanged when nothing is missing, the client does not support form elicitation,
+ * a missing input cannot be entered in a form (e.g. files) or the user declines, so that validation reports them
+ */
+export async function elicitMissingInputs(
+  workflowManager: WorkflowManager,
+  toolName: string,
+  workflowParams: Record<string, any>,
+  extra?: ToolRequestExtra,
+  clientCapabilities?: ClientCapabilities
+): Promise<Record<string, any>> {
+  if (!extra || !clientCapabilities?.elicitation?.form) {
+    return workflowParams;
+  }
+  
+  const tool = workflowManager.getTool(toolName);
+  const missingInputs = tool ? findMissingRequiredInputs(tool, workflowParams) : [];
+  if (!tool || missingInputs.length === 0) {
+    return workflowParams;
+  }
+  
+  const requestedSchema = createElicitationSchema(tool, missingInputs);
+  if (!requestedSchema) {
+    console.error(`Cannot ask for missing inputs of tool '${toolName}' because some of them cannot be entered in a form: ${missingInputs.join(", ")}`);
+    return workflowParams;
+  }
+  
+  try {
+    const result = await extra.sendRequest(
+      {
+        method: "elicitation/create",
+        params: {
+          message: `Tool '${toolName}' needs the following required inputs: ${missingInputs.join(", ")}`,
+          requestedSchema
+        }
+      },
+      ElicitResultSchema
+    );
+    
+    if (result.action !== "accept") {
+      console.error(`The user chose to ${result.action} the request for missing inputs of tool '${toolName}': ${missingInputs.join(", ")}`);
+      return workflowParams;
+    }
+    
+    return mergeElicitedInputs(workflowParams, result.content);
+  } catch (error) {
+    // Fall back to reporting the missing inputs as invalid arguments
+    console.error(`Failed to ask for missing inputs of tool '${toolName}': ${missingInputs.join(", ")}`, error);
+    return workflowParams;
+  }
+}
+
 /**
  * Handle tool execution request
  */
-export async function handleCallToolRequest(workflowManager: WorkflowManager, request: any) {
+export async function handleCallToolRequest(
+  workflowManager: WorkflowManager,
+  request: any,
+  extra?: ToolRequestExtra,
+  clientCapabilities?: ClientCapabilities
+) {
   const toolName = request.params.name;
-  const workflowParams = request.params.arguments as Record<string, any> | undefined;
+  const requestParams = request.params.arguments as Record<string, any> | undefined;
   
   // Error if parameters are undefined
-  if (workflowParams === undefined) {
+  if (requestParams === undefined) {
     const error = new Error(`Workflow parameters are undefined for tool '${toolName}'. Request: ${JSON.stringify(request)}`);
     console.error(error.message);
     throw error;
   }
   
+  const elicitedParams = await elicitMissingInputs(workflowManager, toolName, requestParams, extra, clientCapabilities);
+  const workflowParams = validateCallToolArguments(workflowManager, toolName, elicitedParams);
+  
+  // Report streaming events as progress when requested, and remember the task_id for cancellation
+  const progressHandler = createProgressHandler(request, extra);
+  const taskTracker = trackWorkflowTask(workflowManager, toolName, extra);
+  const onEvent = async (event: DifyStreamEvent) => {
+    taskTracker.onEvent(event);
+    await progressHandler?.(event);
+  };
+  
   try {
     // Execute workflow
-    const outputContent = await workflowManager.executeWorkflow(toolName, workflowParams);
+    const outputContent = await workflowManager.executeWorkflow(toolName, workflowParams, {
+      onEvent,
+      signal: extra?.signal
+    });
+    
+    // Results such as audio, workflow outputs with structured content or failed workflow runs are returned as MCP content as they are
+    if (outputContent instanceof ToolContentResult) {
+      return {
+        content: outputContent.content,
+        ...(outputContent.structuredContent !== undefined && { structuredContent: outputContent.structuredContent }),
+        ...(outputContent.isError && { isError: true })
+      };
+    }
     
     return {
       content: [
@@ -85,6 +430,12 @@ export async function handleCallToolRequest(workflowManager: WorkflowManager, re
       ]
     };
   } catch (error) {
+    // The client no longer waits for a result once it has cancelled the request
+    if (extra?.signal.aborted) {
+      console.error(`Tool call '${toolName}' was cancelled by the client. Reason: ${extra.signal.reason}`);
+      throw new Error(`Tool call '${toolName}' was cancelled by the client`);
+    }
+    
     console.error(`Error executing tool '${toolName}':`, error);
     
     if (error instanceof Error) {
@@ -95,6 +446,8 @@ export async function handleCallToolRequest(workflowManager: WorkflowManager, re
       console.error(`Parameters: ${JSON.stringify(workflowParams)}`);
       throw genericError;
     }
+  } finally {
+    taskTracker.release();
   }
 }
 
@@ -104,13 +457,27 @@ export async function handleCallToolRequest(workflowManager: WorkflowManager, re
 export function createServer(serverConfig = appConfig.getServerConfig()): Server {
   return new Server(serverConfig, {
     capabilities: {
-      tools: {
-        enabled: true
-      }
+      tools: {},
+      resources: {},
+      prompts: {},
+      completions: {}
     }
   });
 }
 
+/**
+ * Create a server instance with request handlers bound to an initialized workflow manager
+ * Used by network transports to create one server per client session
+ */
+export function createSessionServer(
+  workflowManager: WorkflowManager,
+  serverConfig = appConfig.getServerConfig()
+): Server {
+  const server = createServer(serverConfig);
+  setupRequestHandlers(server, workflowManager);
+  return server;
+}
+
 /**
  * Set up and initialize MCP Server
  */
@@ -125,11 +492,6 @@ export async function setupServer(
   const workflowManager = workflowManagerFactory();
   await initializeWorkflowManager(workflowManager);
   
-  // Create server
-  const server = createServer(config.getServerConfig());
-  
-  // Set up request handlers
-  setupRequestHandlers(server, workflowManager);
-  
-  return server;
+  // Create server and set up request handlers
+  return createSessionServer(workflowManager, config.getServerConfig());
 } 
\ No newline at end of file
@@ -0,0 +1,237 @@
+import { createServer as createHttpServer, IncomingMessage, ServerResponse, Server as HttpServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+
+/**
+ * ロガーインターフェース
+ */
+export interface Logger {
+  error(message: string, ...args: any[]): void;
+}
+
+/**
+ * デフォルトロガー実装
+ */
+export class ConsoleLogger implements Logger {
+  error(message: string, ...args: any[]): void {
+    console.error(message, ...args);
+  }
+}
+
+/**
+ * HTTPで待ち受けるトランスポートに共通のオプション
+ */
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+}
+
+/**
+ * セッションごとに保持するServerインスタンス
+ */
+export interface HttpSession {
+  server: Server;
+}
+
+/**
+ * ループバックアドレスとして扱うホスト名
+ */
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1"];
+
+/**
+ * すべてのネットワークインターフェースで待ち受けるホスト名
+ */
+const WILDCARD_HOSTS = ["", "0.0.0.0", "::"];
+
+/**
+ * JSON-RPCエラーレスポンスを送信する
+ */
+export function sendJsonRpcError(res: ServerResponse, httpStatus: number, code: number, message: string): void {
+  res.writeHead(httpStatus, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null
+  }));
+}
+
+/**
+ * リクエストボディを読み込みJSONとして解析する
+ */
+export async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+}
+
+/**
+ * 待ち受けるホストとポートから、DNSリバインディング対策で許可するHostヘッダーの一覧を作成する
+ * ループバックアドレスの場合は localhost・127.0.0.1・[::1] のいずれも許可する
+ * すべてのインターフェースで待ち受ける場合はHostヘッダーを特定できないため undefined を返す
+ */
+export function getAllowedHosts(host: string, port: number): string[] | undefined {
+  if (WILDCARD_HOSTS.includes(host)) {
+    return undefined;
+  }
+
+  const hostnames = LOOPBACK_HOSTS.includes(host) ? LOOPBACK_HOSTS : [host];
+  return hostnames.map(hostname => `${hostname.includes(":") ? `[${hostname}]` : hostname}:${port}`);
+}
+
+/**
+ * HTTPで待ち受けるトランスポートの基底クラス
+ * HTTPサーバーの起動・停止とセッションの管理を共通化し、ルーティングはサブクラスで実装する
+ */
+export abstract class BaseHttpServer<TOptions extends HttpServerOptions, TSession extends HttpSession> {
+  protected readonly options: TOptions;
+  protected readonly serverFactory: () => Server;
+  protected readonly logger: Logger;
+  protected readonly sessions = new Map<string, TSession>();
+  private httpServer: HttpServer | null = null;
+
+  /**
+   * ログとエラーメッセージに使うトランスポート名
+   */
+  protected abstract readonly transportName: string;
+
+  /**
+   * @param options - ホスト、ポート、パスの設定
+   * @param serverFactory - セッションごとのServerインスタンスを生成する関数
+   * @param logger - ロガー（省略可）
+   */
+  constructor(
+    options: TOptions,
+    serverFactory: () => Server,
+    logger: Logger = new ConsoleLogger()
+  ) {
+    this.options = options;
+    this.serverFactory = serverFactory;
+    this.logger = logger;
+  }
+
+  /**
+   * HTTPサーバーを起動する
+   */
+  async start(): Promise<void> {
+    if (this.httpServer) {
+      throw new Error(`${this.transportName} server is already running on ${this.options.host}:${this.options.port}`);
+    }
+
+    const httpServer = createHttpServer((req, res) => {
+      this.handleHttpRequest(req, res).catch((error) => {
+        this.handleRequestError(error, req, res);
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+    this.onStarted();
+
+    const address = this.getAddress();
+    this.logger.error(`${this.transportName} server listening on http://${this.options.host}:${address?.port}${this.getEndpointPath()}`);
+    if (!this.getAllowedHosts()) {
+      this.logger.error(
+        `Warning: DNS rebinding protection is disabled because the server listens on all interfaces (${this.options.host || "*"}). ` +
+        "Bind to a specific host to restrict the accepted Host headers."
+      );
+    }
+  }
+
+  /**
+   * すべてのセッションを閉じてHTTPサーバーを停止する
+   */
+  async stop(): Promise<void> {
+    this.onStopping();
+
+    for (const [sessionId, session] of Array.from(this.sessions.entries())) {
+      try {
+        await session.server.close();
+      } catch (error) {
+        this.logger.error(`Failed to close ${this.transportName} session '${sessionId}':`, error);
+      }
+      this.sessions.delete(sessionId);
+    }
+
+    const httpServer = this.httpServer;
+    if (!httpServer) {
+      return;
+    }
+
+    this.httpServer = null;
+    await new Promise<void>((resolve, reject) => {
+      httpServer.close((error) => error ? reject(error) : resolve());
+      // 待機中のkeep-alive接続やストリームが残っていても停止できるようにする
+      httpServer.closeAllConnections();
+    });
+  }
+
+  /**
+   * 待ち受け中のアドレスを取得する
+   */
+  getAddress(): AddressInfo | null {
+    const address = this.httpServer?.address();
+    return address && typeof address === "object" ? address : null;
+  }
+
+  /**
+   * 現在アクティブなセッション数を取得する
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * DNSリバインディング対策で許可するHostヘッダーの一覧を取得する
+   * ポート0で起動した場合に備えて、実際に待ち受けているポートを使う
+   */
+  protected getAllowedHosts(): string[] | undefined {
+    return getAllowedHosts(this.options.host, this.getAddress()?.port ?? this.options.port);
+  }
+
+  /**
+   * 起動ログに表示するエンドポイントのパスを取得する
+   */
+  protected abstract getEndpointPath(): string;
+
+  /**
+   * HTTPリクエストをトランスポートごとのエンドポイントに振り分ける
+   */
+  protected abstract handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void>;
+
+  /**
+   * HTTPサーバーの起動後に呼ばれる（サブクラスでタイマーなどを開始する）
+   */
+  protected onStarted(): void {}
+
+  /**
+   * HTTPサーバーの停止前に呼ばれる（サブクラスでタイマーなどを停止する）
+   */
+  protected onStopping(): void {}
+
+  /**
+   * リクエスト処理中の予期しないエラーを処理する
+   */
+  private handleRequestError(error: unknown, req: IncomingMessage, res: ServerResponse): void {
+    this.logger.error(`Error handling ${req.method} ${req.url}:`, error);
+    if (error instanceof Error) {
+      this.logger.error(`Error stack: ${error.stack}`);
+    }
+
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, -32603, "Internal server error");
+    } else {
+      res.end();
+    }
+  }
+}
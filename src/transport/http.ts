@@ -0,0 +1,263 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { BaseHttpServer, HttpServerOptions, HttpSession, sendJsonRpcError, readJsonBody } from "./base.js";
+
+/**
+ * Streamable HTTPトランスポートのオプション
+ */
+export interface HttpTransportOptions extends HttpServerOptions {
+  path: string;
+  // リクエストのないセッションを破棄するまでの時間（ミリ秒）
+  sessionIdleTimeoutMs?: number;
+}
+
+/**
+ * セッションごとに保持するサーバーとトランスポートの組
+ */
+interface StreamableHttpSession extends HttpSession {
+  transport: StreamableHTTPServerTransport;
+  // 最後にリクエストを受け付けた、または処理し終えた時刻
+  lastActivityAt: number;
+  // 処理中のリクエスト（開いている通知ストリームを含む）の数
+  activeRequests: number;
+}
+
+/**
+ * リクエストのないセッションを破棄するまでの既定の時間（30分）
+ */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * アイドル状態のセッションを確認する最大の間隔（1分）
+ */
+const MAX_IDLE_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * MCPセッションIDを格納するHTTPヘッダー名
+ */
+export const SESSION_ID_HEADER = "mcp-session-id";
+
+/**
+ * リクエストヘッダーからセッションIDを取得する
+ */
+export function getSessionIdHeader(req: IncomingMessage): string | undefined {
+  const header = req.headers[SESSION_ID_HEADER];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * Streamable HTTPトランスポートでMCPサーバーを公開するクラス
+ * クライアントのセッションごとに個別のServerインスタンスを生成する
+ */
+export class StreamableHttpServer extends BaseHttpServer<HttpTransportOptions, StreamableHttpSession> {
+  protected readonly transportName = "Streamable HTTP";
+  private idleSessionTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * 切断されたクライアントのセッションが残り続けないよう、定期的にアイドル状態のセッションを破棄する
+   */
+  protected onStarted(): void {
+    const idleTimeout = this.getSessionIdleTimeout();
+    this.idleSessionTimer = setInterval(() => {
+      this.closeIdleSessions().catch((error) => {
+        this.logger.error("Failed to close idle Streamable HTTP sessions:", error);
+      });
+    }, Math.min(idleTimeout, MAX_IDLE_CHECK_INTERVAL_MS));
+    this.idleSessionTimer.unref();
+  }
+
+  /**
+   * アイドル状態のセッションを確認するタイマーを停止する
+   */
+  protected onStopping(): void {
+    if (this.idleSessionTimer) {
+      clearInterval(this.idleSessionTimer);
+      this.idleSessionTimer = null;
+    }
+  }
+
+  /**
+   * 処理中のリクエストがなく、アイドル時間を超えたセッションを閉じる
+   * @param now - 現在時刻（テスト用）
+   */
+  async closeIdleSessions(now: number = Date.now()): Promise<void> {
+    const idleTimeout = this.getSessionIdleTimeout();
+
+    for (const [sessionId, session] of Array.from(this.sessions.entries())) {
+      if (session.activeRequests > 0 || now - session.lastActivityAt < idleTimeout) {
+        continue;
+      }
+
+      this.logger.error(`Closing Streamable HTTP session '${sessionId}' after ${idleTimeout}ms of inactivity`);
+      this.sessions.delete(sessionId);
+      try {
+        await session.server.close();
+      } catch (error) {
+        this.logger.error(`Failed to close idle session '${sessionId}':`, error);
+      }
+    }
+  }
+
+  /**
+   * リクエストのないセッションを破棄するまでの時間を取得する
+   */
+  private getSessionIdleTimeout(): number {
+    return this.options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  }
+
+  /**
+   * 起動ログに表示するエンドポイントのパスを取得する
+   */
+  protected getEndpointPath(): string {
+    return this.options.path;
+  }
+
+  /**
+   * HTTPリクエストを処理する
+   */
+  protected async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const requestPath = new URL(req.url || "/", "http://localhost").pathname;
+
+    if (requestPath !== this.options.path) {
+      sendJsonRpcError(res, 404, -32000, `Not Found: ${requestPath}`);
+      return;
+    }
+
+    switch (req.method) {
+      case "POST":
+        await this.handlePostRequest(req, res);
+        return;
+      case "GET":
+      case "DELETE":
+        await this.handleSessionRequest(req, res);
+        return;
+      default:
+        sendJsonRpcError(res, 405, -32000, `Method not allowed: ${req.method}`);
+    }
+  }
+
+  /**
+   * POSTリクエストを処理する
+   * セッションIDがなければ初期化リクエストとして新しいセッションを作成する
+   */
+  private async handlePostRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      this.logger.error(`Failed to parse request body for POST ${this.options.path}:`, error);
+      sendJsonRpcError(res, 400, -32700, "Parse error: Request body is not valid JSON");
+      return;
+    }
+
+    const sessionId = getSessionIdHeader(req);
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+        return;
+      }
+      await this.handleTransportRequest(session, req, res, body);
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const session = await this.createSession();
+    try {
+      await this.handleTransportRequest(session, req, res, body);
+    } finally {
+      // 初期化に失敗したセッション（Hostヘッダーの拒否など）は登録されないため、ここで閉じる
+      if (!session.transport.sessionId) {
+        await this.closeUninitializedSession(session);
+      }
+    }
+  }
+
+  /**
+   * 初期化に失敗したセッションのトランスポートとServerを閉じる
+   */
+  private async closeUninitializedSession(session: StreamableHttpSession): Promise<void> {
+    try {
+      await session.transport.close();
+      await session.server.close();
+    } catch (error) {
+      this.logger.error("Failed to close uninitialized Streamable HTTP session:", error);
+    }
+  }
+
+  /**
+   * 既存セッションに対するGET（通知ストリーム）とDELETE（セッション終了）を処理する
+   */
+  private async handleSessionRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = getSessionIdHeader(req);
+
+    if (!sessionId) {
+      sendJsonRpcError(res, 400, -32000, `Bad Request: ${SESSION_ID_HEADER} header is required for ${req.method}`);
+      return;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+      return;
+    }
+
+    await this.handleTransportRequest(session, req, res);
+  }
+
+  /**
+   * セッションのトランスポートにリクエストを渡し、アイドル判定のためにリクエストの開始と終了を記録する
+   */
+  private async handleTransportRequest(
+    session: StreamableHttpSession,
+    req: IncomingMessage,
+    res: ServerResponse,
+    body?: unknown
+  ): Promise<void> {
+    session.activeRequests++;
+    session.lastActivityAt = Date.now();
+    res.once("close", () => {
+      session.activeRequests--;
+      session.lastActivityAt = Date.now();
+    });
+
+    await session.transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * 新しいセッション用のServerとトランスポートを作成して接続する
+   */
+  private async createSession(): Promise<StreamableHttpSession> {
+    const server = this.serverFactory();
+    // ブラウザからのDNSリバインディングを防ぐため、待ち受けアドレス以外のHostヘッダーを拒否する
+    const allowedHosts = this.getAllowedHosts();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, session);
+        this.logger.error(`Streamable HTTP session initialized: ${sessionId} (active sessions: ${this.sessions.size})`);
+      },
+      enableDnsRebindingProtection: allowedHosts !== undefined,
+      allowedHosts
+    });
+    const session: StreamableHttpSession = { server, transport, lastActivityAt: Date.now(), activeRequests: 0 };
+
+    // トランスポートが閉じられたらセッションを破棄する（DELETEリクエストやサーバー停止時）
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && this.sessions.delete(sessionId)) {
+        this.logger.error(`Streamable HTTP session closed: ${sessionId} (active sessions: ${this.sessions.size})`);
+      }
+    };
+
+    await server.connect(transport);
+    return session;
+  }
+}
@@ -0,0 +1,112 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { BaseHttpServer, HttpServerOptions, HttpSession, sendJsonRpcError, readJsonBody } from "./base.js";
+
+/**
+ * HTTP+SSEトランスポートのオプション
+ */
+export interface SseTransportOptions extends HttpServerOptions {
+  ssePath: string;
+  messagesPath: string;
+}
+
+/**
+ * セッションごとに保持するサーバーとトランスポートの組
+ */
+interface SseSession extends HttpSession {
+  transport: SSEServerTransport;
+}
+
+/**
+ * 旧来のHTTP+SSEトランスポート（GET /sse と POST /messages）でMCPサーバーを公開するクラス
+ * SSE接続ごとに個別のServerインスタンスを生成し、POSTはsessionIdクエリで振り分ける
+ */
+export class SseHttpServer extends BaseHttpServer<SseTransportOptions, SseSession> {
+  protected readonly transportName = "SSE";
+
+  /**
+   * 起動ログに表示するエンドポイントのパスを取得する
+   */
+  protected getEndpointPath(): string {
+    return this.options.ssePath;
+  }
+
+  /**
+   * HTTPリクエストを処理する
+   */
+  protected async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const requestUrl = new URL(req.url || "/", "http://localhost");
+
+    if (requestUrl.pathname === this.options.ssePath && req.method === "GET") {
+      await this.handleSseConnection(req, res);
+      return;
+    }
+
+    if (requestUrl.pathname === this.options.messagesPath && req.method === "POST") {
+      await this.handlePostMessage(req, res, requestUrl.searchParams.get("sessionId"));
+      return;
+    }
+
+    sendJsonRpcError(res, 404, -32000, `Not Found: ${req.method} ${requestUrl.pathname}`);
+  }
+
+  /**
+   * SSE接続を確立し、新しいセッション用のServerを接続する
+   */
+  private async handleSseConnection(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    // ブラウザからのDNSリバインディングを防ぐため、待ち受けアドレス以外のHostヘッダーを拒否する
+    // SSEServerTransport はPOSTされたメッセージしか検証しないため、ストリームを開く前にここで確認する
+    const allowedHosts = this.getAllowedHosts();
+    const host = req.headers.host;
+    if (allowedHosts && (!host || !allowedHosts.includes(host))) {
+      sendJsonRpcError(res, 403, -32000, `Invalid Host header: ${host}`);
+      return;
+    }
+
+    const server = this.serverFactory();
+    const transport = new SSEServerTransport(this.options.messagesPath, res, {
+      enableDnsRebindingProtection: allowedHosts !== undefined,
+      allowedHosts
+    });
+    const sessionId = transport.sessionId;
+
+    this.sessions.set(sessionId, { server, transport });
+    this.logger.error(`SSE session opened: ${sessionId} (active sessions: ${this.sessions.size})`);
+
+    // クライアントが切断したらセッションを破棄する
+    transport.onclose = () => {
+      if (this.sessions.delete(sessionId)) {
+        this.logger.error(`SSE session closed: ${sessionId} (active sessions: ${this.sessions.size})`);
+      }
+    };
+
+    await server.connect(transport);
+  }
+
+  /**
+   * POSTされたメッセージをsessionIdに対応するセッションへ振り分ける
+   */
+  private async handlePostMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+    if (!sessionId) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: sessionId query parameter is required");
+      return;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      this.logger.error(`Failed to parse request body for POST ${this.options.messagesPath} (sessionId: ${sessionId}):`, error);
+      sendJsonRpcError(res, 400, -32700, "Parse error: Request body is not valid JSON");
+      return;
+    }
+
+    await session.transport.handlePostMessage(req, res, body);
+  }
+}
@@ -18,7 +18,12 @@ export interface DifyInputField {
   label?: string;
   variable: string;
   required?: boolean;
-  default?: string;
+  default?: string | number | boolean;
+  max_length?: number;
+  options?: string[];
+  min?: number | string;
+  max?: number | string;
+  allowed_file_types?: string[];
   [key: string]: any;
 }
 
@@ -26,8 +31,23 @@ export interface DifyInputComponent {
   [componentType: string]: DifyInputField;
 }
 
+export interface DifyFeatureToggle {
+  enabled?: boolean;
+  [key: string]: any;
+}
+
 export interface DifyParametersResponse {
   user_input_form?: DifyInputComponent[];
+  opening_statement?: string;
+  suggested_questions?: string[];
+  suggested_questions_after_answer?: DifyFeatureToggle;
+  more_like_this?: DifyFeatureToggle;
+  text_to_speech?: DifyFeatureToggle & {
+    voice?: string;
+    language?: string;
+    autoPlay?: string;
+  };
+  speech_to_text?: DifyFeatureToggle;
   file_upload?: Record<string, any>;
   system_parameters?: Record<string, any>;
   parameters?: DifyParameter[] | Record<string, any>; // Kept for backward compatibility
@@ -52,4 +72,286 @@ export interface DifyWorkflowResponse {
   created_at?: number;
   finished_at?: number;
   [key: string]: any;
-} 
\ No newline at end of file
+}
+
+// Type definitions for Dify file inputs and uploads
+export interface DifyFileInput {
+  type: string;
+  transfer_method: "local_file" | "remote_url" | string;
+  upload_file_id?: string;
+  url?: string;
+}
+
+export interface DifyAudioToTextResponse {
+  text: string;
+  [key: string]: any;
+}
+
+export interface DifyFileUploadResponse {
+  id: string;
+  name?: string;
+  size?: number;
+  extension?: string;
+  mime_type?: string;
+  created_by?: string;
+  created_at?: number;
+  [key: string]: any;
+}
+
+export interface DifyStopWorkflowResponse {
+  result?: string;
+  [key: string]: any;
+}
+
+// Response of GET /workflows/run/{workflow_run_id}
+export interface DifyWorkflowRunDetail {
+  id: string;
+  workflow_id?: string;
+  status: "running" | "succeeded" | "failed" | "stopped" | string;
+  inputs?: Record<string, any> | string;
+  // Older Dify versions return the outputs as a JSON string
+  outputs?: Record<string, any> | string | null;
+  error?: string | null;
+  total_steps?: number;
+  total_tokens?: number;
+  created_at?: number;
+  finished_at?: number | null;
+  elapsed_time?: number;
+  [key: string]: any;
+}
+
+// Type definitions for Dify workflow logs (GET /workflows/logs)
+export type DifyWorkflowLogStatus = "succeeded" | "failed" | "stopped";
+
+export interface DifyWorkflowLog {
+  id: string;
+  workflow_run: {
+    id: string;
+    version?: string;
+    status: string;
+    error?: string | null;
+    elapsed_time?: number;
+    total_tokens?: number;
+    total_steps?: number;
+    created_at?: number;
+    finished_at?: number | null;
+    [key: string]: any;
+  };
+  created_from?: string;
+  created_by_role?: string;
+  created_by_account?: Record<string, any> | null;
+  created_by_end_user?: Record<string, any> | null;
+  created_at?: number;
+  [key: string]: any;
+}
+
+export interface DifyWorkflowLogListResponse {
+  page?: number;
+  limit?: number;
+  total?: number;
+  has_more?: boolean;
+  data: DifyWorkflowLog[];
+  [key: string]: any;
+}
+
+// Type definitions for Dify chat apps (chatflow / chatbot)
+export interface DifyChatMessageResponse {
+  event?: string;
+  task_id?: string;
+  id?: string;
+  message_id?: string;
+  conversation_id?: string;
+  workflow_run_id?: string;
+  mode?: string;
+  answer?: string;
+  metadata?: Record<string, any>;
+  created_at?: number;
+  [key: string]: any;
+}
+
+// Type definitions for Dify conversation APIs (chat apps)
+export interface DifyConversation {
+  id: string;
+  name?: string;
+  inputs?: Record<string, any>;
+  status?: string;
+  introduction?: string;
+  created_at?: number;
+  updated_at?: number;
+  [key: string]: any;
+}
+
+export interface DifyConversationListResponse {
+  limit?: number;
+  has_more?: boolean;
+  data: DifyConversation[];
+  [key: string]: any;
+}
+
+export interface DifyMessage {
+  id: string;
+  conversation_id?: string;
+  inputs?: Record<string, any>;
+  query?: string;
+  answer?: string;
+  feedback?: { rating?: string } | null;
+  created_at?: number;
+  [key: string]: any;
+}
+
+export interface DifyMessageListResponse {
+  limit?: number;
+  has_more?: boolean;
+  data: DifyMessage[];
+  [key: string]: any;
+}
+
+export type DifyFeedbackRating = "like" | "dislike";
+
+export interface DifyFeedbackResponse {
+  result?: string;
+  [key: string]: any;
+}
+
+export interface DifyDeleteResponse {
+  result?: string;
+  [key: string]: any;
+}
+
+// Type definitions for Dify Dataset (knowledge base) API responses
+export interface DifyRetrievalModel {
+  search_method?: "keyword_search" | "semantic_search" | "full_text_search" | "hybrid_search" | string;
+  reranking_enable?: boolean;
+  reranking_model?: Record<string, any> | null;
+  top_k?: number;
+  score_threshold_enabled?: boolean;
+  score_threshold?: number | null;
+  [key: string]: any;
+}
+
+export interface DifyDataset {
+  id: string;
+  name?: string;
+  description?: string | null;
+  indexing_technique?: "high_quality" | "economy" | string | null;
+  document_count?: number;
+  retrieval_model_dict?: DifyRetrievalModel;
+  [key: string]: any;
+}
+
+export interface DifySegment {
+  id: string;
+  position?: number;
+  document_id?: string;
+  content: string;
+  answer?: string | null;
+  word_count?: number;
+  tokens?: number;
+  keywords?: string[];
+  document?: {
+    id?: string;
+    name?: string;
+    data_source_type?: string;
+    [key: string]: any;
+  };
+  [key: string]: any;
+}
+
+export interface DifyRetrieveRecord {
+  segment: DifySegment;
+  score?: number | null;
+  [key: string]: any;
+}
+
+export interface DifyRetrieveResponse {
+  query?: {
+    content?: string;
+  };
+  records: DifyRetrieveRecord[];
+  [key: string]: any;
+}
+
+export interface DifyDocument {
+  id: string;
+  name?: string;
+  position?: number;
+  data_source_type?: string;
+  indexing_status?: string;
+  enabled?: boolean;
+  word_count?: number;
+  created_at?: number;
+  [key: string]: any;
+}
+
+export interface DifyDocumentResponse {
+  document: DifyDocument;
+  // インデックス作成の進捗確認に使用するバッチID
+  batch: string;
+  [key: string]: any;
+}
+
+export interface DifyDocumentListResponse {
+  data: DifyDocument[];
+  has_more?: boolean;
+  limit?: number;
+  total?: number;
+  page?: number;
+  [key: string]: any;
+}
+
+export interface DifyIndexingStatus {
+  id: string;
+  indexing_status?: string;
+  processing_started_at?: number | null;
+  completed_at?: number | null;
+  error?: string | null;
+  completed_segments?: number;
+  total_segments?: number;
+  [key: string]: any;
+}
+
+export interface DifyIndexingStatusResponse {
+  data: DifyIndexingStatus[];
+  [key: string]: any;
+}
+
+// Type definitions for Dify streaming (response_mode: "streaming") events
+export type DifyStreamEventType =
+  | "workflow_started"
+  | "node_started"
+  | "node_finished"
+  | "text_chunk"
+  | "workflow_finished"
+  | "message"
+  | "agent_message"
+  | "message_end"
+  | "ping"
+  | "error"
+  | string;
+
+export interface DifyStreamEvent {
+  event: DifyStreamEventType;
+  task_id?: string;
+  workflow_run_id?: string;
+  message_id?: string;
+  conversation_id?: string;
+  answer?: string;
+  data?: {
+    id?: string;
+    workflow_id?: string;
+    node_id?: string;
+    node_type?: string;
+    title?: string;
+    status?: string;
+    text?: string;
+    outputs?: Record<string, any>;
+    error?: string;
+    elapsed_time?: number;
+    total_tokens?: number;
+    total_steps?: number;
+    created_at?: number;
+    finished_at?: number;
+    [key: string]: any;
+  };
+  [key: string]: any;
+}